@@ -0,0 +1,46 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExecutionBackend } from "@/lib/backend";
+
+interface BackendSelectProps {
+  value: ExecutionBackend;
+  onChange: (backend: ExecutionBackend) => void;
+  className?: string;
+}
+
+const BACKEND_OPTIONS: { value: ExecutionBackend; label: string; description: string }[] = [
+  { value: 'auto', label: 'Auto', description: 'Edge function, in-browser if unreachable' },
+  { value: 'remote', label: 'Edge Function', description: 'Always run on the hosted function' },
+  { value: 'local', label: 'In-Browser', description: 'Web Worker, works offline' },
+];
+
+export function BackendSelect({ value, onChange, className }: BackendSelectProps) {
+  return (
+    <div className={`space-y-2 ${className ?? ""}`}>
+      <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+        Execution Backend
+      </Label>
+      <Select value={value} onValueChange={(v) => onChange(v as ExecutionBackend)}>
+        <SelectTrigger className="bg-muted/50 border-border">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BACKEND_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>
+              <div className="flex flex-col">
+                <span>{option.label}</span>
+                <span className="text-xs text-muted-foreground">{option.description}</span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface BandwidthEditorProps {
+  N: number;
+  B?: number[];
+  onChange: (B: number[] | undefined) => void;
+}
+
+export function BandwidthEditor({ N, B, onChange }: BandwidthEditorProps) {
+  const values = B ?? Array(N).fill(1);
+  const total = values.reduce((a, b) => a + b, 0);
+
+  const updateChannel = (i: number, value: number) => {
+    onChange(values.map((v, j) => (j === i ? value : v)));
+  };
+
+  // Alternate narrow and wide channels, e.g. a mixed 5/20 MHz plan
+  const mixedPlan = () => {
+    onChange(Array.from({ length: N }, (_, i) => (i % 2 === 0 ? 0.25 : 1)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+          Bandwidth B<sub>i</sub>
+        </Label>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={mixedPlan}>
+            Narrow/Wide
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={() => onChange(undefined)}>
+            All 1.0
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-6 gap-1 max-h-32 overflow-auto">
+        {values.map((value, i) => (
+          <div key={i} className="flex flex-col items-center">
+            <span className="text-[9px] text-muted-foreground font-mono">C{i + 1}</span>
+            <Input
+              type="number"
+              value={value}
+              onChange={(e) => {
+                const parsed = parseFloat(e.target.value);
+                if (!isNaN(parsed) && parsed > 0) updateChannel(i, parsed);
+              }}
+              className="h-6 text-[10px] p-0.5 text-center"
+              step={0.25}
+              min={0.01}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Rates scale as B<sub>i</sub>·log₂(1 + SINR<sub>i</sub>); total bandwidth {total.toFixed(2)}
+      </p>
+    </div>
+  );
+}
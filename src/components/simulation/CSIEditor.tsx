@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CSIConfig } from "@/lib/simulation";
+
+interface CSIEditorProps {
+  defenders: number;
+  attackers: number;
+  csi?: CSIConfig;
+  onChange: (csi: CSIConfig | undefined) => void;
+}
+
+export function CSIEditor({ defenders, attackers, csi, onChange }: CSIEditorProps) {
+  const defenderValues = Array.from({ length: defenders }, (_, d) => csi?.defenderErrorVariance[d] ?? 0);
+  const jammerValues = Array.from({ length: attackers }, (_, m) => csi?.jammerErrorVariance[m] ?? 0);
+
+  const update = (role: "defender" | "jammer", index: number, value: number) => {
+    const next: CSIConfig = {
+      defenderErrorVariance: defenderValues.map((v, d) => (role === "defender" && d === index ? value : v)),
+      jammerErrorVariance: jammerValues.map((v, m) => (role === "jammer" && m === index ? value : v)),
+      seed: csi?.seed,
+    };
+    const perfect = [...next.defenderErrorVariance, ...next.jammerErrorVariance].every((v) => v === 0);
+    onChange(perfect ? undefined : next);
+  };
+
+  const row = (role: "defender" | "jammer", prefix: string, values: number[]) => (
+    <div className="grid grid-cols-6 gap-1">
+      {values.map((value, i) => (
+        <div key={i} className="flex flex-col items-center">
+          <span className="text-[9px] text-muted-foreground font-mono">
+            {prefix}
+            {i + 1}
+          </span>
+          <Input
+            type="number"
+            value={value}
+            onChange={(e) => {
+              const parsed = parseFloat(e.target.value);
+              if (!isNaN(parsed) && parsed >= 0) update(role, i, parsed);
+            }}
+            className="h-6 text-[10px] p-0.5 text-center"
+            step={0.05}
+            min={0}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+          CSI Error Variance σ<sub>e</sub>²
+        </Label>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={() => onChange(undefined)}>
+          Perfect CSI
+        </Button>
+      </div>
+      {row("defender", "D", defenderValues)}
+      {row("jammer", "J", jammerValues)}
+      <p className="text-[10px] text-muted-foreground">
+        Players optimize on ĥ = h + e, ĝ = g + e; rates use the true gains
+      </p>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -8,7 +9,14 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ParameterSlider } from "./ParameterSlider";
-import { SimulationParams } from "@/lib/simulation";
+import { SensingControls } from "./SensingControls";
+import { BandwidthEditor } from "./BandwidthEditor";
+import { CSIEditor } from "./CSIEditor";
+import { JammerPatternControls } from "./JammerPatternControls";
+import { GainImporter } from "./GainImporter";
+import { TauMatrixEditor } from "./TauMatrixEditor";
+import { MinRateEditor } from "./MinRateEditor";
+import { JammerPattern, SimulationParams, applySimulationGains } from "@/lib/simulation";
 import { Shuffle, RotateCcw, Play, Loader2 } from "lucide-react";
 
 interface ControlPanelProps {
@@ -21,6 +29,12 @@ interface ControlPanelProps {
   validationError?: string | null;
 }
 
+const MODE_PATTERN: Partial<Record<SimulationParams["jammerMode"], JammerPattern>> = {
+  J4: "sweep",
+  J5: "randomSubset",
+  J6: "reactive",
+};
+
 export function ControlPanel({
   params,
   onParamsChange,
@@ -39,6 +53,9 @@ export function ControlPanel({
 
   const maxND = params.N - params.NR;
   const maxNR = params.N;
+  const randomPlacement = params.placement?.mode === "random";
+  const band = params.placement?.band ?? [0, params.N - 1];
+  const pattern = MODE_PATTERN[params.jammerMode];
 
   return (
     <div className="panel h-full overflow-auto">
@@ -66,6 +83,11 @@ export function ControlPanel({
                 g: newG,
                 NR: Math.min(params.NR, v),
                 ND: Math.min(params.ND, v - Math.min(params.NR, v)),
+                placement: params.placement && { ...params.placement, band: undefined },
+                B: params.B && Array.from({ length: v }, (_, i) => params.B?.[i] ?? 1),
+                tauMatrix: params.tauMatrix?.map(row => Array.from({ length: v }, (_, i) => row[i] ?? params.tau)),
+                minRate: params.minRate && Array.from({ length: v }, (_, i) => params.minRate?.[i] ?? 0),
+                gainTrace: undefined,
               });
             }}
             min={2}
@@ -140,6 +162,41 @@ export function ControlPanel({
             step={0.01}
             description="Channel active if x_i ≥ τ"
           />
+          <TauMatrixEditor
+            N={params.N}
+            attackers={1}
+            tau={params.tau}
+            tauMatrix={params.tauMatrix}
+            onChange={(tauMatrix) => updateParam("tauMatrix", tauMatrix)}
+          />
+          {/* Floors are per channel; random placement can put real traffic on any of them */}
+          <MinRateEditor
+            slots={Array.from({ length: randomPlacement ? params.N : params.NR }, (_, i) => ({ index: i, label: `C${i + 1}` }))}
+            length={params.N}
+            minRate={params.minRate}
+            onChange={(minRate) => updateParam("minRate", minRate)}
+          />
+          <SensingControls
+            sensing={params.sensing}
+            onChange={(sensing) => updateParam("sensing", sensing)}
+          />
+          <BandwidthEditor
+            N={params.N}
+            B={params.B}
+            onChange={(B) => updateParam("B", B)}
+          />
+          <CSIEditor
+            defenders={1}
+            attackers={1}
+            csi={params.csi}
+            onChange={(csi) => updateParam("csi", csi)}
+          />
+          <GainImporter
+            dims={{ N: params.N, D: 1, M: 1 }}
+            traceSlots={params.gainTrace?.h.length}
+            onImport={(gains) => onParamsChange(applySimulationGains(params, gains))}
+            onClearTrace={() => updateParam("gainTrace", undefined)}
+          />
         </div>
 
         {/* Strategy Selection */}
@@ -154,7 +211,7 @@ export function ControlPanel({
             <Select
               value={params.defenderPolicy}
               onValueChange={(v) =>
-                updateParam("defenderPolicy", v as "D1" | "D2" | "D3")
+                updateParam("defenderPolicy", v as "D1" | "D2" | "D3" | "D4")
               }
             >
               <SelectTrigger className="bg-muted/50 border-border">
@@ -168,6 +225,9 @@ export function ControlPanel({
                 <SelectItem value="D3">
                   D3: Real-Optimized + Fixed Decoys
                 </SelectItem>
+                <SelectItem value="D4">
+                  D4: Water-Filling vs Jammer
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -178,7 +238,7 @@ export function ControlPanel({
             <Select
               value={params.jammerMode}
               onValueChange={(v) =>
-                updateParam("jammerMode", v as "J1" | "J2" | "J3")
+                updateParam("jammerMode", v as SimulationParams["jammerMode"])
               }
             >
               <SelectTrigger className="bg-muted/50 border-border">
@@ -187,7 +247,10 @@ export function ControlPanel({
               <SelectContent>
                 <SelectItem value="J1">J1: Uniform Split</SelectItem>
                 <SelectItem value="J2">J2: Concentrate on Top K</SelectItem>
-                <SelectItem value="J3">J3: Numerical Optimizer</SelectItem>
+                <SelectItem value="J3">J3: KKT Best Response</SelectItem>
+                <SelectItem value="J4">J4: Sweep</SelectItem>
+                <SelectItem value="J5">J5: Random Subset</SelectItem>
+                <SelectItem value="J6">J6: Reactive (Dwell)</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -201,6 +264,69 @@ export function ControlPanel({
               step={1}
             />
           )}
+          {pattern && (
+            <JammerPatternControls
+              pattern={pattern}
+              config={params.pattern}
+              N={params.N}
+              onChange={(config) => updateParam("pattern", config)}
+            />
+          )}
+        </div>
+
+        {/* Channel Placement */}
+        <div className="space-y-4">
+          <h4 className="text-xs uppercase tracking-wider text-primary font-semibold">
+            Channel Placement
+          </h4>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="random-placement" className="text-sm cursor-pointer">
+              Randomized Placement
+              <span className="block text-xs text-muted-foreground">
+                Mixed strategy over real/decoy indices
+              </span>
+            </Label>
+            <Switch
+              id="random-placement"
+              checked={randomPlacement}
+              onCheckedChange={(checked) =>
+                updateParam("placement", checked ? { mode: "random", minSpacing: 1 } : undefined)
+              }
+            />
+          </div>
+          {randomPlacement && params.placement && (
+            <>
+              <ParameterSlider
+                label="Min Spacing"
+                value={params.placement.minSpacing ?? 1}
+                onChange={(v) => updateParam("placement", { ...params.placement!, minSpacing: v })}
+                min={1}
+                max={5}
+                step={1}
+                description="Index gap between used channels"
+              />
+              <ParameterSlider
+                label="Band Start"
+                value={band[0]}
+                onChange={(v) =>
+                  updateParam("placement", { ...params.placement!, band: [v, Math.max(v, band[1])] })
+                }
+                min={0}
+                max={params.N - 1}
+                step={1}
+              />
+              <ParameterSlider
+                label="Band End"
+                value={band[1]}
+                onChange={(v) =>
+                  updateParam("placement", { ...params.placement!, band: [Math.min(v, band[0]), v] })
+                }
+                min={0}
+                max={params.N - 1}
+                step={1}
+              />
+            </>
+          )}
         </div>
 
         {/* Validation Error */}
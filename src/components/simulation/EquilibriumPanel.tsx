@@ -1,14 +1,31 @@
 import { Button } from "@/components/ui/button";
 import { ParameterSlider } from "./ParameterSlider";
-import { EquilibriumParams, ChannelConfig, countChannelTypes } from "@/lib/equilibrium";
+import {
+  EquilibriumParams,
+  EquilibriumSolver,
+  ChannelConfig,
+  SOLVER_LABELS,
+  countChannelTypes,
+} from "@/lib/equilibrium";
 import { Play, Loader2, Shuffle, RotateCcw, FlaskConical, ChevronDown, ChevronUp } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ChannelConfigPanel } from "./equilibrium/ChannelConfigPanel";
 import { JammerConfigPanel } from "./equilibrium/JammerConfigPanel";
 import { GainsConfigPanel } from "./equilibrium/GainsConfigPanel";
+import { HardwareLimitsControls } from "./equilibrium/HardwareLimitsControls";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useState } from "react";
 
+const SOLVER_DESCRIPTIONS: Record<EquilibriumSolver, string> = {
+  gradient: "Damped projected gradient ascent",
+  bestResponse: "Exact water-filling / KKT responses, damped by α",
+  fictitiousPlay: "Best responses to averaged strategies; 1/(t+1) averaging replaces α",
+  extragradient: "Gradient step evaluated at an extrapolated half step",
+};
+
 interface EquilibriumPanelProps {
   params: EquilibriumParams;
   onParamsChange: (params: EquilibriumParams) => void;
@@ -62,13 +79,16 @@ export function EquilibriumPanel({
       h.length = newD;
       // Reassign channels that belonged to removed defenders
       for (let i = 0; i < channelConfig.length; i++) {
-        if (channelConfig[i].owner >= newD) {
-          channelConfig[i] = { ...channelConfig[i], owner: i % newD };
-        }
+        const owner = channelConfig[i].owner >= newD ? i % newD : channelConfig[i].owner;
+        const sharedWith = channelConfig[i].sharedWith?.filter(s => s.defender < newD && s.defender !== owner);
+        channelConfig[i] = { ...channelConfig[i], owner, sharedWith };
       }
     }
     
-    onParamsChange({ ...params, D: newD, PT, h, channelConfig });
+    const defenderPeakPower = params.defenderPeakPower &&
+      Array.from({ length: newD }, (_, d) => params.defenderPeakPower?.[d] ?? PT[d]);
+    
+    onParamsChange({ ...params, D: newD, PT, h, channelConfig, defenderPeakPower, gainTrace: undefined });
   };
 
   const handleMChange = (newM: number) => {
@@ -85,8 +105,13 @@ export function EquilibriumPanel({
       PJ.length = newM;
       g.length = newM;
     }
+    const reach = params.reach?.slice(0, newM);
+    const jammerLimits = params.jammerLimits &&
+      Array.from({ length: newM }, (_, m) => params.jammerLimits?.[m] ?? {});
+    const tauMatrix = params.tauMatrix &&
+      Array.from({ length: newM }, (_, m) => params.tauMatrix?.[m] ?? Array(params.N).fill(params.tau));
     
-    onParamsChange({ ...params, M: newM, PJ, g });
+    onParamsChange({ ...params, M: newM, PJ, g, reach, jammerLimits, tauMatrix, gainTrace: undefined });
   };
 
   const handleNChange = (newN: number) => {
@@ -113,10 +138,29 @@ export function EquilibriumPanel({
       channelConfig = channelConfig.slice(0, newN);
     }
     
-    onParamsChange({ ...params, N: newN, h, g, channelConfig });
+    const B = params.B && Array.from({ length: newN }, (_, i) => params.B?.[i] ?? 1);
+    // New channels are reachable; bands stay inside the band plan
+    const reach = params.reach?.map(r => ({
+      ...r,
+      mask: r.mask && Array.from({ length: newN }, (_, i) => r.mask?.[i] ?? true),
+      bandStart: r.bandStart !== undefined ? Math.min(r.bandStart, newN - 1) : undefined,
+      bandWidth: r.bandWidth !== undefined ? Math.min(r.bandWidth, newN) : undefined,
+    }));
+    
+    const tauMatrix = params.tauMatrix?.map(row => Array.from({ length: newN }, (_, i) => row[i] ?? params.tau));
+    const minRate = params.minRate && Array.from({ length: newN }, (_, i) => params.minRate?.[i] ?? 0);
+    const jammerLimits = params.jammerLimits?.map(limits => ({
+      ...limits,
+      maxChannels: limits.maxChannels !== undefined ? Math.min(limits.maxChannels, newN) : undefined,
+    }));
+    
+    onParamsChange({
+      ...params, N: newN, h, g, B, channelConfig, reach, tauMatrix, jammerLimits, minRate, gainTrace: undefined,
+    });
   };
 
   const counts = countChannelTypes(params.channelConfig);
+  const solver = params.solver ?? 'gradient';
 
   return (
     <div className="panel h-full overflow-auto">
@@ -200,6 +244,16 @@ export function EquilibriumPanel({
                 />
               ))}
             </div>
+            <HardwareLimitsControls
+              N={params.N}
+              PT={params.PT}
+              PJ={params.PJ}
+              jammerLimits={params.jammerLimits}
+              defenderPeakPower={params.defenderPeakPower}
+              onChange={(jammerLimits, defenderPeakPower) =>
+                onParamsChange({ ...params, jammerLimits, defenderPeakPower })
+              }
+            />
           </CollapsibleContent>
         </Collapsible>
 
@@ -261,6 +315,24 @@ export function EquilibriumPanel({
             {openSections.algorithm ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
           </CollapsibleTrigger>
           <CollapsibleContent className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label className="text-xs uppercase tracking-wider text-muted-foreground">Solver</Label>
+              <Select value={solver} onValueChange={(v) => updateParam("solver", v as EquilibriumSolver)}>
+                <SelectTrigger className="bg-muted/50 border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SOLVER_LABELS) as EquilibriumSolver[]).map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {SOLVER_LABELS[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground">
+                {SOLVER_DESCRIPTIONS[solver]}
+              </p>
+            </div>
             <ParameterSlider
               label="Damping (α)"
               value={params.alpha}
@@ -287,6 +359,15 @@ export function EquilibriumPanel({
               step={0.0001}
               description="Stop when max change < ε"
             />
+            <ParameterSlider
+              label="Nash Tolerance"
+              value={params.nashTolerance ?? params.epsilon}
+              onChange={(v) => updateParam("nashTolerance", v)}
+              min={0.0001}
+              max={0.1}
+              step={0.0001}
+              description="ε-Nash when no player gains more than this by deviating"
+            />
             <ParameterSlider
               label="Noise (σ²)"
               value={params.sigma2}
@@ -295,6 +376,18 @@ export function EquilibriumPanel({
               max={5}
               step={0.1}
             />
+            <div className="flex items-center justify-between py-2 border-t border-border">
+              <div>
+                <Label className="text-sm">Compute Baselines</Label>
+                <p className="text-[10px] text-muted-foreground">
+                  Also solve the oracle-jammer and ND=0 games
+                </p>
+              </div>
+              <Switch
+                checked={!!params.computeBaselines}
+                onCheckedChange={(v) => updateParam("computeBaselines", v)}
+              />
+            </div>
           </CollapsibleContent>
         </Collapsible>
 
@@ -1,7 +1,8 @@
-import { EquilibriumResult, EquilibriumParams, countChannelTypes } from "@/lib/equilibrium";
+import { EquilibriumResult, EquilibriumParams, SOLVER_LABELS, countChannelTypes } from "@/lib/equilibrium";
 import { MetricCard } from "./MetricCard";
+import { QoSSummary } from "./QoSSummary";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, XCircle, TrendingUp, AlertTriangle, Target, Zap } from "lucide-react";
+import { CheckCircle2, XCircle, TrendingUp, AlertTriangle, Target, Zap, ShieldAlert } from "lucide-react";
 import {
   LineChart,
   Line,
@@ -58,6 +59,12 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
   const totalAttackerUtility = result.attackers.reduce((s, a) => s + a.utility, 0);
   const counts = countChannelTypes(params.channelConfig);
   const { metrics } = result;
+  const exploitablePlayers = [
+    ...result.nash.defenderRegret.map((r, d) => ({ name: `D${d + 1}`, regret: r })),
+    ...result.nash.attackerRegret.map((r, m) => ({ name: `A${m + 1}`, regret: r })),
+  ]
+    .filter(p => p.regret > result.nash.tolerance)
+    .map(p => p.name);
 
   // Prepare convergence chart data
   const convergenceData = result.convergenceHistory.map((h) => ({
@@ -120,6 +127,9 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
             >
               ε = {params.epsilon}
             </Badge>
+            <Badge variant="outline" className="text-xs">
+              {SOLVER_LABELS[result.solver]}
+            </Badge>
             <Badge variant="outline" className="text-xs">
               {params.jammerStrategy.replace('_', ': ')}
             </Badge>
@@ -130,6 +140,13 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
         </div>
         
         {/* Warnings */}
+        {!result.nash.epsilonNash && (
+          <div className="mt-3 flex items-center gap-2 text-destructive bg-destructive/10 p-2 rounded text-sm">
+            <ShieldAlert className="w-4 h-4" />
+            Not an ε-Nash equilibrium{result.nash.attackersCertified ? "" : " (defender-only certificate)"}: exploitability {result.nash.exploitability.toExponential(2)} exceeds{" "}
+            {result.nash.tolerance} ({exploitablePlayers.join(", ")} can profit by deviating)
+          </div>
+        )}
         {metrics.symmetricEquilibrium && (
           <div className="mt-3 flex items-center gap-2 text-amber-600 bg-amber-500/10 p-2 rounded text-sm">
             <AlertTriangle className="w-4 h-4" />
@@ -165,7 +182,11 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
         <MetricCard
           label="Active Channels"
           value={metrics.activeChannelCount}
-          tooltip={`${counts.real} real + ${counts.decoy} decoy`}
+          tooltip={
+            result.sensing
+              ? `Expected |A| = Σ Pd under energy-detector sensing`
+              : `${counts.real} real + ${counts.decoy} decoy`
+          }
         />
         <MetricCard
           label="Iterations"
@@ -173,6 +194,87 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
         />
       </div>
 
+      {/* Value of Deception (reference games) */}
+      {result.oracleResult && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <MetricCard
+            label="Oracle Throughput"
+            value={result.oracleResult.metrics.totalRealThroughput.toFixed(3)}
+            unit="bps/Hz"
+            variant="jammer"
+            tooltip="Real throughput when the jammer knows which channels are real"
+          />
+          <MetricCard
+            label="Oracle Gap"
+            value={metrics.oracleGap.toFixed(4)}
+            unit="bps/Hz"
+            variant="secondary"
+            tooltip="Deception throughput minus oracle throughput"
+          />
+          <MetricCard
+            label="vs No Decoys"
+            value={`${metrics.improvementOverNoDecoys >= 0 ? '+' : ''}${(metrics.improvementOverNoDecoys * 100).toFixed(1)}%`}
+            variant="primary"
+            tooltip="Real throughput change relative to the same scenario with ND = 0"
+          />
+          <MetricCard
+            label="Oracle Jammer Waste"
+            value={`${(result.oracleResult.metrics.jammerWasteOnDecoys * 100).toFixed(1)}%`}
+            tooltip="Fraction of oracle jammer power on decoys (ideally 0)"
+          />
+        </div>
+      )}
+
+      {/* Equilibrium certification */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <MetricCard
+          label="Exploitability"
+          value={result.nash.exploitability.toExponential(2)}
+          variant={result.nash.epsilonNash ? "primary" : "jammer"}
+          tooltip={
+            result.nash.attackersCertified
+              ? "Largest utility gain any single player gets from its best unilateral deviation"
+              : "Largest utility gain any defender gets from its best unilateral deviation; heuristic and pattern jammers follow a fixed rule and are not certified"
+          }
+        />
+        <MetricCard
+          label="NashConv"
+          value={result.nash.nashConv.toExponential(2)}
+          tooltip="Sum of all players' best-deviation gains"
+        />
+        <MetricCard
+          label={result.nash.attackersCertified ? "ε-Nash" : "ε-Nash (defender-only)"}
+          value={result.nash.epsilonNash ? "Yes" : "No"}
+          variant={result.nash.epsilonNash ? "secondary" : "jammer"}
+          tooltip={
+            result.nash.attackersCertified
+              ? `Exploitability ≤ ${result.nash.tolerance}`
+              : `Defender exploitability ≤ ${result.nash.tolerance}; the attackers are not certified`
+          }
+        />
+      </div>
+
+      {/* Imperfect CSI reference */}
+      {result.csi && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <MetricCard
+            label="Perfect-CSI Throughput"
+            value={result.csi.perfectU_real.toFixed(3)}
+            unit="bps/Hz"
+            tooltip="Real throughput when every player knows the true h and g"
+          />
+          <MetricCard
+            label="CSI Loss"
+            value={result.csi.U_realLoss.toFixed(4)}
+            unit="bps/Hz"
+            variant="jammer"
+            tooltip="Perfect-CSI throughput minus throughput with estimation errors"
+          />
+        </div>
+      )}
+
+      {result.qos && <QoSSummary qos={result.qos} />}
+
       {/* Per-Player Utilities */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="panel p-4">
@@ -190,9 +292,14 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
                     {params.channelConfig.filter(c => c.owner === i && c.type === 'decoy').length}D)
                   </span>
                 </div>
-                <Badge variant="outline" className="font-mono">
-                  {d.utility.toFixed(4)}
-                </Badge>
+                <div className="flex items-center gap-1">
+                  <Badge variant="outline" className="font-mono text-[10px] text-muted-foreground">
+                    regret {result.nash.defenderRegret[i].toExponential(1)}
+                  </Badge>
+                  <Badge variant="outline" className="font-mono">
+                    {d.utility.toFixed(4)}
+                  </Badge>
+                </div>
               </div>
             ))}
           </div>
@@ -210,10 +317,27 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
                   <Badge variant="outline" className="text-[10px]">
                     P = {params.PJ[i]}W
                   </Badge>
+                  <Badge
+                    variant="outline"
+                    className="text-[10px]"
+                    title={`Perceived active: ${metrics.perceivedActiveSets[i].map(c => `C${c + 1}`).join(", ") || "none"}`}
+                  >
+                    sees {metrics.perceivedActiveSets[i].length}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Badge variant="outline" className="font-mono text-[10px] text-muted-foreground">
+                    waste {(metrics.attackerWasteOnDecoys[i] * 100).toFixed(1)}%
+                  </Badge>
+                  {result.nash.attackersCertified && (
+                    <Badge variant="outline" className="font-mono text-[10px] text-muted-foreground">
+                      regret {result.nash.attackerRegret[i].toExponential(1)}
+                    </Badge>
+                  )}
+                  <Badge variant="outline" className="font-mono">
+                    {a.utility.toFixed(4)}
+                  </Badge>
                 </div>
-                <Badge variant="outline" className="font-mono">
-                  {a.utility.toFixed(4)}
-                </Badge>
               </div>
             ))}
           </div>
@@ -400,6 +524,13 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
                 <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Att Pwr</th>
                 <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">SINR</th>
                 <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Rate</th>
+                <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">B</th>
+                {result.sensing && (
+                  <>
+                    <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Pd</th>
+                    <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Pfa</th>
+                  </>
+                )}
                 <th className="px-3 py-2 text-center font-mono text-xs text-muted-foreground">Active</th>
               </tr>
             </thead>
@@ -435,6 +566,11 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
                     >
                       D{ch.owner + 1}
                     </Badge>
+                    {ch.users.filter(d => d !== ch.owner).map(d => (
+                      <span key={d} className="ml-1 text-[10px] font-mono text-amber-600" title="Shared channel">
+                        +D{d + 1}
+                      </span>
+                    ))}
                   </td>
                   <td className="px-3 py-1.5 text-right font-mono text-primary">
                     {ch.totalDefenderPower.toFixed(3)}
@@ -448,6 +584,19 @@ export function EquilibriumResults({ result, params }: EquilibriumResultsProps)
                   <td className="px-3 py-1.5 text-right font-mono text-primary">
                     {ch.rate.toFixed(4)}
                   </td>
+                  <td className="px-3 py-1.5 text-right font-mono text-muted-foreground">
+                    {ch.bandwidth.toFixed(2)}
+                  </td>
+                  {result.sensing && (
+                    <>
+                      <td className="px-3 py-1.5 text-right font-mono">
+                        {result.sensing.pd[ch.channel].toFixed(3)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono text-muted-foreground">
+                        {result.sensing.pfa[ch.channel].toFixed(3)}
+                      </td>
+                    </>
+                  )}
                   <td className="px-3 py-1.5 text-center">
                     {ch.isActive ? (
                       <span className="text-green-500">●</span>
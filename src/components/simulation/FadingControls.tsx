@@ -0,0 +1,67 @@
+import { ParameterSlider } from "./ParameterSlider";
+import type { FadingConfig, GainDistribution } from "@/lib/simulation";
+
+interface FadingControlsProps {
+  distribution: GainDistribution;
+  fading?: FadingConfig;
+  onChange: (fading: FadingConfig) => void;
+}
+
+export function FadingControls({ distribution, fading, onChange }: FadingControlsProps) {
+  const update = <K extends keyof FadingConfig>(key: K, value: FadingConfig[K]) => {
+    onChange({ ...fading, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      {distribution === "rayleigh" && (
+        <p className="text-[10px] text-muted-foreground">
+          Gains are Rayleigh amplitudes with mean power 2; geometric gains use unit-mean power fading instead
+        </p>
+      )}
+      {distribution === "rician" && (
+        <ParameterSlider
+          label="Rician K-Factor"
+          value={fading?.kFactor ?? 3}
+          onChange={(v) => update("kFactor", v)}
+          min={0}
+          max={20}
+          step={0.5}
+          description="LOS-to-scattered power ratio; K = 0 is Rayleigh"
+        />
+      )}
+      {distribution === "nakagami" && (
+        <ParameterSlider
+          label="Nakagami m"
+          value={fading?.nakagamiM ?? 2}
+          onChange={(v) => update("nakagamiM", v)}
+          min={0.5}
+          max={10}
+          step={0.5}
+          description="Shape; m = 1 is Rayleigh, larger m fades less"
+        />
+      )}
+      {distribution === "lognormal" && (
+        <ParameterSlider
+          label="Log-Normal σ"
+          value={fading?.lognormalSigmaDb ?? 4}
+          onChange={(v) => update("lognormalSigmaDb", v)}
+          min={0}
+          max={12}
+          step={0.5}
+          unit="dB"
+          description="Spread of the gains around a unit median"
+        />
+      )}
+      <ParameterSlider
+        label="Frequency Correlation (ρ)"
+        value={fading?.correlation ?? 0}
+        onChange={(v) => update("correlation", v)}
+        min={0}
+        max={0.99}
+        step={0.01}
+        description="Correlation between adjacent channels"
+      />
+    </div>
+  );
+}
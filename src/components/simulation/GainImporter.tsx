@@ -0,0 +1,79 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Upload, X } from "lucide-react";
+import { GainDimensions, ImportedGains, parseGainFile } from "@/lib/simulation";
+import { useToast } from "@/hooks/use-toast";
+
+interface GainImporterProps {
+  dims: GainDimensions;
+  traceSlots?: number;
+  onImport: (gains: ImportedGains) => void;
+  onClearTrace: () => void;
+}
+
+export function GainImporter({ dims, traceSlots, onImport, onClearTrace }: GainImporterProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+      const gains = parseGainFile(await file.text(), format, dims);
+      onImport(gains);
+      toast({
+        title: "Gains Imported",
+        description: gains.trace
+          ? `${gains.slots}-slot trace; h and g set to its time average`
+          : `Static h and g for ${dims.N} channels`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+          Measured Gains
+        </Label>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={() => inputRef.current?.click()}>
+          <Upload className="w-3 h-3 mr-1" />
+          CSV / JSON
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {traceSlots !== undefined && (
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-[10px]">
+            Trace: {traceSlots} slots
+          </Badge>
+          <Button variant="ghost" size="sm" className="h-5 px-1 text-[10px]" onClick={onClearTrace}>
+            <X className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        </div>
+      )}
+      <p className="text-[10px] text-muted-foreground">
+        CSV columns link (h/g), player, optional slot, then {dims.N} gains; JSON {"{ h, g }"} matrices or
+        per-slot traces for {dims.D} defender{dims.D > 1 ? "s" : ""} and {dims.M} attacker{dims.M > 1 ? "s" : ""}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { ParameterSlider } from "./ParameterSlider";
+import type { JammerPattern, JammerPatternConfig } from "@/lib/simulation";
+
+interface JammerPatternControlsProps {
+  pattern: JammerPattern;
+  config?: JammerPatternConfig;
+  N: number;
+  onChange: (config: JammerPatternConfig) => void;
+}
+
+export function JammerPatternControls({ pattern, config, N, onChange }: JammerPatternControlsProps) {
+  const update = <K extends keyof JammerPatternConfig>(key: K, value: JammerPatternConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+
+  switch (pattern) {
+    case "sweep":
+      return (
+        <ParameterSlider
+          label="Sweep Block Size"
+          value={Math.min(config?.blockSize ?? 4, N)}
+          onChange={(v) => update("blockSize", v)}
+          min={1}
+          max={N}
+          step={1}
+          description={`Cycles through ${Math.ceil(N / Math.min(config?.blockSize ?? 4, N))} blocks per slot`}
+        />
+      );
+    case "randomSubset":
+      return (
+        <div className="space-y-4">
+          <ParameterSlider
+            label="Subset Size"
+            value={Math.min(config?.subsetSize ?? 4, N)}
+            onChange={(v) => update("subsetSize", v)}
+            min={1}
+            max={N}
+            step={1}
+            description="Channels hit per slot, ignoring sensing"
+          />
+          <ParameterSlider
+            label="Random Draws"
+            value={config?.draws ?? 50}
+            onChange={(v) => update("draws", v)}
+            min={10}
+            max={500}
+            step={10}
+          />
+        </div>
+      );
+    case "reactive":
+      return (
+        <ParameterSlider
+          label="Dwell Time"
+          value={config?.dwell ?? 0.3}
+          onChange={(v) => update("dwell", v)}
+          min={0}
+          max={1}
+          step={0.05}
+          description="Slot fraction spent sensing before jamming"
+        />
+      );
+  }
+}
@@ -0,0 +1,57 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface MinRateEditorProps {
+  slots: { index: number; label: string }[];  // Entries of minRate that carry real traffic
+  length: number;                             // Length of the minRate array
+  minRate?: number[];
+  onChange: (minRate: number[] | undefined) => void;
+}
+
+export function MinRateEditor({ slots, length, minRate, onChange }: MinRateEditorProps) {
+  // Missing entries mean no floor, as in the engine
+  const values = Array.from({ length }, (_, i) => minRate?.[i] ?? 0);
+
+  const updateEntry = (index: number, value: number) => {
+    onChange(values.map((v, i) => (i === index ? value : v)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm">Minimum Rate (QoS)</Label>
+          <p className="text-[10px] text-muted-foreground">
+            Rate floor per real channel; 0 leaves a channel unconstrained
+          </p>
+        </div>
+        <Switch
+          checked={minRate !== undefined}
+          onCheckedChange={(v) => onChange(v ? values : undefined)}
+        />
+      </div>
+
+      {minRate && (
+        <div className="grid grid-cols-6 gap-1 max-h-40 overflow-auto">
+          {slots.map(({ index, label }) => (
+            <div key={index} className="flex flex-col items-center">
+              <span className="text-[9px] text-muted-foreground font-mono">{label}</span>
+              <Input
+                type="number"
+                value={values[index]}
+                onChange={(e) => {
+                  const parsed = parseFloat(e.target.value);
+                  if (!isNaN(parsed) && parsed >= 0) updateEntry(index, parsed);
+                }}
+                className="h-6 text-[10px] p-0.5 text-center"
+                step={0.1}
+                min={0}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ParameterSlider } from "./ParameterSlider";
+import { MetricCard } from "./MetricCard";
+import {
+  DefenderBandit,
+  ExecutionBackend,
+  OnlineLearningResult,
+  SimulationParams,
+  runOnlineLearning,
+} from "@/lib/simulation";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Shuffle } from "lucide-react";
+
+interface OnlineLearningPanelProps {
+  params: SimulationParams;
+  backend: ExecutionBackend;
+  disabled?: boolean;
+}
+
+const AXIS_STYLE = {
+  stroke: "hsl(215, 15%, 45%)",
+  fontSize: 11,
+  tickLine: false,
+  axisLine: { stroke: "hsl(220, 15%, 20%)" },
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(220, 18%, 12%)",
+  border: "1px solid hsl(220, 15%, 20%)",
+  borderRadius: "8px",
+  fontSize: "12px",
+};
+
+const SMOOTHING_WINDOW = 20;  // Rounds in the moving average of U_real
+
+export function OnlineLearningPanel({ params, backend, disabled }: OnlineLearningPanelProps) {
+  const { toast } = useToast();
+  const [rounds, setRounds] = useState(500);
+  const [defenderLearner, setDefenderLearner] = useState<DefenderBandit>('ucb');
+  const [result, setResult] = useState<OnlineLearningResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    try {
+      const learningResult = await runOnlineLearning({ baseParams: params, rounds, defenderLearner }, backend);
+      setResult(learningResult);
+    } catch (error) {
+      toast({
+        title: "Online Learning Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const roundData = result?.rounds.map((record, t) => {
+    const window = result.rounds.slice(Math.max(0, t - SMOOTHING_WINDOW + 1), t + 1);
+    return {
+      round: record.round + 1,
+      U_real: window.reduce((s, r) => s + r.U_real, 0) / window.length,
+      defenderRegret: record.defenderRegret,
+      jammerRegret: record.jammerRegret,
+    };
+  }) ?? [];
+
+  const frequencyData = result?.realFrequencies.map((real, i) => ({
+    channel: i + 1,
+    real,
+    decoy: result.decoyFrequencies[i],
+    jammed: result.targetFrequencies[i],
+  })) ?? [];
+
+  const last = result?.rounds[result.rounds.length - 1];
+  const bestArm = result?.arms[result.bestFixedArm];
+
+  return (
+    <div className="panel">
+      <h3 className="panel-header flex items-center gap-2">
+        <Shuffle className="w-4 h-4" />
+        Online Learning: Bandit Defender vs EXP3 Jammer
+      </h3>
+      <div className="p-4 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          <ParameterSlider
+            label="Rounds (T)"
+            value={rounds}
+            onChange={setRounds}
+            min={50}
+            max={2000}
+            step={50}
+          />
+          <div className="space-y-2">
+            <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+              Defender Learner
+            </Label>
+            <Select value={defenderLearner} onValueChange={(v) => setDefenderLearner(v as DefenderBandit)}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ucb">UCB1</SelectItem>
+                <SelectItem value="exp3">EXP3</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button onClick={handleRun} disabled={isLoading || disabled} className="w-full">
+          {isLoading ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Playing {rounds} rounds...
+            </>
+          ) : (
+            <>
+              <Shuffle className="w-4 h-4 mr-2" />
+              Run Online Learning
+            </>
+          )}
+        </Button>
+
+        {result && last && bestArm && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <MetricCard label="Average U_real" value={result.averageU_real} variant="primary" />
+              <MetricCard label="One-Shot U_real" value={result.oneShotU_real} />
+              <MetricCard
+                label="Defender Regret"
+                value={last.defenderRegret}
+                tooltip={`Against always playing real ${bestArm.realChannels.map(i => i + 1).join(", ")}, decoy ${bestArm.decoyChannels.map(i => i + 1).join(", ") || "none"} (of ${result.arms.length} channel subsets)`}
+                variant="secondary"
+              />
+              <MetricCard
+                label="Jammer Regret"
+                value={last.jammerRegret}
+                tooltip={`Against always jamming channels ${result.bestFixedTargets.map(i => i + 1).join(", ")}`}
+                variant="jammer"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={roundData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(220, 15%, 20%)" />
+                    <XAxis dataKey="round" {...AXIS_STYLE} />
+                    <YAxis yAxisId="rate" {...AXIS_STYLE} tickFormatter={(v) => v.toFixed(2)} />
+                    <YAxis yAxisId="regret" orientation="right" {...AXIS_STYLE} tickFormatter={(v) => v.toFixed(0)} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      formatter={(value: number, name: string) => [value.toFixed(3), name]}
+                      labelFormatter={(label) => `Round ${label}`}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <ReferenceLine
+                      yAxisId="rate"
+                      y={result.oneShotU_real}
+                      stroke="hsl(215, 15%, 55%)"
+                      strokeDasharray="4 4"
+                    />
+                    <Line
+                      yAxisId="rate"
+                      type="monotone"
+                      dataKey="U_real"
+                      name={`U_real (${SMOOTHING_WINDOW}-round mean)`}
+                      stroke="hsl(185, 80%, 50%)"
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      yAxisId="regret"
+                      type="monotone"
+                      dataKey="defenderRegret"
+                      name="Defender regret"
+                      stroke="hsl(142, 70%, 45%)"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      yAxisId="regret"
+                      type="monotone"
+                      dataKey="jammerRegret"
+                      name="Jammer regret"
+                      stroke="hsl(0, 75%, 55%)"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={frequencyData} barGap={0} barCategoryGap="10%">
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(220, 15%, 20%)" />
+                    <XAxis dataKey="channel" {...AXIS_STYLE} />
+                    <YAxis {...AXIS_STYLE} domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      formatter={(value: number, name: string) => [`${(value * 100).toFixed(1)}%`, name]}
+                      labelFormatter={(label) => `Channel ${label}`}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Bar dataKey="real" name="Real" fill="hsl(185, 80%, 50%)" isAnimationActive={false} />
+                    <Bar dataKey="decoy" name="Decoy" fill="hsl(38, 92%, 55%)" isAnimationActive={false} />
+                    <Bar dataKey="jammed" name="Jammed" fill="hsl(0, 75%, 55%)" isAnimationActive={false} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              Left: smoothed U_real (dashed: one-shot myopic jammer) and cumulative regret of both
+              learners. Right: share of rounds each channel carried real traffic, a decoy, or was jammed.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -116,6 +116,7 @@ Jammer mode & ${params.jammerMode} \\\\
       case "D1": return "minimum-credible decoys (D1)";
       case "D2": return "uniform deception (D2)";
       case "D3": return "real-optimized with fixed decoys (D3)";
+      case "D4": return "water-filling against the jammer response (D4)";
       default: return policy;
     }
   };
@@ -124,7 +125,10 @@ Jammer mode & ${params.jammerMode} \\\\
     switch (mode) {
       case "J1": return "uniform-split (J1)";
       case "J2": return "concentrate-on-top-K (J2)";
-      case "J3": return "numerically-optimized (J3)";
+      case "J3": return "KKT best-response (J3)";
+      case "J4": return "block-sweeping (J4)";
+      case "J5": return "random-subset (J5)";
+      case "J6": return "reactive dwell-time (J6)";
       default: return mode;
     }
   };
@@ -0,0 +1,45 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { QoSReport } from "@/lib/simulation";
+import { MetricCard } from "./MetricCard";
+
+interface QoSSummaryProps {
+  qos: QoSReport;
+}
+
+export function QoSSummary({ qos }: QoSSummaryProps) {
+  return (
+    <div className="panel p-4 space-y-3">
+      <h3 className="text-sm font-semibold">Minimum-Rate QoS</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <MetricCard
+          label="Floors Met"
+          value={`${qos.satisfiedCount}/${qos.channels.length}`}
+          variant={qos.satisfiedCount === qos.channels.length ? "secondary" : "jammer"}
+        />
+        <MetricCard
+          label="Feasible"
+          value={qos.feasible ? "Yes" : "No"}
+          variant={qos.feasible ? "secondary" : "jammer"}
+          tooltip="The power left for real channels covers every floor at the realized jamming"
+        />
+        <MetricCard label="Power Required" value={qos.requiredPower} unit="W" />
+        <MetricCard label="Power Available" value={qos.availablePower} unit="W" />
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {qos.channels.map(c => (
+          <Badge
+            key={c.channel}
+            variant="outline"
+            className={cn(
+              "text-[10px] font-mono",
+              c.satisfied ? "border-secondary/50 text-secondary" : "border-destructive/50 text-destructive"
+            )}
+          >
+            C{c.channel + 1}: {c.rate.toFixed(2)} / {c.minRate.toFixed(2)}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
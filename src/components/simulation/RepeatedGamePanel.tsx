@@ -0,0 +1,258 @@
+import { useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ParameterSlider } from "./ParameterSlider";
+import { MetricCard } from "./MetricCard";
+import {
+  ExecutionBackend,
+  JammerLearner,
+  RepeatedGameResult,
+  SimulationParams,
+  runRepeatedGame,
+} from "@/lib/simulation";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Repeat } from "lucide-react";
+
+interface RepeatedGamePanelProps {
+  params: SimulationParams;
+  backend: ExecutionBackend;
+  disabled?: boolean;
+}
+
+const AXIS_STYLE = {
+  stroke: "hsl(215, 15%, 45%)",
+  fontSize: 11,
+  tickLine: false,
+  axisLine: { stroke: "hsl(220, 15%, 20%)" },
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(220, 18%, 12%)",
+  border: "1px solid hsl(220, 15%, 20%)",
+  borderRadius: "8px",
+  fontSize: "12px",
+};
+
+export function RepeatedGamePanel({ params, backend, disabled }: RepeatedGamePanelProps) {
+  const { toast } = useToast();
+  const [slots, setSlots] = useState(100);
+  const [learner, setLearner] = useState<JammerLearner>('thompson');
+  const [reshuffleInterval, setReshuffleInterval] = useState(0);
+  const [observationNoise, setObservationNoise] = useState(0.1);
+  const [result, setResult] = useState<RepeatedGameResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    try {
+      const gameResult = await runRepeatedGame(
+        { baseParams: params, slots, learner, reshuffleInterval, observationNoise },
+        backend
+      );
+      setResult(gameResult);
+    } catch (error) {
+      toast({
+        title: "Repeated Game Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Mean jammer belief on the channels that are real / decoy in each slot
+  const data = result?.slots.map((slot, t) => {
+    const beliefs = result.beliefs[t];
+    const mean = (channels: number[]) =>
+      channels.length > 0 ? channels.reduce((s, i) => s + beliefs[i], 0) / channels.length : 0;
+    return {
+      slot: slot.slot,
+      U_real: slot.U_real,
+      jammerOnReal: slot.jammerOnReal,
+      beliefReal: mean(slot.realChannels),
+      beliefDecoy: mean(slot.decoyChannels),
+    };
+  }) ?? [];
+
+  return (
+    <div className="panel">
+      <h3 className="panel-header flex items-center gap-2">
+        <Repeat className="w-4 h-4" />
+        Repeated Game: Learning Jammer
+      </h3>
+      <div className="p-4 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <ParameterSlider
+            label="Slots (T)"
+            value={slots}
+            onChange={setSlots}
+            min={10}
+            max={500}
+            step={10}
+          />
+          <ParameterSlider
+            label="Reshuffle Every"
+            value={reshuffleInterval}
+            onChange={setReshuffleInterval}
+            min={0}
+            max={100}
+            step={1}
+            unit="slots"
+            description="0 = fixed real/decoy roles"
+          />
+          <ParameterSlider
+            label="Feedback Noise"
+            value={observationNoise}
+            onChange={setObservationNoise}
+            min={0}
+            max={0.5}
+            step={0.01}
+            description="P(jammer misreads a channel)"
+          />
+          <div className="space-y-2">
+            <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+              Jammer Learner
+            </Label>
+            <Select value={learner} onValueChange={(v) => setLearner(v as JammerLearner)}>
+              <SelectTrigger className="bg-muted/50 border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="thompson">Bayesian (Thompson)</SelectItem>
+                <SelectItem value="ucb">Bandit (UCB1)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button onClick={handleRun} disabled={isLoading || disabled} className="w-full">
+          {isLoading ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Playing {slots} slots...
+            </>
+          ) : (
+            <>
+              <Repeat className="w-4 h-4 mr-2" />
+              Run Repeated Game
+            </>
+          )}
+        </Button>
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <MetricCard label="Average U_real" value={result.averageU_real} variant="primary" />
+              <MetricCard label="One-Shot U_real" value={result.oneShotU_real} />
+              <MetricCard
+                label="Decoys Discovered At"
+                value={result.firstDiscoverySlot === null ? "never" : `slot ${result.firstDiscoverySlot + 1}`}
+                variant="jammer"
+              />
+              <MetricCard
+                label="Deception Effective"
+                value={`${result.deceptionEffectiveSlots} / ${result.slots.length}`}
+                unit="slots"
+                variant="secondary"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(220, 15%, 20%)" />
+                    <XAxis dataKey="slot" {...AXIS_STYLE} />
+                    <YAxis {...AXIS_STYLE} tickFormatter={(v) => v.toFixed(2)} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      formatter={(value: number, name: string) => [value.toFixed(4), name]}
+                      labelFormatter={(label) => `Slot ${label}`}
+                    />
+                    <ReferenceLine
+                      y={result.oneShotU_real}
+                      stroke="hsl(215, 15%, 55%)"
+                      strokeDasharray="4 4"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="U_real"
+                      name="U_real"
+                      stroke="hsl(185, 80%, 50%)"
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(220, 15%, 20%)" />
+                    <XAxis dataKey="slot" {...AXIS_STYLE} />
+                    <YAxis {...AXIS_STYLE} domain={[0, 1]} tickFormatter={(v) => v.toFixed(1)} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      formatter={(value: number, name: string) => [value.toFixed(3), name]}
+                      labelFormatter={(label) => `Slot ${label}`}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="beliefReal"
+                      name="P(real) on real channels"
+                      stroke="hsl(185, 80%, 50%)"
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="beliefDecoy"
+                      name="P(real) on decoys"
+                      stroke="hsl(38, 92%, 55%)"
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      type="stepAfter"
+                      dataKey="jammerOnReal"
+                      name="Jammer power on real"
+                      stroke="hsl(0, 75%, 55%)"
+                      strokeWidth={1}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              Left: per-slot U_real (dashed: one-shot myopic jammer). Right: jammer beliefs and
+              the share of its power that lands on real channels.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ParameterSlider } from "./ParameterSlider";
+import { SensingConfig } from "@/lib/simulation";
+
+interface SensingControlsProps {
+  sensing?: SensingConfig;
+  onChange: (sensing: SensingConfig | undefined) => void;
+}
+
+const DEFAULT_ENERGY_SENSING: SensingConfig = {
+  model: 'energy',
+  window: 20,
+  noisePower: 0.1,
+  samples: 200,
+};
+
+export function SensingControls({ sensing, onChange }: SensingControlsProps) {
+  const energy = sensing?.model === 'energy';
+  const config = energy ? sensing : DEFAULT_ENERGY_SENSING;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="energy-sensing" className="text-sm cursor-pointer">
+          Energy Detector
+          <span className="block text-xs text-muted-foreground">
+            Probabilistic sensing with Pd / Pfa
+          </span>
+        </Label>
+        <Switch
+          id="energy-sensing"
+          checked={energy}
+          onCheckedChange={(checked) => onChange(checked ? config : undefined)}
+        />
+      </div>
+      {energy && (
+        <>
+          <ParameterSlider
+            label="Observation Window (L)"
+            value={config.window}
+            onChange={(v) => onChange({ ...config, window: v })}
+            min={1}
+            max={200}
+            step={1}
+            description="Samples per energy measurement"
+          />
+          <ParameterSlider
+            label="Sensing Noise"
+            value={config.noisePower}
+            onChange={(v) => onChange({ ...config, noisePower: v })}
+            min={0.01}
+            max={2}
+            step={0.01}
+            unit="W"
+            description="Noise power at the jammer's sensing receiver"
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ParameterSlider } from "./ParameterSlider";
+import { MetricCard } from "./MetricCard";
+import { ChannelAllocationChart } from "./ChannelAllocationChart";
+import {
+  ExecutionBackend,
+  SimulationParams,
+  StackelbergResult,
+  runStackelberg,
+} from "@/lib/simulation";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Crown } from "lucide-react";
+
+interface StackelbergPanelProps {
+  params: SimulationParams;
+  backend: ExecutionBackend;
+  disabled?: boolean;
+}
+
+export function StackelbergPanel({ params, backend, disabled }: StackelbergPanelProps) {
+  const { toast } = useToast();
+  const [maxNR, setMaxNR] = useState(Math.min(params.N, 8));
+  const [decoyPowerLevels, setDecoyPowerLevels] = useState(5);
+  const [result, setResult] = useState<StackelbergResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRun = async () => {
+    setIsLoading(true);
+    try {
+      const design = await runStackelberg(
+        { baseParams: params, maxNR: Math.min(maxNR, params.N), decoyPowerLevels },
+        backend
+      );
+      setResult(design);
+    } catch (error) {
+      toast({
+        title: "Stackelberg Design Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="panel">
+      <h3 className="panel-header flex items-center gap-2">
+        <Crown className="w-4 h-4" />
+        Stackelberg Design (Leader Optimum vs {params.jammerMode})
+      </h3>
+      <div className="p-4 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <ParameterSlider
+            label="Max Real Channels"
+            value={Math.min(maxNR, params.N)}
+            onChange={setMaxNR}
+            min={1}
+            max={params.N}
+            step={1}
+          />
+          <ParameterSlider
+            label="Decoy Power Levels"
+            value={decoyPowerLevels}
+            onChange={setDecoyPowerLevels}
+            min={1}
+            max={10}
+            step={1}
+            description="Grid between τ and the spare budget"
+          />
+          <Button onClick={handleRun} disabled={isLoading || disabled} className="w-full">
+            {isLoading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Optimizing...
+              </>
+            ) : (
+              <>
+                <Crown className="w-4 h-4 mr-2" />
+                Solve Leader Problem
+              </>
+            )}
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <MetricCard label="Optimal U_real" value={result.U_real} variant="primary" />
+              <MetricCard
+                label={`Best Heuristic (${result.bestHeuristic})`}
+                value={result.heuristicU_real[result.bestHeuristic]}
+              />
+              <MetricCard
+                label="Gap to Heuristic"
+                value={`${result.gapToBestHeuristic >= 0 ? "+" : ""}${result.gapToBestHeuristic.toFixed(4)}`}
+                variant="secondary"
+              />
+              <MetricCard
+                label="Design"
+                value={`NR=${result.NR}, ND=${result.ND}`}
+                unit={result.ND > 0 ? `@ ${result.decoyPower.toFixed(2)} W` : undefined}
+              />
+            </div>
+            <ChannelAllocationChart
+              x={result.x}
+              y={result.y}
+              channelTypes={result.channelTypes}
+              title="Leader Allocation and Induced Jammer Response"
+            />
+            <p className="text-xs text-muted-foreground text-center">
+              D1 {result.heuristicU_real.D1.toFixed(4)} · D2 {result.heuristicU_real.D2.toFixed(4)} · D3{" "}
+              {result.heuristicU_real.D3.toFixed(4)} · {result.evaluations} jammer best responses evaluated
+            </p>
+            {result.budgetExhausted && (
+              <p className="text-xs text-amber-600 text-center">
+                The search stopped at its evaluation budget before covering the whole grid; lower Max Real
+                Channels or the decoy power levels for a complete search
+              </p>
+            )}
+            {result.qos && (
+              <p className="text-xs text-muted-foreground text-center">
+                Only designs expected to meet every rate floor on their real channels were considered ·{" "}
+                {result.qos.satisfiedCount}/{result.qos.channels.length} floors met
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,9 +14,12 @@ import {
 interface SweepChartProps {
   NDValues: number[];
   U_realValues: number[];
-  bestND: number;
-  bestU_real: number;
+  bestND?: number;
+  bestU_real?: number;
   title: string;
+  yLabel?: string;
+  // Monte Carlo confidence band around the curve, aligned with NDValues
+  band?: { low: number[]; high: number[]; confidence: number };
 }
 
 export function SweepChart({
@@ -25,12 +28,16 @@ export function SweepChart({
   bestND,
   bestU_real,
   title,
+  yLabel = "U_real",
+  band,
 }: SweepChartProps) {
   const data = NDValues.map((nd, i) => ({
     ND: nd,
     U_real: U_realValues[i],
+    band: band ? [band.low[i], band.high[i]] : undefined,
     isBest: nd === bestND,
   }));
+  const hasBest = bestND !== undefined && bestU_real !== undefined;
 
   return (
     <div className="panel p-4">
@@ -69,7 +76,7 @@ export function SweepChart({
               axisLine={{ stroke: "hsl(220, 15%, 20%)" }}
               tickFormatter={(v) => v.toFixed(2)}
               label={{
-                value: "U_real",
+                value: yLabel,
                 angle: -90,
                 position: "insideLeft",
                 fill: "hsl(215, 15%, 55%)",
@@ -84,15 +91,33 @@ export function SweepChart({
                 fontSize: "12px",
               }}
               labelStyle={{ color: "hsl(210, 20%, 92%)" }}
-              formatter={(value: number) => [value.toFixed(4), "U_real"]}
+              formatter={(value: number | number[], name: string) =>
+                Array.isArray(value)
+                  ? [`${value[0].toFixed(4)} – ${value[1].toFixed(4)}`, name]
+                  : [value.toFixed(4), yLabel]
+              }
               labelFormatter={(label) => `ND = ${label}`}
             />
-            <Area
-              type="monotone"
-              dataKey="U_real"
-              fill="url(#areaGradient)"
-              stroke="none"
-            />
+            {band ? (
+              <Area
+                type="monotone"
+                dataKey="band"
+                name={`${Math.round(band.confidence * 100)}% CI`}
+                fill="hsl(185, 80%, 50%)"
+                fillOpacity={0.2}
+                stroke="hsl(185, 80%, 50%)"
+                strokeOpacity={0.4}
+                strokeDasharray="3 3"
+                isAnimationActive={false}
+              />
+            ) : (
+              <Area
+                type="monotone"
+                dataKey="U_real"
+                fill="url(#areaGradient)"
+                stroke="none"
+              />
+            )}
             <Line
               type="monotone"
               dataKey="U_real"
@@ -101,28 +126,42 @@ export function SweepChart({
               dot={{ fill: "hsl(185, 80%, 50%)", r: 3 }}
               activeDot={{ r: 6, stroke: "hsl(185, 80%, 60%)", strokeWidth: 2 }}
             />
-            <ReferenceDot
-              x={bestND}
-              y={bestU_real}
-              r={8}
-              fill="hsl(38, 92%, 55%)"
-              stroke="hsl(38, 92%, 70%)"
-              strokeWidth={2}
-            />
+            {hasBest && (
+              <ReferenceDot
+                x={bestND}
+                y={bestU_real}
+                r={8}
+                fill="hsl(38, 92%, 55%)"
+                stroke="hsl(38, 92%, 70%)"
+                strokeWidth={2}
+              />
+            )}
           </ComposedChart>
         </ResponsiveContainer>
       </div>
       <div className="flex items-center justify-center gap-6 mt-4 text-sm">
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 rounded-full bg-primary" />
-          <span className="text-muted-foreground">U_real vs ND</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <div className="w-4 h-4 rounded-full bg-secondary border-2 border-secondary/50" />
           <span className="text-muted-foreground">
-            Optimal: ND* = {bestND}
+            {yLabel} vs ND{band ? " (mean)" : ""}
           </span>
         </div>
+        {band && (
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-3 rounded-sm bg-primary/20 border border-dashed border-primary/50" />
+            <span className="text-muted-foreground">
+              {Math.round(band.confidence * 100)}% confidence band
+            </span>
+          </div>
+        )}
+        {hasBest && (
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 rounded-full bg-secondary border-2 border-secondary/50" />
+            <span className="text-muted-foreground">
+              Optimal: ND* = {bestND}
+            </span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,69 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface TauMatrixEditorProps {
+  N: number;
+  attackers: number;
+  tau: number;
+  tauMatrix?: number[][];
+  onChange: (tauMatrix: number[][] | undefined) => void;
+}
+
+export function TauMatrixEditor({ N, attackers, tau, tauMatrix, onChange }: TauMatrixEditorProps) {
+  // Missing entries fall back to the scalar tau, as in the engine
+  const rows = Array.from({ length: attackers }, (_, m) =>
+    Array.from({ length: N }, (_, i) => tauMatrix?.[m]?.[i] ?? tau)
+  );
+
+  const updateEntry = (m: number, i: number, value: number) => {
+    onChange(rows.map((row, mm) => (mm === m ? row.map((v, j) => (j === i ? value : v)) : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm">Per-Channel Thresholds</Label>
+          <p className="text-[10px] text-muted-foreground">
+            {attackers > 1 ? "Each attacker senses" : "The jammer senses"} channel i against its own τ
+          </p>
+        </div>
+        <Switch
+          checked={tauMatrix !== undefined}
+          onCheckedChange={(v) => onChange(v ? rows : undefined)}
+        />
+      </div>
+
+      {tauMatrix && (
+        <div className="space-y-1 max-h-40 overflow-auto">
+          {rows.map((row, m) => (
+            <div key={m} className="flex items-start gap-1">
+              {attackers > 1 && (
+                <span className="text-[10px] font-mono w-6 pt-4 text-muted-foreground">A{m + 1}</span>
+              )}
+              <div className="grid grid-cols-6 gap-1 flex-1">
+                {row.map((value, i) => (
+                  <div key={i} className="flex flex-col items-center">
+                    <span className="text-[9px] text-muted-foreground font-mono">C{i + 1}</span>
+                    <Input
+                      type="number"
+                      value={value}
+                      onChange={(e) => {
+                        const parsed = parseFloat(e.target.value);
+                        if (!isNaN(parsed) && parsed >= 0) updateEntry(m, i, parsed);
+                      }}
+                      className="h-6 text-[10px] p-0.5 text-center"
+                      step={0.05}
+                      min={0}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
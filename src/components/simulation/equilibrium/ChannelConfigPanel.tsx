@@ -1,6 +1,8 @@
-import { EquilibriumParams, ChannelType, ChannelConfig } from "@/lib/equilibrium";
+import { EquilibriumParams, ChannelType, ChannelConfig, ChannelShare } from "@/lib/equilibrium";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { ParameterSlider } from "../ParameterSlider";
+import { MinRateEditor } from "../MinRateEditor";
 import { 
   Select, 
   SelectContent, 
@@ -37,14 +39,24 @@ export function ChannelConfigPanel({ params, onParamsChange }: ChannelConfigPane
     onParamsChange({ ...params, channelConfig: newConfig });
   };
 
-  const setAllType = (type: ChannelType, defender?: number) => {
-    const newConfig = params.channelConfig.map((ch, i) => {
-      if (defender === undefined || ch.owner === defender) {
-        return { ...ch, type };
-      }
-      return ch;
+  // Cycle another defender's role on a shared channel: none -> real -> decoy -> none
+  const cycleShare = (index: number, defender: number) => {
+    const shares = params.channelConfig[index].sharedWith ?? [];
+    const current = shares.find(s => s.defender === defender);
+    const others = shares.filter(s => s.defender !== defender);
+    const next: ChannelShare[] = !current
+      ? [...others, { defender, type: 'real' }]
+      : current.type === 'real'
+        ? [...others, { defender, type: 'decoy' }]
+        : others;
+    updateChannel(index, { sharedWith: next.length > 0 ? next : undefined });
+  };
+
+  const clearAll = () => {
+    onParamsChange({
+      ...params,
+      channelConfig: params.channelConfig.map(ch => ({ type: 'inactive', owner: ch.owner })),
     });
-    onParamsChange({ ...params, channelConfig: newConfig });
   };
 
   const distributeEvenly = () => {
@@ -71,7 +83,9 @@ export function ChannelConfigPanel({ params, onParamsChange }: ChannelConfigPane
     real: params.channelConfig.filter(c => c.owner === d && c.type === 'real').length,
     decoy: params.channelConfig.filter(c => c.owner === d && c.type === 'decoy').length,
     inactive: params.channelConfig.filter(c => c.owner === d && c.type === 'inactive').length,
+    shared: params.channelConfig.filter(c => c.sharedWith?.some(s => s.defender === d)).length,
   }));
+  const sharedChannels = params.channelConfig.filter(c => c.sharedWith?.length).length;
 
   const totalReal = stats.reduce((s, d) => s + d.real, 0);
   const totalDecoy = stats.reduce((s, d) => s + d.decoy, 0);
@@ -84,7 +98,7 @@ export function ChannelConfigPanel({ params, onParamsChange }: ChannelConfigPane
           <Shuffle className="w-3 h-3 mr-1" />
           Auto-Distribute
         </Button>
-        <Button variant="outline" size="sm" onClick={() => setAllType('inactive')}>
+        <Button variant="outline" size="sm" onClick={clearAll}>
           <RotateCcw className="w-3 h-3 mr-1" />
           Clear All
         </Button>
@@ -101,8 +115,25 @@ export function ChannelConfigPanel({ params, onParamsChange }: ChannelConfigPane
         <Badge variant="outline">
           {params.N - totalReal - totalDecoy} Inactive
         </Badge>
+        {sharedChannels > 0 && (
+          <Badge variant="outline" className="text-amber-600 border-amber-500/30">
+            {sharedChannels} Shared
+          </Badge>
+        )}
       </div>
 
+      {sharedChannels > 0 && (
+        <ParameterSlider
+          label="Co-Channel Gain"
+          value={params.coChannelGain ?? 1}
+          onChange={(v) => onParamsChange({ ...params, coChannelGain: v })}
+          min={0}
+          max={2}
+          step={0.05}
+          description="Share of another defender's power received as interference"
+        />
+      )}
+
       {/* Per-defender stats */}
       <div className="space-y-2">
         {stats.map((s, d) => (
@@ -111,6 +142,7 @@ export function ChannelConfigPanel({ params, onParamsChange }: ChannelConfigPane
             <span className="text-primary">{s.real}R</span>
             <span className="text-secondary">{s.decoy}D</span>
             <span className="text-muted-foreground">{s.inactive}I</span>
+            {s.shared > 0 && <span className="text-amber-600">+{s.shared} shared</span>}
           </div>
         ))}
       </div>
@@ -141,6 +173,29 @@ export function ChannelConfigPanel({ params, onParamsChange }: ChannelConfigPane
                 <SelectItem value="inactive">Off</SelectItem>
               </SelectContent>
             </Select>
+            {params.D > 1 && (
+              <div className="flex gap-0.5 mt-1 flex-wrap">
+                {Array.from({ length: params.D }, (_, d) => d)
+                  .filter(d => d !== ch.owner)
+                  .map(d => {
+                    const share = ch.sharedWith?.find(s => s.defender === d);
+                    return (
+                      <button
+                        key={d}
+                        type="button"
+                        onClick={() => cycleShare(i, d)}
+                        title={`Defender ${d + 1} on this channel: ${share?.type ?? 'none'} (click to cycle)`}
+                        className={cn(
+                          "px-1 rounded text-[9px] font-mono border border-border",
+                          share ? CHANNEL_TYPE_COLORS[share.type] : "text-muted-foreground"
+                        )}
+                      >
+                        D{d + 1}{share ? (share.type === 'real' ? 'R' : 'D') : ''}
+                      </button>
+                    );
+                  })}
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -156,7 +211,18 @@ export function ChannelConfigPanel({ params, onParamsChange }: ChannelConfigPane
         <span className="flex items-center gap-1">
           <span className="w-2 h-2 rounded bg-muted" /> Inactive
         </span>
+        {params.D > 1 && <span>D# chips: other defenders sharing the channel</span>}
       </div>
+
+      {/* Rate floors on the channels that carry real traffic */}
+      <MinRateEditor
+        slots={params.channelConfig.flatMap((c, i) =>
+          c.type === 'real' || c.sharedWith?.some(s => s.type === 'real') ? [{ index: i, label: `C${i + 1}` }] : []
+        )}
+        length={params.N}
+        minRate={params.minRate}
+        onChange={(minRate) => onParamsChange({ ...params, minRate })}
+      />
     </div>
   );
 }
@@ -65,7 +65,7 @@ ${metrics.improvementOverNoDecoys > 0 ? `Improvement vs No Decoys & ${(metrics.i
   const generateCSV = () => {
     const headers = [
       'Channel', 'Type', 'Owner', 'Defender Power', 'Attacker Power', 
-      'SINR', 'Rate', 'h', 'g', 'Active'
+      'SINR', 'Rate', 'Bandwidth', 'h', 'g', 'Active'
     ];
     const rows = result.channelSummary.map(ch => [
       ch.channel + 1,
@@ -75,6 +75,7 @@ ${metrics.improvementOverNoDecoys > 0 ? `Improvement vs No Decoys & ${(metrics.i
       ch.totalAttackerPower.toFixed(4),
       ch.sinr.toFixed(4),
       ch.rate.toFixed(4),
+      ch.bandwidth.toFixed(4),
       ch.h.toFixed(4),
       ch.g.toFixed(4),
       ch.isActive ? 'Yes' : 'No',
@@ -103,12 +104,14 @@ ${metrics.improvementOverNoDecoys > 0 ? `Improvement vs No Decoys & ${(metrics.i
         attackerMode: params.attackerMode,
       },
       results: {
+        solver: result.solver,
         converged: result.converged,
         iterations: result.iterations,
         maxChange: result.maxChange,
         defenders: result.defenders,
         attackers: result.attackers,
         metrics: result.metrics,
+        nash: result.nash,
       },
       channelSummary: result.channelSummary,
       convergenceHistory: result.convergenceHistory,
@@ -4,12 +4,13 @@ import {
   SweepVariable,
   EquilibriumSweepResult,
   SweepPoint,
-  runEquilibrium,
-  countChannelTypes,
-  ChannelConfig,
+  runEquilibriumSweep,
 } from "@/lib/equilibrium";
+import { ExecutionBackend } from "@/lib/backend";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { 
   Select, 
   SelectContent, 
@@ -20,7 +21,8 @@ import {
 import { ParameterSlider } from "../ParameterSlider";
 import { BarChart3, Loader2, Play, TrendingUp, Download } from "lucide-react";
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -34,6 +36,7 @@ import { useToast } from "@/hooks/use-toast";
 
 interface EquilibriumSweepPanelProps {
   params: EquilibriumParams;
+  backend?: ExecutionBackend;
 }
 
 const SWEEP_VARIABLES: { value: SweepVariable; label: string; description: string }[] = [
@@ -45,16 +48,19 @@ const SWEEP_VARIABLES: { value: SweepVariable; label: string; description: strin
   { value: 'PJ', label: 'Jammer Power (P_J)', description: 'Total jammer power' },
 ];
 
-export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
+export function EquilibriumSweepPanel({ params, backend = 'auto' }: EquilibriumSweepPanelProps) {
   const { toast } = useToast();
   const [sweepVariable, setSweepVariable] = useState<SweepVariable>('ND');
   const [rangeMin, setRangeMin] = useState(0);
   const [rangeMax, setRangeMax] = useState(8);
   const [rangeStep, setRangeStep] = useState(1);
+  const [monteCarlo, setMonteCarlo] = useState(false);
+  const [realizations, setRealizations] = useState(10);
   const [isRunning, setIsRunning] = useState(false);
   const [results, setResults] = useState<SweepPoint[]>([]);
   const [baseline, setBaseline] = useState<SweepPoint | null>(null);
   const [bestPoint, setBestPoint] = useState<SweepPoint | null>(null);
+  const [oracleBaseline, setOracleBaseline] = useState<SweepPoint | null>(null);
 
   const generateRange = () => {
     const points: number[] = [];
@@ -64,161 +70,29 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
     return points;
   };
 
-  const modifyParamsForSweep = (
-    baseParams: EquilibriumParams, 
-    variable: SweepVariable, 
-    value: number
-  ): EquilibriumParams => {
-    const newParams = { ...baseParams };
-    
-    switch (variable) {
-      case 'ND': {
-        // Modify channel config to have 'value' number of decoys
-        const counts = countChannelTypes(baseParams.channelConfig);
-        const targetDecoys = Math.min(value, baseParams.N - counts.real);
-        
-        let currentDecoys = 0;
-        newParams.channelConfig = baseParams.channelConfig.map(c => {
-          if (c.type === 'real') return c;
-          if (currentDecoys < targetDecoys) {
-            currentDecoys++;
-            return { ...c, type: 'decoy' as const };
-          }
-          return { ...c, type: 'inactive' as const };
-        });
-        break;
-      }
-      case 'tau':
-        newParams.tau = value;
-        break;
-      case 'N': {
-        const newN = Math.max(4, Math.round(value));
-        if (newN !== baseParams.N) {
-          newParams.N = newN;
-          // Adjust arrays
-          newParams.h = baseParams.h.map(row => {
-            if (newN > row.length) return [...row, ...Array(newN - row.length).fill(1)];
-            return row.slice(0, newN);
-          });
-          newParams.g = baseParams.g.map(row => {
-            if (newN > row.length) return [...row, ...Array(newN - row.length).fill(1)];
-            return row.slice(0, newN);
-          });
-          // Adjust channel config
-          if (newN > baseParams.channelConfig.length) {
-            const additional: ChannelConfig[] = Array.from(
-              { length: newN - baseParams.channelConfig.length },
-              (_, i) => ({ type: 'inactive' as const, owner: i % baseParams.D })
-            );
-            newParams.channelConfig = [...baseParams.channelConfig, ...additional];
-          } else {
-            newParams.channelConfig = baseParams.channelConfig.slice(0, newN);
-          }
-        }
-        break;
-      }
-      case 'M': {
-        const newM = Math.max(1, Math.round(value));
-        newParams.M = newM;
-        if (newM > baseParams.M) {
-          for (let m = baseParams.M; m < newM; m++) {
-            newParams.PJ.push(10);
-            newParams.g.push(Array(baseParams.N).fill(1));
-          }
-        } else {
-          newParams.PJ = baseParams.PJ.slice(0, newM);
-          newParams.g = baseParams.g.slice(0, newM);
-        }
-        break;
-      }
-      case 'D': {
-        const newD = Math.max(1, Math.round(value));
-        newParams.D = newD;
-        if (newD > baseParams.D) {
-          for (let d = baseParams.D; d < newD; d++) {
-            newParams.PT.push(10);
-            newParams.h.push(Array(baseParams.N).fill(1));
-          }
-        } else {
-          newParams.PT = baseParams.PT.slice(0, newD);
-          newParams.h = baseParams.h.slice(0, newD);
-        }
-        // Reassign orphaned channels
-        newParams.channelConfig = baseParams.channelConfig.map(c => 
-          c.owner >= newD ? { ...c, owner: c.owner % newD } : c
-        );
-        break;
-      }
-      case 'PJ': {
-        // Distribute value evenly across attackers
-        const perAttacker = value / baseParams.M;
-        newParams.PJ = Array(baseParams.M).fill(perAttacker);
-        break;
-      }
-    }
-    
-    return newParams;
-  };
-
   const runSweep = useCallback(async () => {
     setIsRunning(true);
-    const range = generateRange();
-    const points: SweepPoint[] = [];
     
     try {
-      // Run baseline (ND=0 or min value)
-      const baselineParams = modifyParamsForSweep(params, sweepVariable, rangeMin);
-      const baselineResult = await runEquilibrium(baselineParams);
-      const baselinePoint: SweepPoint = {
-        variable: rangeMin,
-        U_real: baselineResult.metrics.totalRealThroughput,
-        dilutionFactor: baselineResult.metrics.dilutionFactor,
-        jammerWaste: baselineResult.metrics.jammerWasteOnDecoys,
-        converged: baselineResult.converged,
-        iterations: baselineResult.iterations,
-      };
-      setBaseline(baselinePoint);
-
-      let best: SweepPoint = baselinePoint;
-
-      for (const val of range) {
-        try {
-          const modifiedParams = modifyParamsForSweep(params, sweepVariable, val);
-          const result = await runEquilibrium(modifiedParams);
-          
-          const point: SweepPoint = {
-            variable: val,
-            U_real: result.metrics.totalRealThroughput,
-            dilutionFactor: result.metrics.dilutionFactor,
-            jammerWaste: result.metrics.jammerWasteOnDecoys,
-            converged: result.converged,
-            iterations: result.iterations,
-          };
-          
-          if (point.U_real > best.U_real) {
-            best = point;
-          }
-          
-          points.push(point);
-        } catch (error) {
-          console.error(`Sweep point ${val} failed:`, error);
-          points.push({
-            variable: val,
-            U_real: 0,
-            dilutionFactor: 0,
-            jammerWaste: 0,
-            converged: false,
-            iterations: 0,
-          });
-        }
-      }
+      const sweepResult: EquilibriumSweepResult = await runEquilibriumSweep(
+        params,
+        sweepVariable,
+        generateRange(),
+        monteCarlo ? { realizations, seed: params.seed } : undefined,
+        backend
+      );
       
-      setResults(points);
-      setBestPoint(best);
+      setResults(sweepResult.points);
+      setBaseline(sweepResult.baseline);
+      setBestPoint(sweepResult.bestPoint);
+      setOracleBaseline(sweepResult.oracleBaseline ?? null);
       
+      const failed = sweepResult.points.filter(p => p.error).length;
       toast({
         title: "Sweep Complete",
-        description: `Best ${sweepVariable} = ${best.variable} with U_real = ${best.U_real.toFixed(4)}`,
+        description: `Best ${sweepVariable} = ${sweepResult.bestPoint.variable} with U_real = ${sweepResult.bestPoint.U_real.toFixed(4)}` +
+          (failed > 0 ? ` (${failed} point${failed > 1 ? 's' : ''} failed)` : ''),
+        variant: failed > 0 ? "destructive" : undefined,
       });
     } catch (error) {
       toast({
@@ -229,24 +103,65 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
     } finally {
       setIsRunning(false);
     }
-  }, [params, sweepVariable, rangeMin, rangeMax, rangeStep, toast]);
+  }, [params, sweepVariable, rangeMin, rangeMax, rangeStep, monteCarlo, realizations, backend, toast]);
 
-  const chartData = results.map(p => ({
+  // Failed points carry no metrics: they are listed with their error instead of plotted
+  const solved = results.filter(p => !p.error);
+  const failures = [
+    ...(baseline?.error ? [{ label: 'ND = 0 baseline', error: baseline.error }] : []),
+    ...(oracleBaseline?.error ? [{ label: 'Oracle baseline', error: oracleBaseline.error }] : []),
+    ...results.flatMap(p => p.error ? [{ label: `${sweepVariable} = ${p.variable}`, error: p.error }] : []),
+  ];
+  const chartData = solved.map(p => ({
     x: p.variable,
     U_real: p.U_real,
+    U_oracle: p.U_oracle,
     jammerWaste: p.jammerWaste * 100,
     dilution: p.dilutionFactor,
+    U_realBand: p.stats ? [p.stats.U_real.ciLow, p.stats.U_real.ciHigh] : undefined,
+    jammerWasteBand: p.stats
+      ? [p.stats.jammerWaste.ciLow * 100, p.stats.jammerWaste.ciHigh * 100]
+      : undefined,
   }));
+  const hasOracle = solved.some(p => p.U_oracle !== undefined);
+  const hasStats = solved.some(p => p.stats !== undefined);
 
   const exportCSV = () => {
-    const headers = ['Variable', 'U_real', 'Jammer_Waste_%', 'Dilution_Factor', 'Converged', 'Iterations'];
-    const rows = results.map(p => [
+    const headers = ['Variable', 'U_real', 'U_oracle', 'Jammer_Waste_%', 'Dilution_Factor', 'Converged', 'Iterations', 'Error'];
+    if (hasStats) {
+      headers.push(
+        'U_real_Std', 'U_real_CI_Low', 'U_real_CI_High',
+        'Jammer_Waste_Std_%', 'Jammer_Waste_CI_Low_%', 'Jammer_Waste_CI_High_%',
+        'Dilution_Std', 'Dilution_CI_Low', 'Dilution_CI_High'
+      );
+    }
+    const rows = results.map(p => p.error ? [
+      p.variable,
+      '', '', '', '', 'No', '',
+      `"${p.error.replace(/"/g, '""')}"`,
+      ...(hasStats ? new Array(9).fill('') : []),
+    ] : [
       p.variable,
       p.U_real.toFixed(6),
+      p.U_oracle !== undefined ? p.U_oracle.toFixed(6) : '',
       (p.jammerWaste * 100).toFixed(2),
       p.dilutionFactor.toFixed(3),
       p.converged ? 'Yes' : 'No',
       p.iterations,
+      '',
+      ...(p.stats
+        ? [
+            p.stats.U_real.std.toFixed(6),
+            p.stats.U_real.ciLow.toFixed(6),
+            p.stats.U_real.ciHigh.toFixed(6),
+            (p.stats.jammerWaste.std * 100).toFixed(2),
+            (p.stats.jammerWaste.ciLow * 100).toFixed(2),
+            (p.stats.jammerWaste.ciHigh * 100).toFixed(2),
+            p.stats.dilutionFactor.std.toFixed(3),
+            p.stats.dilutionFactor.ciLow.toFixed(3),
+            p.stats.dilutionFactor.ciHigh.toFixed(3),
+          ]
+        : []),
     ]);
     const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
     
@@ -341,9 +256,36 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
           />
         </div>
 
+        {/* Monte Carlo Fading */}
+        <div className="grid grid-cols-2 gap-4 items-end">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="equilibrium-monte-carlo" className="text-sm cursor-pointer">
+              Monte Carlo Fading
+              <span className="block text-xs text-muted-foreground">
+                Mean and 95% CI over Rayleigh draws
+              </span>
+            </Label>
+            <Switch
+              id="equilibrium-monte-carlo"
+              checked={monteCarlo}
+              onCheckedChange={setMonteCarlo}
+            />
+          </div>
+          {monteCarlo && (
+            <ParameterSlider
+              label="Realizations (K)"
+              value={realizations}
+              onChange={setRealizations}
+              min={2}
+              max={50}
+              step={1}
+            />
+          )}
+        </div>
+
         {/* Results Summary */}
         {bestPoint && baseline && (
-          <div className="grid grid-cols-3 gap-3 p-3 bg-muted/30 rounded-lg">
+          <div className="grid grid-cols-4 gap-3 p-3 bg-muted/30 rounded-lg">
             <div className="text-center">
               <div className="text-xs text-muted-foreground">Best {sweepVariable}</div>
               <div className="font-mono font-bold text-primary">{bestPoint.variable}</div>
@@ -355,12 +297,18 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
             <div className="text-center">
               <div className="text-xs text-muted-foreground">vs Baseline</div>
               <div className="font-mono font-bold text-green-600">
-                {baseline.U_real > 0 
+                {!baseline.error && baseline.U_real > 0 
                   ? `+${(((bestPoint.U_real - baseline.U_real) / baseline.U_real) * 100).toFixed(1)}%`
                   : 'N/A'
                 }
               </div>
             </div>
+            <div className="text-center">
+              <div className="text-xs text-muted-foreground">Oracle U_real</div>
+              <div className="font-mono font-bold text-jammer">
+                {oracleBaseline && !oracleBaseline.error ? oracleBaseline.U_real.toFixed(4) : 'N/A'}
+              </div>
+            </div>
           </div>
         )}
 
@@ -368,7 +316,7 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
         {chartData.length > 0 && (
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis 
                   dataKey="x" 
@@ -403,6 +351,30 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
                     yAxisId="left"
                   />
                 )}
+                {hasStats && (
+                  <Area
+                    yAxisId="left"
+                    type="monotone"
+                    dataKey="U_realBand"
+                    fill="hsl(var(--primary))"
+                    fillOpacity={0.15}
+                    stroke="none"
+                    name="U_real 95% CI"
+                    isAnimationActive={false}
+                  />
+                )}
+                {hasStats && (
+                  <Area
+                    yAxisId="right"
+                    type="monotone"
+                    dataKey="jammerWasteBand"
+                    fill="hsl(var(--secondary))"
+                    fillOpacity={0.12}
+                    stroke="none"
+                    name="Jammer Waste 95% CI"
+                    isAnimationActive={false}
+                  />
+                )}
                 <Line
                   yAxisId="left"
                   type="monotone"
@@ -412,6 +384,18 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
                   dot={{ fill: "hsl(var(--primary))" }}
                   name="Real Throughput"
                 />
+                {hasOracle && (
+                  <Line
+                    yAxisId="left"
+                    type="monotone"
+                    dataKey="U_oracle"
+                    stroke="hsl(var(--jammer))"
+                    strokeWidth={1.5}
+                    strokeDasharray="2 2"
+                    dot={false}
+                    name="Oracle Throughput"
+                  />
+                )}
                 <Line
                   yAxisId="right"
                   type="monotone"
@@ -422,11 +406,25 @@ export function EquilibriumSweepPanel({ params }: EquilibriumSweepPanelProps) {
                   dot={false}
                   name="Jammer Waste (%)"
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         )}
 
+        {/* Failed points */}
+        {failures.length > 0 && (
+          <div className="space-y-1 p-2 rounded-lg border border-destructive/30 bg-destructive/10 text-xs">
+            {failures.map(f => (
+              <div key={f.label} className="flex gap-2">
+                <Badge variant="outline" className="font-mono text-[10px] text-destructive">
+                  {f.label}
+                </Badge>
+                <span className="text-destructive">{f.error}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Export Button */}
         {results.length > 0 && (
           <Button variant="outline" size="sm" onClick={exportCSV} className="w-full">
@@ -1,4 +1,10 @@
-import { EquilibriumParams, GainDistribution, generateRandomEquilibriumGains } from "@/lib/equilibrium";
+import {
+  EquilibriumParams,
+  GainDistribution,
+  applyEquilibriumGains,
+  defaultGeometry,
+  generateRandomEquilibriumGains,
+} from "@/lib/equilibrium";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,6 +13,11 @@ import { Switch } from "@/components/ui/switch";
 import { Shuffle, Edit2, Table } from "lucide-react";
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
+import { BandwidthEditor } from "../BandwidthEditor";
+import { CSIEditor } from "../CSIEditor";
+import { FadingControls } from "../FadingControls";
+import { GainImporter } from "../GainImporter";
+import { GeometryEditor } from "./GeometryEditor";
 
 interface GainsConfigPanelProps {
   params: EquilibriumParams;
@@ -29,7 +40,9 @@ export function GainsConfigPanel({ params, onParamsChange }: GainsConfigPanelPro
       params.D,
       params.M,
       params.gainDistribution,
-      parsedSeed
+      parsedSeed,
+      params.geometry,
+      params.fading
     );
     onParamsChange({ ...params, h, g, seed: parsedSeed });
   };
@@ -69,8 +82,12 @@ export function GainsConfigPanel({ params, onParamsChange }: GainsConfigPanelPro
         </Label>
         <RadioGroup
           value={params.gainDistribution}
-          onValueChange={(val) => updateParam('gainDistribution', val as GainDistribution)}
-          className="flex gap-3"
+          onValueChange={(val) => onParamsChange({
+            ...params,
+            gainDistribution: val as GainDistribution,
+            geometry: val === 'geometric' ? params.geometry ?? defaultGeometry(params.D, params.M) : params.geometry,
+          })}
+          className="flex flex-wrap gap-3"
         >
           <label className="flex items-center gap-2 cursor-pointer">
             <RadioGroupItem value="uniform" />
@@ -80,6 +97,22 @@ export function GainsConfigPanel({ params, onParamsChange }: GainsConfigPanelPro
             <RadioGroupItem value="rayleigh" />
             <span className="text-sm">Rayleigh</span>
           </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <RadioGroupItem value="rician" />
+            <span className="text-sm">Rician</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <RadioGroupItem value="nakagami" />
+            <span className="text-sm">Nakagami</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <RadioGroupItem value="lognormal" />
+            <span className="text-sm">Log-Normal</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <RadioGroupItem value="geometric" />
+            <span className="text-sm">Geometric</span>
+          </label>
           <label className="flex items-center gap-2 cursor-pointer">
             <RadioGroupItem value="custom" />
             <span className="text-sm">Custom</span>
@@ -87,6 +120,25 @@ export function GainsConfigPanel({ params, onParamsChange }: GainsConfigPanelPro
         </RadioGroup>
       </div>
 
+      {/* Fading model parameters and frequency correlation */}
+      {params.gainDistribution && !['geometric', 'custom'].includes(params.gainDistribution) && (
+        <FadingControls
+          distribution={params.gainDistribution}
+          fading={params.fading}
+          onChange={(fading) => updateParam('fading', fading)}
+        />
+      )}
+
+      {/* Node positions for path loss and shadowing */}
+      {params.gainDistribution === 'geometric' && (
+        <GeometryEditor
+          D={params.D}
+          M={params.M}
+          geometry={params.geometry}
+          onChange={(geometry) => updateParam('geometry', geometry)}
+        />
+      )}
+
       {/* Seed + Randomize */}
       <div className="flex gap-2">
         <div className="flex-1">
@@ -243,6 +295,29 @@ export function GainsConfigPanel({ params, onParamsChange }: GainsConfigPanelPro
         </div>
       )}
 
+      {/* Measured gains and traces */}
+      <GainImporter
+        dims={{ N: params.N, D: params.D, M: params.M }}
+        traceSlots={params.gainTrace?.h.length}
+        onImport={(gains) => onParamsChange(applyEquilibriumGains(params, gains))}
+        onClearTrace={() => updateParam('gainTrace', undefined)}
+      />
+
+      {/* Per-channel bandwidth */}
+      <BandwidthEditor
+        N={params.N}
+        B={params.B}
+        onChange={(B) => updateParam('B', B)}
+      />
+
+      {/* Channel estimation error per player */}
+      <CSIEditor
+        defenders={params.D}
+        attackers={params.M}
+        csi={params.csi}
+        onChange={(csi) => updateParam('csi', csi)}
+      />
+
       {/* Random Init Toggle */}
       <div className="flex items-center justify-between py-2 border-t border-border">
         <div>
@@ -0,0 +1,149 @@
+import { GeometryConfig, Position, defaultGeometry } from "@/lib/equilibrium";
+import { ParameterSlider } from "../ParameterSlider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface GeometryEditorProps {
+  D: number;
+  M: number;
+  geometry?: GeometryConfig;
+  onChange: (geometry: GeometryConfig) => void;
+}
+
+type NodeRole = 'defenderTx' | 'defenderRx' | 'attackers';
+
+const MAP_SIZE = 160;
+const MAP_PADDING = 12;
+
+export function GeometryEditor({ D, M, geometry, onChange }: GeometryEditorProps) {
+  // Missing positions fall back to the default layout, as in the engine
+  const fallback = defaultGeometry(D, M);
+  const config: GeometryConfig = {
+    ...fallback,
+    ...geometry,
+    defenderTx: fallback.defenderTx.map((p, d) => geometry?.defenderTx[d] ?? p),
+    defenderRx: fallback.defenderRx.map((p, d) => geometry?.defenderRx[d] ?? p),
+    attackers: fallback.attackers.map((p, m) => geometry?.attackers[m] ?? p),
+  };
+
+  const update = (updates: Partial<GeometryConfig>) => onChange({ ...config, ...updates });
+
+  const updatePosition = (role: NodeRole, index: number, axis: keyof Position, value: number) => {
+    update({ [role]: config[role].map((p, k) => (k === index ? { ...p, [axis]: value } : p)) });
+  };
+
+  // Fit every node into the square map
+  const nodes = [...config.defenderTx, ...config.defenderRx, ...config.attackers];
+  const minX = Math.min(...nodes.map(p => p.x));
+  const minY = Math.min(...nodes.map(p => p.y));
+  const span = Math.max(1, ...nodes.map(p => p.x - minX), ...nodes.map(p => p.y - minY));
+  const scale = (MAP_SIZE - 2 * MAP_PADDING) / span;
+  const toMap = (p: Position) => ({
+    cx: MAP_PADDING + (p.x - minX) * scale,
+    cy: MAP_SIZE - MAP_PADDING - (p.y - minY) * scale,
+  });
+
+  const positionInputs = (role: NodeRole, prefix: string, positions: Position[]) =>
+    positions.map((p, k) => (
+      <div key={`${role}-${k}`} className="flex items-center gap-1">
+        <span className="text-[10px] font-mono w-10 text-muted-foreground">{prefix}{k + 1}</span>
+        {(['x', 'y'] as const).map(axis => (
+          <Input
+            key={axis}
+            type="number"
+            value={p[axis]}
+            onChange={(e) => {
+              const parsed = parseFloat(e.target.value);
+              if (!isNaN(parsed)) updatePosition(role, k, axis, parsed);
+            }}
+            className="h-6 text-[10px] p-0.5 text-center"
+            step={0.5}
+          />
+        ))}
+      </div>
+    ));
+
+  return (
+    <div className="space-y-3 p-2 rounded-lg border border-border">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+          Node Positions
+        </Label>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={() => onChange(fallback)}>
+          Default Layout
+        </Button>
+      </div>
+
+      <svg viewBox={`0 0 ${MAP_SIZE} ${MAP_SIZE}`} className="w-full h-40 bg-muted/20 rounded">
+        {config.defenderTx.map((tx, d) => {
+          const a = toMap(tx);
+          const b = toMap(config.defenderRx[d]);
+          return (
+            <g key={`link-${d}`}>
+              <line x1={a.cx} y1={a.cy} x2={b.cx} y2={b.cy} stroke="hsl(var(--primary))" strokeDasharray="3 2" />
+              <circle {...a} r={4} fill="hsl(var(--primary))" />
+              <rect x={b.cx - 3.5} y={b.cy - 3.5} width={7} height={7} fill="hsl(var(--primary))" />
+              <text x={a.cx + 5} y={a.cy - 5} fontSize={8} fill="hsl(var(--muted-foreground))">D{d + 1}</text>
+            </g>
+          );
+        })}
+        {config.attackers.map((p, m) => {
+          const a = toMap(p);
+          return (
+            <g key={`attacker-${m}`}>
+              <circle {...a} r={4} fill="hsl(var(--jammer))" />
+              <text x={a.cx + 5} y={a.cy - 5} fontSize={8} fill="hsl(var(--muted-foreground))">A{m + 1}</text>
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-[10px] text-muted-foreground">
+        ● transmitter, ■ receiver; distances in reference distances d₀ (a link of length d₀ has unit path gain)
+      </p>
+      <p className="text-[10px] text-amber-600">
+        Each attacker has one jamming gain per channel, taken to its nearest receiver: defenders farther from the
+        attacker are jammed as strongly as the nearest one
+      </p>
+
+      <div className="grid grid-cols-1 gap-1 max-h-40 overflow-auto">
+        {positionInputs('defenderTx', 'Tx', config.defenderTx)}
+        {positionInputs('defenderRx', 'Rx', config.defenderRx)}
+        {positionInputs('attackers', 'A', config.attackers)}
+      </div>
+
+      <ParameterSlider
+        label="Path-Loss Exponent"
+        value={config.pathLossExponent}
+        onChange={(v) => update({ pathLossExponent: v })}
+        min={1}
+        max={6}
+        step={0.1}
+        description="2 for free space, 3-4 for urban links"
+      />
+      <ParameterSlider
+        label="Shadowing σ"
+        value={config.shadowingDb ?? 0}
+        onChange={(v) => update({ shadowingDb: v })}
+        min={0}
+        max={12}
+        step={0.5}
+        unit="dB"
+        description="Log-normal shadowing per link"
+      />
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm">Rayleigh Fading</Label>
+          <p className="text-[10px] text-muted-foreground">
+            Per-channel unit-mean power fading on top of path loss (the i.i.d. Rayleigh gains have mean power 2)
+          </p>
+        </div>
+        <Switch
+          checked={(config.fading ?? 'rayleigh') === 'rayleigh'}
+          onCheckedChange={(v) => update({ fading: v ? 'rayleigh' : 'none' })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { HardwareLimits } from "@/lib/equilibrium";
+import { ParameterSlider } from "../ParameterSlider";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface HardwareLimitsControlsProps {
+  N: number;
+  PT: number[];
+  PJ: number[];
+  jammerLimits?: HardwareLimits[];
+  defenderPeakPower?: number[];
+  onChange: (jammerLimits: HardwareLimits[] | undefined, defenderPeakPower: number[] | undefined) => void;
+}
+
+export function HardwareLimitsControls({
+  N,
+  PT,
+  PJ,
+  jammerLimits,
+  defenderPeakPower,
+  onChange,
+}: HardwareLimitsControlsProps) {
+  const enabled = jammerLimits !== undefined || defenderPeakPower !== undefined;
+  // Missing limits are unbounded, as in the engine
+  const attackers = PJ.map((pj, m) => ({
+    maxChannels: Math.min(jammerLimits?.[m]?.maxChannels ?? N, N),
+    maxChannelPower: jammerLimits?.[m]?.maxChannelPower ?? pj,
+  }));
+  const peaks = PT.map((pt, d) => defenderPeakPower?.[d] ?? pt);
+
+  const updateAttacker = (m: number, updates: HardwareLimits) => {
+    onChange(attackers.map((limits, k) => (k === m ? { ...limits, ...updates } : limits)), peaks);
+  };
+
+  const updateDefender = (d: number, peak: number) => {
+    onChange(attackers, peaks.map((v, k) => (k === d ? peak : v)));
+  };
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm">Hardware Limits</Label>
+          <p className="text-[10px] text-muted-foreground">
+            Channels jammed at once and peak power per channel
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(v) => (v ? onChange(attackers, peaks) : onChange(undefined, undefined))}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          {attackers.map((limits, m) => (
+            <div key={`limits-${m}`} className="space-y-2 p-2 rounded-lg border border-border">
+              <span className="font-mono text-xs">A{m + 1}</span>
+              <ParameterSlider
+                label="Max Simultaneous Channels"
+                value={limits.maxChannels}
+                onChange={(v) => updateAttacker(m, { maxChannels: v })}
+                min={1}
+                max={N}
+                step={1}
+              />
+              <ParameterSlider
+                label="Peak Power per Channel"
+                value={limits.maxChannelPower}
+                onChange={(v) => updateAttacker(m, { maxChannelPower: v })}
+                min={0.1}
+                max={Math.max(PJ[m], 0.1)}
+                step={0.1}
+                unit="W"
+              />
+            </div>
+          ))}
+          {peaks.map((peak, d) => (
+            <ParameterSlider
+              key={`peak-${d}`}
+              label={`Defender ${d + 1} Peak per Channel`}
+              value={peak}
+              onChange={(v) => updateDefender(d, v)}
+              min={0.1}
+              max={Math.max(PT[d], 0.1)}
+              step={0.1}
+              unit="W"
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
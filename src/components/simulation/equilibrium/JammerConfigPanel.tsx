@@ -1,10 +1,14 @@
-import { EquilibriumParams, JammerStrategy, JammerObjective, AttackerMode } from "@/lib/equilibrium";
+import { EquilibriumParams, JammerStrategy, JammerObjective, AttackerMode, JammerPattern } from "@/lib/equilibrium";
 import { ParameterSlider } from "../ParameterSlider";
+import { SensingControls } from "../SensingControls";
+import { JammerPatternControls } from "../JammerPatternControls";
+import { JammerReachControls } from "./JammerReachControls";
+import { TauMatrixEditor } from "../TauMatrixEditor";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Badge } from "@/components/ui/badge";
-import { Eye, EyeOff, Users, User, Crosshair, BarChart3, Cpu } from "lucide-react";
+import { Eye, EyeOff, Users, User, Crosshair, BarChart3, Cpu, ScanLine, Shuffle, Timer } from "lucide-react";
 
 interface JammerConfigPanelProps {
   params: EquilibriumParams;
@@ -27,12 +31,34 @@ const STRATEGY_INFO: Record<JammerStrategy, { label: string; description: string
     description: 'Gradient-based optimal allocation',
     icon: <Cpu className="w-3 h-3" />,
   },
+  J4_sweep: {
+    label: 'J4: Sweep',
+    description: 'Cycles through channel blocks, ignoring sensing',
+    icon: <ScanLine className="w-3 h-3" />,
+  },
+  J5_randomSubset: {
+    label: 'J5: Random Subset',
+    description: 'Hits a random subset of channels each slot',
+    icon: <Shuffle className="w-3 h-3" />,
+  },
+  J6_reactive: {
+    label: 'J6: Reactive',
+    description: 'Jams sensed channels after a dwell time',
+    icon: <Timer className="w-3 h-3" />,
+  },
+};
+
+const STRATEGY_PATTERN: Partial<Record<JammerStrategy, JammerPattern>> = {
+  J4_sweep: 'sweep',
+  J5_randomSubset: 'randomSubset',
+  J6_reactive: 'reactive',
 };
 
 export function JammerConfigPanel({ params, onParamsChange }: JammerConfigPanelProps) {
   const updateParam = <K extends keyof EquilibriumParams>(key: K, value: EquilibriumParams[K]) => {
     onParamsChange({ ...params, [key]: value });
   };
+  const pattern = STRATEGY_PATTERN[params.jammerStrategy];
 
   return (
     <div className="space-y-5">
@@ -127,6 +153,24 @@ export function JammerConfigPanel({ params, onParamsChange }: JammerConfigPanelP
         />
       )}
 
+      {/* Pattern parameters (J4-J6) */}
+      {pattern && (
+        <JammerPatternControls
+          pattern={pattern}
+          config={params.pattern}
+          N={params.N}
+          onChange={(config) => updateParam('pattern', config)}
+        />
+      )}
+
+      {/* Per-attacker reachability */}
+      <JammerReachControls
+        reach={params.reach}
+        M={params.M}
+        N={params.N}
+        onChange={(reach) => updateParam('reach', reach)}
+      />
+
       {/* Multi-Attacker Mode */}
       {params.M > 1 && (
         <div className="space-y-3">
@@ -180,6 +224,17 @@ export function JammerConfigPanel({ params, onParamsChange }: JammerConfigPanelP
         step={0.01}
         description="Active set A(x) = {i | x_i ≥ τ}"
       />
+      <TauMatrixEditor
+        N={params.N}
+        attackers={params.M}
+        tau={params.tau}
+        tauMatrix={params.tauMatrix}
+        onChange={(tauMatrix) => updateParam('tauMatrix', tauMatrix)}
+      />
+      <SensingControls
+        sensing={params.sensing}
+        onChange={(sensing) => updateParam('sensing', sensing)}
+      />
     </div>
   );
 }
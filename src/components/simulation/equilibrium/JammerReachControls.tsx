@@ -0,0 +1,126 @@
+import { JammerReach, JammerReachMode, reachableChannels } from "@/lib/equilibrium";
+import { ParameterSlider } from "../ParameterSlider";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface JammerReachControlsProps {
+  reach?: JammerReach[];
+  M: number;
+  N: number;
+  onChange: (reach: JammerReach[] | undefined) => void;
+}
+
+const MODE_LABELS: Record<JammerReachMode, string> = {
+  all: 'All',
+  mask: 'Mask',
+  band: 'Band',
+};
+
+export function JammerReachControls({ reach, M, N, onChange }: JammerReachControlsProps) {
+  const entries = Array.from({ length: M }, (_, m): JammerReach => reach?.[m] ?? { mode: 'all' });
+
+  const updateAttacker = (m: number, next: JammerReach) => {
+    const updated = entries.map((entry, k) => (k === m ? next : entry));
+    onChange(updated.every(entry => entry.mode === 'all') ? undefined : updated);
+  };
+
+  const setMode = (m: number, mode: JammerReachMode) => {
+    if (mode === 'mask') {
+      // Start from whatever the attacker reaches now
+      const reachable = new Set(reachableChannels(entries[m], N));
+      updateAttacker(m, { mode, mask: Array.from({ length: N }, (_, i) => reachable.has(i)) });
+    } else if (mode === 'band') {
+      updateAttacker(m, { mode, bandStart: 0, bandWidth: Math.max(1, Math.floor(N / 2)) });
+    } else {
+      updateAttacker(m, { mode });
+    }
+  };
+
+  const toggleChannel = (m: number, i: number) => {
+    const mask = Array.from({ length: N }, (_, j) => entries[m].mask?.[j] !== false);
+    mask[i] = !mask[i];
+    // Keep at least one channel reachable
+    if (mask.includes(true)) updateAttacker(m, { ...entries[m], mask });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+        Reachable Channels
+      </Label>
+      {entries.map((entry, m) => {
+        const reachable = new Set(reachableChannels(entry, N));
+        return (
+          <div key={m} className="space-y-2 p-2 rounded-lg border border-border">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-xs w-8">A{m + 1}</span>
+              <div className="flex gap-1">
+                {(Object.keys(MODE_LABELS) as JammerReachMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setMode(m, mode)}
+                    className={cn(
+                      "px-2 py-0.5 rounded border text-[10px] transition-all",
+                      entry.mode === mode
+                        ? "border-jammer bg-jammer/10 text-jammer"
+                        : "border-border text-muted-foreground hover:border-jammer/50"
+                    )}
+                  >
+                    {MODE_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+              <Badge variant="outline" className="ml-auto text-[10px]">
+                {reachable.size}/{N}
+              </Badge>
+            </div>
+
+            {entry.mode === 'mask' && (
+              <div className="grid grid-cols-8 gap-1">
+                {Array.from({ length: N }, (_, i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => toggleChannel(m, i)}
+                    className={cn(
+                      "h-5 rounded text-[9px] font-mono border",
+                      reachable.has(i)
+                        ? "bg-jammer/20 border-jammer/50 text-jammer"
+                        : "bg-muted/30 border-border text-muted-foreground"
+                    )}
+                  >
+                    {i + 1}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {entry.mode === 'band' && (
+              <>
+                <ParameterSlider
+                  label="Band Start"
+                  value={Math.min((entry.bandStart ?? 0) + 1, N)}
+                  onChange={(v) => updateAttacker(m, { ...entry, bandStart: v - 1 })}
+                  min={1}
+                  max={N}
+                  step={1}
+                />
+                <ParameterSlider
+                  label="Band Width"
+                  value={Math.min(entry.bandWidth ?? N, N)}
+                  onChange={(v) => updateAttacker(m, { ...entry, bandWidth: v })}
+                  min={1}
+                  max={N}
+                  step={1}
+                  description={`Tuned to channels ${Math.min(...reachable) + 1}-${Math.max(...reachable) + 1}`}
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
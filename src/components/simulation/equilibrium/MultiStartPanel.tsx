@@ -0,0 +1,193 @@
+import { useState, useCallback } from "react";
+import { EquilibriumParams, MultiStartResult, runMultiStart } from "@/lib/equilibrium";
+import { ExecutionBackend } from "@/lib/backend";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ParameterSlider } from "../ParameterSlider";
+import { MetricCard } from "../MetricCard";
+import { Layers, Loader2 } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { useToast } from "@/hooks/use-toast";
+
+interface MultiStartPanelProps {
+  params: EquilibriumParams;
+  backend?: ExecutionBackend;
+}
+
+export function MultiStartPanel({ params, backend = 'auto' }: MultiStartPanelProps) {
+  const { toast } = useToast();
+  const [starts, setStarts] = useState(20);
+  const [clusterTolerance, setClusterTolerance] = useState(0.1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<MultiStartResult | null>(null);
+
+  const runSearch = useCallback(async () => {
+    setIsRunning(true);
+    try {
+      const search = await runMultiStart(
+        { baseParams: { ...params, computeBaselines: false }, starts, clusterTolerance },
+        backend
+      );
+      setResult(search);
+      toast({
+        title: search.unique ? "Unique Equilibrium" : "Multiple Equilibria",
+        description: `${search.converged}/${search.starts} starts converged into ${search.clusters.length} equilibria`,
+      });
+    } catch (error) {
+      toast({
+        title: "Multi-Start Search Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  }, [params, starts, clusterTolerance, backend, toast]);
+
+  const basinData = result?.clusters.map((c, k) => ({
+    cluster: `E${k + 1}`,
+    basin: c.basin * 100,
+  })) ?? [];
+
+  return (
+    <div className="panel">
+      <h3 className="panel-header flex items-center gap-2">
+        <Layers className="w-4 h-4" />
+        Multi-Start Search
+      </h3>
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <ParameterSlider
+            label="Starts"
+            value={starts}
+            onChange={setStarts}
+            min={2}
+            max={100}
+            step={1}
+            description="Seeded random initializations"
+          />
+          <ParameterSlider
+            label="Cluster Tolerance"
+            value={clusterTolerance}
+            onChange={setClusterTolerance}
+            min={0.01}
+            max={1}
+            step={0.01}
+            unit="W"
+            description="Max power difference within one equilibrium"
+          />
+          <Button onClick={runSearch} disabled={isRunning} className="w-full">
+            {isRunning ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Solving {starts} starts...
+              </>
+            ) : (
+              <>
+                <Layers className="w-4 h-4 mr-2" />
+                Search Equilibria
+              </>
+            )}
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <MetricCard
+                label="Distinct Equilibria"
+                value={result.clusters.length}
+                variant={result.unique ? "primary" : "jammer"}
+              />
+              <MetricCard
+                label="Converged Starts"
+                value={`${result.converged} / ${result.starts}`}
+              />
+              <MetricCard
+                label="Unique"
+                value={result.unique ? "Yes" : "No"}
+                variant={result.unique ? "secondary" : "jammer"}
+                tooltip={`Fixed points within ${result.clusterTolerance} W count as one equilibrium`}
+              />
+            </div>
+
+            {result.clusters.length > 0 && (
+              <>
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={basinData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="cluster" stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                      <YAxis
+                        stroke="hsl(var(--muted-foreground))"
+                        fontSize={11}
+                        domain={[0, 100]}
+                        tickFormatter={(v) => `${v}%`}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: "hsl(var(--card))",
+                          border: "1px solid hsl(var(--border))",
+                          borderRadius: "8px",
+                        }}
+                        formatter={(value: number) => [`${value.toFixed(1)}%`, "Basin"]}
+                      />
+                      <Bar dataKey="basin" fill="hsl(var(--primary))" isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="px-3 py-2 text-left font-mono text-xs text-muted-foreground">Eq</th>
+                        <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Basin</th>
+                        <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">U_real</th>
+                        <th className="px-3 py-2 text-left font-mono text-xs text-muted-foreground">Defender U</th>
+                        <th className="px-3 py-2 text-left font-mono text-xs text-muted-foreground">Attacker U</th>
+                        <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Exploit.</th>
+                        <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Spread</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.clusters.map((c, k) => (
+                        <tr key={k} className="border-b border-border/50">
+                          <td className="px-3 py-2 font-medium">
+                            <Badge variant="outline" className="font-mono">E{k + 1}</Badge>
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono">{(c.basin * 100).toFixed(0)}%</td>
+                          <td className="px-3 py-2 text-right font-mono">{c.totalRealThroughput.toFixed(4)}</td>
+                          <td className="px-3 py-2 font-mono text-xs">
+                            {c.defenderUtilities.map((u) => u.toFixed(3)).join(" / ")}
+                          </td>
+                          <td className="px-3 py-2 font-mono text-xs">
+                            {c.attackerUtilities.map((u) => u.toFixed(3)).join(" / ")}
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono">{c.exploitability.toExponential(1)}</td>
+                          <td className="px-3 py-2 text-right font-mono">{c.spread.toExponential(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+            <p className="text-xs text-muted-foreground text-center">
+              Basins are shares of all starts; {result.starts - result.converged} start(s) did not converge
+              within {params.maxIter} iterations.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
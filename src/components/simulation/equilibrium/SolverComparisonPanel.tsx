@@ -0,0 +1,170 @@
+import { useState, useCallback } from "react";
+import {
+  EquilibriumParams,
+  EquilibriumResult,
+  EquilibriumSolver,
+  SOLVER_LABELS,
+  runEquilibrium,
+} from "@/lib/equilibrium";
+import { ExecutionBackend } from "@/lib/backend";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { GitCompare, Loader2 } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { useToast } from "@/hooks/use-toast";
+
+interface SolverComparisonPanelProps {
+  params: EquilibriumParams;
+  backend?: ExecutionBackend;
+}
+
+const SOLVER_COLORS: Record<EquilibriumSolver, string> = {
+  gradient: "hsl(var(--primary))",
+  bestResponse: "hsl(var(--jammer))",
+  fictitiousPlay: "hsl(var(--secondary))",
+  extragradient: "hsl(280, 70%, 60%)",
+};
+
+const SOLVERS = Object.keys(SOLVER_LABELS) as EquilibriumSolver[];
+
+export function SolverComparisonPanel({ params, backend = 'auto' }: SolverComparisonPanelProps) {
+  const { toast } = useToast();
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<EquilibriumResult[]>([]);
+
+  // Same scenario under every solver; baselines are irrelevant to the comparison
+  const runComparison = useCallback(async () => {
+    setIsRunning(true);
+    try {
+      const solved: EquilibriumResult[] = [];
+      for (const solver of SOLVERS) {
+        solved.push(await runEquilibrium({ ...params, solver, computeBaselines: false }, backend));
+      }
+      setResults(solved);
+    } catch (error) {
+      toast({
+        title: "Solver Comparison Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  }, [params, backend, toast]);
+
+  // One row per iteration, one log10(max change) column per solver
+  const longest = Math.max(0, ...results.map(r => r.convergenceHistory.length));
+  const chartData = Array.from({ length: longest }, (_, k) => ({
+    iteration: k + 1,
+    ...results.reduce((acc, r) => {
+      const entry = r.convergenceHistory[k];
+      return entry ? { ...acc, [r.solver]: Math.log10(Math.max(entry.maxChange, 1e-12)) } : acc;
+    }, {}),
+  }));
+
+  return (
+    <div className="panel">
+      <h3 className="panel-header flex items-center gap-2">
+        <GitCompare className="w-4 h-4" />
+        Solver Comparison
+      </h3>
+      <div className="p-4 space-y-4">
+        <Button onClick={runComparison} disabled={isRunning} className="w-full">
+          {isRunning ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Solving with {SOLVERS.length} solvers...
+            </>
+          ) : (
+            <>
+              <GitCompare className="w-4 h-4 mr-2" />
+              Compare Solvers
+            </>
+          )}
+        </Button>
+
+        {results.length > 0 && (
+          <>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="iteration" stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={11}
+                    label={{ value: 'log₁₀ max Δ', angle: -90, position: 'insideLeft', fontSize: 10 }}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                    formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                  />
+                  <Legend />
+                  {results.map((r) => (
+                    <Line
+                      key={r.solver}
+                      type="monotone"
+                      dataKey={r.solver}
+                      name={SOLVER_LABELS[r.solver]}
+                      stroke={SOLVER_COLORS[r.solver]}
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="px-3 py-2 text-left font-mono text-xs text-muted-foreground">Solver</th>
+                    <th className="px-3 py-2 text-center font-mono text-xs text-muted-foreground">Status</th>
+                    <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Iterations</th>
+                    <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Final Δ</th>
+                    <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">Exploitability</th>
+                    <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">U_real</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((r) => (
+                    <tr key={r.solver} className="border-b border-border/50">
+                      <td className="px-3 py-2 font-medium">{SOLVER_LABELS[r.solver]}</td>
+                      <td className="px-3 py-2 text-center">
+                        <Badge
+                          variant="outline"
+                          className={r.converged ? "text-green-600 border-green-500/30" : "text-amber-600 border-amber-500/30"}
+                        >
+                          {r.converged ? "Converged" : "Max iter"}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{r.iterations}</td>
+                      <td className="px-3 py-2 text-right font-mono">{r.maxChange.toExponential(2)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{r.nash.exploitability.toExponential(2)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{r.metrics.totalRealThroughput.toFixed(4)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsFetchError, FunctionsRelayError } from "@supabase/supabase-js";
+import { callEngine, EngineMethod, EngineRequest, EngineResponse } from "@/lib/engineMethods";
+import { toast } from "@/hooks/use-toast";
+
+/**
+ * Where simulations run:
+ * - remote: the `simulate` edge function
+ * - local:  the shared engine in a Web Worker (no network needed)
+ * - auto:   remote, falling back to local when the function is unreachable
+ */
+export type ExecutionBackend = 'auto' | 'remote' | 'local';
+
+const REMOTE_PATHS: Record<EngineMethod, string> = {
+  simulate: 'simulate',
+  sweep: 'simulate/sweep',
+  equilibrium: 'simulate/equilibrium',
+  'equilibrium-sweep': 'simulate/equilibrium-sweep',
+  'equilibrium-multistart': 'simulate/equilibrium-multistart',
+  repeated: 'simulate/repeated',
+  online: 'simulate/online',
+  stackelberg: 'simulate/stackelberg',
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+// Once an 'auto' call finds the edge function unreachable, later calls skip the
+// round trip until the retry delay has passed; a successful remote call clears it
+const REMOTE_RETRY_DELAY_MS = 60_000;
+let remoteUnreachableUntil = 0;
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  
+  if (!worker) {
+    worker = new Worker(new URL("../workers/engine.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+      const { id, result, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      
+      pending.delete(id);
+      if (error !== undefined) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(result);
+      }
+    };
+    worker.onerror = (event) => {
+      // A crashed worker fails every in-flight request and is recreated on the next call
+      for (const request of pending.values()) {
+        request.reject(new Error(event.message || 'Local simulation worker failed'));
+      }
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  
+  return worker;
+}
+
+function runLocal<T>(method: EngineMethod, payload: unknown): Promise<T> {
+  const engineWorker = getWorker();
+  
+  // No Worker support (tests, SSR): run the engine on the calling thread
+  if (!engineWorker) {
+    return new Promise<T>((resolve) => resolve(callEngine<T>(method, payload)));
+  }
+  
+  return new Promise<T>((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+    engineWorker.postMessage({ id, method, payload } satisfies EngineRequest);
+  });
+}
+
+async function runRemote<T>(method: EngineMethod, payload: unknown, failureMessage: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(REMOTE_PATHS[method], {
+    body: payload,
+  });
+
+  if (error) {
+    throw error instanceof FunctionsFetchError || error instanceof FunctionsRelayError
+      ? error
+      : new Error(error.message || failureMessage);
+  }
+
+  if (data.error) {
+    throw new Error(data.error);
+  }
+
+  return data as T;
+}
+
+function isUnreachable(error: unknown): boolean {
+  return error instanceof FunctionsFetchError || error instanceof FunctionsRelayError;
+}
+
+export async function execute<T>(
+  method: EngineMethod,
+  payload: unknown,
+  backend: ExecutionBackend,
+  failureMessage: string
+): Promise<T> {
+  if (backend === 'local' || (backend === 'auto' && Date.now() < remoteUnreachableUntil)) {
+    return runLocal<T>(method, payload);
+  }
+  
+  try {
+    const result = await runRemote<T>(method, payload, failureMessage);
+    remoteUnreachableUntil = 0;
+    return result;
+  } catch (error) {
+    if (!isUnreachable(error)) throw error;
+    if (backend === 'remote') {
+      throw new Error(error instanceof Error && error.message ? error.message : failureMessage);
+    }
+    
+    toast({
+      title: "Simulation Server Unreachable",
+      description: `Running ${method} in this browser instead`,
+    });
+    remoteUnreachableUntil = Date.now() + REMOTE_RETRY_DELAY_MS;
+    return runLocal<T>(method, payload);
+  }
+}
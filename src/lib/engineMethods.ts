@@ -0,0 +1,67 @@
+import {
+  runEquilibrium,
+  runEquilibriumSweep,
+  runMultiStart,
+  runOnlineLearning,
+  runRepeatedGame,
+  runSimulation,
+  runStackelberg,
+  runSweep,
+  validateEquilibriumParams,
+  validateEquilibriumSweepParams,
+  validateMultiStartParams,
+  validateOnlineLearningParams,
+  validateRepeatedGameParams,
+  validateSimulationParams,
+  validateStackelbergParams,
+  validateSweepParams,
+} from "@engine";
+import type { ValidationResult } from "@engine";
+
+// Message protocol between the page and the engine worker. Kept apart from
+// backend.ts so the worker bundle does not pull in the Supabase client.
+
+export const engineMethods = {
+  simulate: runSimulation,
+  sweep: runSweep,
+  equilibrium: runEquilibrium,
+  'equilibrium-sweep': runEquilibriumSweep,
+  'equilibrium-multistart': runMultiStart,
+  repeated: runRepeatedGame,
+  online: runOnlineLearning,
+  stackelberg: runStackelberg,
+};
+
+export type EngineMethod = keyof typeof engineMethods;
+
+// The same checks the edge function runs, so local runs reject what it would
+const engineValidators: Record<EngineMethod, (payload: unknown) => ValidationResult> = {
+  simulate: validateSimulationParams,
+  sweep: validateSweepParams,
+  equilibrium: validateEquilibriumParams,
+  'equilibrium-sweep': validateEquilibriumSweepParams,
+  'equilibrium-multistart': validateMultiStartParams,
+  repeated: validateRepeatedGameParams,
+  online: validateOnlineLearningParams,
+  stackelberg: validateStackelbergParams,
+};
+
+export interface EngineRequest {
+  id: number;
+  method: EngineMethod;
+  payload: unknown;
+}
+
+export interface EngineResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+export function callEngine<T>(method: EngineMethod, payload: unknown): T {
+  const validation = engineValidators[method](payload);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+  return (engineMethods[method] as (p: unknown) => T)(payload);
+}
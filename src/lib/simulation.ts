@@ -1,86 +1,87 @@
-import { supabase } from "@/integrations/supabase/client";
-
-export interface SimulationParams {
-  N: number;
-  NR: number;
-  ND: number;
-  PT: number;
-  PJ: number;
-  sigma2: number;
-  tau: number;
-  h: number[];
-  g: number[];
-  defenderPolicy: 'D1' | 'D2' | 'D3';
-  jammerMode: 'J1' | 'J2' | 'J3';
-  topK?: number;
-  B?: number[];
-  seed?: number;
+import { execute, ExecutionBackend } from "@/lib/backend";
+import type {
+  OnlineLearningParams,
+  OnlineLearningResult,
+  RepeatedGameParams,
+  RepeatedGameResult,
+  SimulationParams,
+  SingleRunResult,
+  StackelbergParams,
+  StackelbergResult,
+  SweepParams,
+  SweepResult,
+} from "@engine";
+
+export type {
+  CSIConfig,
+  CSIReport,
+  DefenderArm,
+  DefenderBandit,
+  FadingConfig,
+  GainDimensions,
+  GainDistribution,
+  GainFileFormat,
+  GainTrace,
+  ImportedGains,
+  JammerLearner,
+  JammerPattern,
+  JammerPatternConfig,
+  KKTReport,
+  KKTResiduals,
+  MetricStats,
+  MonteCarloConfig,
+  OnlineLearningParams,
+  OnlineLearningResult,
+  OnlineRoundRecord,
+  QoSChannelStatus,
+  QoSReport,
+  RepeatedGameParams,
+  RepeatedGameResult,
+  SensingConfig,
+  SensingModel,
+  SensingReport,
+  SimulationParams,
+  SingleRunResult,
+  SlotRecord,
+  StackelbergParams,
+  StackelbergResult,
+  SweepParams,
+  SweepPointStats,
+  SweepResult,
+} from "@engine";
+export { applySimulationGains, generateRandomChannelGains, parseGainFile } from "@engine";
+export type { ExecutionBackend } from "@/lib/backend";
+
+export async function runSimulation(
+  params: SimulationParams,
+  backend: ExecutionBackend = 'auto'
+): Promise<SingleRunResult> {
+  return execute<SingleRunResult>('simulate', params, backend, 'Simulation failed');
 }
 
-export interface SingleRunResult {
-  x: number[];
-  y: number[];
-  channelTypes: ('real' | 'decoy' | 'inactive')[];
-  activeSet: number[];
-  rates: number[];
-  U_real: number;
-  U_jammer: number;
-  sinr: number[];
-  powerOnDecoys: number;
-  jammingPerActive: number;
+export async function runSweep(params: SweepParams, backend: ExecutionBackend = 'auto'): Promise<SweepResult> {
+  return execute<SweepResult>('sweep', params, backend, 'Sweep failed');
 }
 
-export interface SweepParams {
-  baseParams: Omit<SimulationParams, 'ND'>;
-  NDRange: number[];
-  sweepType?: 'ND' | 'tau' | 'PJ';
-  secondaryRange?: number[];
+export async function runRepeatedGame(
+  params: RepeatedGameParams,
+  backend: ExecutionBackend = 'auto'
+): Promise<RepeatedGameResult> {
+  return execute<RepeatedGameResult>('repeated', params, backend, 'Repeated game failed');
 }
 
-export interface SweepResult {
-  NDValues: number[];
-  U_realValues: number[];
-  bestND: number;
-  bestU_real: number;
-  heatmapData?: {
-    x: number[];
-    y: number[];
-    z: number[][];
-    xLabel: string;
-    yLabel: string;
-  };
+export async function runOnlineLearning(
+  params: OnlineLearningParams,
+  backend: ExecutionBackend = 'auto'
+): Promise<OnlineLearningResult> {
+  return execute<OnlineLearningResult>('online', params, backend, 'Online learning failed');
 }
 
-export async function runSimulation(params: SimulationParams): Promise<SingleRunResult> {
-  const { data, error } = await supabase.functions.invoke('simulate', {
-    body: params,
-  });
-
-  if (error) {
-    throw new Error(error.message || 'Simulation failed');
-  }
-
-  if (data.error) {
-    throw new Error(data.error);
-  }
-
-  return data as SingleRunResult;
-}
-
-export async function runSweep(params: SweepParams): Promise<SweepResult> {
-  const { data, error } = await supabase.functions.invoke('simulate/sweep', {
-    body: params,
-  });
-
-  if (error) {
-    throw new Error(error.message || 'Sweep failed');
-  }
-
-  if (data.error) {
-    throw new Error(data.error);
-  }
-
-  return data as SweepResult;
+export async function runStackelberg(
+  params: StackelbergParams,
+  backend: ExecutionBackend = 'auto'
+): Promise<StackelbergResult> {
+  return execute<StackelbergResult>('stackelberg', params, backend, 'Stackelberg design failed');
 }
 
 export function generateDefaultParams(seed?: number): SimulationParams {
@@ -101,21 +102,6 @@ export function generateDefaultParams(seed?: number): SimulationParams {
   };
 }
 
-export function generateRandomChannelGains(N: number, seed?: number): { h: number[], g: number[] } {
-  const random = seed !== undefined ? seededRandom(seed) : Math.random;
-  const h = Array.from({ length: N }, () => 0.5 + random() * 1.5);
-  const g = Array.from({ length: N }, () => 0.5 + random() * 1.5);
-  return { h, g };
-}
-
-function seededRandom(seed: number): () => number {
-  let state = seed;
-  return () => {
-    state = (state * 1103515245 + 12345) & 0x7fffffff;
-    return state / 0x7fffffff;
-  };
-}
-
 export function exportToCSV(data: SweepResult): string {
   const rows = ['ND,U_real'];
   for (let i = 0; i < data.NDValues.length; i++) {
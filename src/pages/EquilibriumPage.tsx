@@ -4,6 +4,10 @@ import { EquilibriumPanel } from "@/components/simulation/EquilibriumPanel";
 import { EquilibriumResults } from "@/components/simulation/EquilibriumResults";
 import { EquilibriumExportPanel } from "@/components/simulation/equilibrium/EquilibriumExportPanel";
 import { EquilibriumSweepPanel } from "@/components/simulation/equilibrium/EquilibriumSweepPanel";
+import { SolverComparisonPanel } from "@/components/simulation/equilibrium/SolverComparisonPanel";
+import { MultiStartPanel } from "@/components/simulation/equilibrium/MultiStartPanel";
+import { BackendSelect } from "@/components/simulation/BackendSelect";
+import { ExecutionBackend } from "@/lib/backend";
 import {
   EquilibriumParams,
   EquilibriumResult,
@@ -18,11 +22,12 @@ export default function EquilibriumPage() {
   const [params, setParams] = useState<EquilibriumParams>(generateDefaultEquilibriumParams());
   const [result, setResult] = useState<EquilibriumResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [backend, setBackend] = useState<ExecutionBackend>('auto');
 
   const handleRun = useCallback(async () => {
     setIsLoading(true);
     try {
-      const eqResult = await runEquilibrium(params);
+      const eqResult = await runEquilibrium(params, backend);
       setResult(eqResult);
       
       toast({
@@ -41,7 +46,7 @@ export default function EquilibriumPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [params, toast]);
+  }, [params, backend, toast]);
 
   const handleRandomize = useCallback(() => {
     const seed = Date.now();
@@ -50,7 +55,9 @@ export default function EquilibriumPage() {
       params.D, 
       params.M, 
       params.gainDistribution, 
-      seed
+      seed,
+      params.geometry,
+      params.fading
     );
     setParams({ ...params, h, g, seed });
   }, [params]);
@@ -64,16 +71,19 @@ export default function EquilibriumPage() {
     <div className="min-h-screen bg-background">
       <Header />
       <main className="container mx-auto px-4 py-6">
-        <div className="mb-6">
-          <h1 className="text-2xl font-bold flex items-center gap-3">
-            Multi-Player Equilibrium
-            <span className="text-xs bg-accent/15 text-accent px-2 py-1 rounded-full font-normal">
-              v2 - Deception Mode
-            </span>
-          </h1>
-          <p className="text-muted-foreground mt-1">
-            Iterative best-response with {params.D} defenders, {params.M} attackers, and real/decoy channel modeling
-          </p>
+        <div className="mb-6 flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-3">
+              Multi-Player Equilibrium
+              <span className="text-xs bg-accent/15 text-accent px-2 py-1 rounded-full font-normal">
+                v2 - Deception Mode
+              </span>
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Iterative best-response with {params.D} defenders, {params.M} attackers, and real/decoy channel modeling
+            </p>
+          </div>
+          <BackendSelect value={backend} onChange={setBackend} className="w-56" />
         </div>
         
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
@@ -93,9 +103,13 @@ export default function EquilibriumPage() {
           <div className="lg:col-span-9 space-y-6">
             <EquilibriumResults result={result} params={params} />
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <EquilibriumSweepPanel params={params} />
+              <EquilibriumSweepPanel params={params} backend={backend} />
               <EquilibriumExportPanel result={result} params={params} />
             </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <SolverComparisonPanel params={params} backend={backend} />
+              <MultiStartPanel params={params} backend={backend} />
+            </div>
           </div>
         </div>
       </main>
@@ -1,10 +1,16 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { Fragment, useState, useEffect, useCallback, useRef } from "react";
 import { Header } from "@/components/layout/Header";
 import { ControlPanel } from "@/components/simulation/ControlPanel";
 import { MetricCard } from "@/components/simulation/MetricCard";
 import { ChannelAllocationChart } from "@/components/simulation/ChannelAllocationChart";
 import { RateChart } from "@/components/simulation/RateChart";
+import { BackendSelect } from "@/components/simulation/BackendSelect";
+import { RepeatedGamePanel } from "@/components/simulation/RepeatedGamePanel";
+import { OnlineLearningPanel } from "@/components/simulation/OnlineLearningPanel";
+import { StackelbergPanel } from "@/components/simulation/StackelbergPanel";
+import { QoSSummary } from "@/components/simulation/QoSSummary";
 import {
+  ExecutionBackend,
   SimulationParams,
   SingleRunResult,
   generateDefaultParams,
@@ -23,6 +29,8 @@ export default function PlaygroundPage() {
   const [validationError, setValidationError] = useState<string | null>(null);
   const [liveMode, setLiveMode] = useState(true);
   const [animationEnabled, setAnimationEnabled] = useState(true);
+  // In-browser by default so live mode recomputes without a network round trip
+  const [backend, setBackend] = useState<ExecutionBackend>('local');
   
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
   const prevNDRef = useRef<number>(params.ND);
@@ -49,7 +57,7 @@ export default function PlaygroundPage() {
     
     setIsLoading(true);
     try {
-      const simResult = await runSimulation(params);
+      const simResult = await runSimulation(params, backend);
       setResult(simResult);
     } catch (error) {
       toast({
@@ -60,7 +68,7 @@ export default function PlaygroundPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [params, validationError, toast]);
+  }, [params, validationError, backend, toast]);
 
   // Live mode: auto-run when ND or tau changes
   useEffect(() => {
@@ -154,6 +162,7 @@ export default function PlaygroundPage() {
                   onCheckedChange={setAnimationEnabled}
                 />
               </div>
+              <BackendSelect value={backend} onChange={setBackend} />
             </div>
           </div>
 
@@ -162,8 +171,8 @@ export default function PlaygroundPage() {
             {/* Metrics Row */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <MetricCard
-                label="Active Channels |A|"
-                value={result?.activeSet.length ?? 0}
+                label={result?.sensing ? "Expected Active E|A|" : "Active Channels |A|"}
+                value={result?.sensing?.expectedActiveCount ?? result?.activeSet.length ?? 0}
                 variant="default"
                 className={animationEnabled && liveMode ? "transition-all duration-300" : ""}
               />
@@ -225,6 +234,57 @@ export default function PlaygroundPage() {
               />
             </div>
 
+            {result?.placement && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <MetricCard
+                  label="E[U_real] over Placements"
+                  value={result.placement.U_realMean}
+                  variant="primary"
+                />
+                <MetricCard label="Std. Dev. U_real" value={result.placement.U_realStd} />
+                <MetricCard label="Variance U_real" value={result.placement.U_realVariance} />
+                <MetricCard label="Placement Draws" value={`${result.placement.draws}`} />
+              </div>
+            )}
+
+            {result?.csi && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <MetricCard label="U_real (Perfect CSI)" value={result.csi.perfectU_real} />
+                <MetricCard label="CSI Loss" value={result.csi.U_realLoss} variant="jammer" />
+              </div>
+            )}
+
+            {result?.qos && <QoSSummary qos={result.qos} />}
+
+            {result?.kkt && (
+              <div className="panel p-4">
+                <h3 className="text-sm font-semibold mb-3">KKT Residuals</h3>
+                <div className="grid grid-cols-5 gap-2 text-xs font-mono">
+                  <span className="text-muted-foreground">Player</span>
+                  <span className="text-muted-foreground text-right">Multiplier</span>
+                  <span className="text-muted-foreground text-right">Stationarity</span>
+                  <span className="text-muted-foreground text-right">Compl. Slack</span>
+                  <span className="text-muted-foreground text-right">Budget</span>
+                  {(
+                    [
+                      ["Defender (D4)", result.kkt.defender],
+                      ["Jammer (J3)", result.kkt.jammer],
+                    ] as const
+                  ).map(([label, residuals]) =>
+                    residuals ? (
+                      <Fragment key={label}>
+                        <span>{label}</span>
+                        <span className="text-right">{residuals.multiplier.toFixed(4)}</span>
+                        <span className="text-right">{residuals.stationarity.toExponential(2)}</span>
+                        <span className="text-right">{residuals.complementarity.toExponential(2)}</span>
+                        <span className="text-right">{residuals.budget.toExponential(2)}</span>
+                      </Fragment>
+                    ) : null
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Charts */}
             <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
               <ChannelAllocationChart
@@ -245,7 +305,9 @@ export default function PlaygroundPage() {
             {/* Channel Details Table */}
             {result && (
               <div className="panel">
-                <h3 className="panel-header">Channel Details</h3>
+                <h3 className="panel-header">
+                  Channel Details{result.placement && " (first placement draw)"}
+                </h3>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
                     <thead>
@@ -274,6 +336,16 @@ export default function PlaygroundPage() {
                         <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">
                           Rate
                         </th>
+                        {result.sensing && (
+                          <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">
+                            Pd
+                          </th>
+                        )}
+                        {result.placement && (
+                          <th className="px-3 py-2 text-right font-mono text-xs text-muted-foreground">
+                            P(real)
+                          </th>
+                        )}
                       </tr>
                     </thead>
                     <tbody>
@@ -318,6 +390,16 @@ export default function PlaygroundPage() {
                           <td className="px-3 py-1.5 text-right font-mono text-primary">
                             {result.rates[i].toFixed(4)}
                           </td>
+                          {result.sensing && (
+                            <td className="px-3 py-1.5 text-right font-mono">
+                              {result.sensing.pd[i].toFixed(3)}
+                            </td>
+                          )}
+                          {result.placement && (
+                            <td className="px-3 py-1.5 text-right font-mono text-muted-foreground">
+                              {result.placement.realProbability[i].toFixed(3)}
+                            </td>
+                          )}
                         </tr>
                       ))}
                     </tbody>
@@ -330,6 +412,12 @@ export default function PlaygroundPage() {
                 </div>
               </div>
             )}
+
+            <StackelbergPanel params={params} backend={backend} disabled={!!validationError} />
+
+            <RepeatedGamePanel params={params} backend={backend} disabled={!!validationError} />
+
+            <OnlineLearningPanel params={params} backend={backend} disabled={!!validationError} />
           </div>
         </div>
       </main>
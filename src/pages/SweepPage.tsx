@@ -5,8 +5,10 @@ import { MetricCard } from "@/components/simulation/MetricCard";
 import { SweepChart } from "@/components/simulation/SweepChart";
 import { HeatmapChart } from "@/components/simulation/HeatmapChart";
 import { PaperExportPanel } from "@/components/simulation/PaperExportPanel";
+import { BackendSelect } from "@/components/simulation/BackendSelect";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -15,6 +17,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import {
+  ExecutionBackend,
   SimulationParams,
   SweepResult,
   generateDefaultParams,
@@ -31,8 +34,11 @@ export default function SweepPage() {
     return rest;
   });
   const [sweepType, setSweepType] = useState<"ND" | "tau" | "PJ">("ND");
+  const [monteCarlo, setMonteCarlo] = useState(false);
+  const [realizations, setRealizations] = useState(20);
   const [result, setResult] = useState<SweepResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [backend, setBackend] = useState<ExecutionBackend>('auto');
 
   const maxND = baseParams.N - baseParams.NR;
 
@@ -53,7 +59,8 @@ export default function SweepPage() {
         NDRange,
         sweepType,
         secondaryRange,
-      });
+        monteCarlo: monteCarlo ? { realizations, seed: baseParams.seed } : undefined,
+      }, backend);
       
       setResult(sweepResult);
       toast({
@@ -69,7 +76,7 @@ export default function SweepPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [baseParams, maxND, sweepType, toast]);
+  }, [baseParams, maxND, sweepType, monteCarlo, realizations, backend, toast]);
 
   const updateParam = <K extends keyof typeof baseParams>(
     key: K,
@@ -115,6 +122,38 @@ export default function SweepPage() {
                       </SelectContent>
                     </Select>
                   </div>
+                  <BackendSelect value={backend} onChange={setBackend} />
+                </div>
+
+                {/* Monte Carlo */}
+                <div className="space-y-4">
+                  <h4 className="text-xs uppercase tracking-wider text-primary font-semibold">
+                    Fading
+                  </h4>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="monte-carlo" className="text-sm cursor-pointer">
+                      Monte Carlo Fading
+                      <span className="block text-xs text-muted-foreground">
+                        Redraw Rayleigh h/g per realization
+                      </span>
+                    </Label>
+                    <Switch
+                      id="monte-carlo"
+                      checked={monteCarlo}
+                      onCheckedChange={setMonteCarlo}
+                    />
+                  </div>
+                  {monteCarlo && (
+                    <ParameterSlider
+                      label="Realizations (K)"
+                      value={realizations}
+                      onChange={setRealizations}
+                      min={2}
+                      max={50}
+                      step={1}
+                      description="Seeded draws per sweep point"
+                    />
+                  )}
                 </div>
 
                 {/* Base Parameters */}
@@ -196,7 +235,7 @@ export default function SweepPage() {
                     <Select
                       value={baseParams.defenderPolicy}
                       onValueChange={(v) =>
-                        updateParam("defenderPolicy", v as "D1" | "D2" | "D3")
+                        updateParam("defenderPolicy", v as "D1" | "D2" | "D3" | "D4")
                       }
                     >
                       <SelectTrigger className="bg-muted/50 border-border">
@@ -210,6 +249,9 @@ export default function SweepPage() {
                         <SelectItem value="D3">
                           D3: Real-Optimized + Fixed Decoys
                         </SelectItem>
+                        <SelectItem value="D4">
+                          D4: Water-Filling vs Jammer
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -220,7 +262,7 @@ export default function SweepPage() {
                     <Select
                       value={baseParams.jammerMode}
                       onValueChange={(v) =>
-                        updateParam("jammerMode", v as "J1" | "J2" | "J3")
+                        updateParam("jammerMode", v as SimulationParams["jammerMode"])
                       }
                     >
                       <SelectTrigger className="bg-muted/50 border-border">
@@ -229,7 +271,10 @@ export default function SweepPage() {
                       <SelectContent>
                         <SelectItem value="J1">J1: Uniform Split</SelectItem>
                         <SelectItem value="J2">J2: Concentrate on Top K</SelectItem>
-                        <SelectItem value="J3">J3: Numerical Optimizer</SelectItem>
+                        <SelectItem value="J3">J3: KKT Best Response</SelectItem>
+                        <SelectItem value="J4">J4: Sweep</SelectItem>
+                        <SelectItem value="J5">J5: Random Subset</SelectItem>
+                        <SelectItem value="J6">J6: Reactive (Dwell)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -293,9 +338,47 @@ export default function SweepPage() {
                   U_realValues={result.U_realValues}
                   bestND={result.bestND}
                   bestU_real={result.bestU_real}
-                  title="Saturation Curve: U_real vs ND"
+                  title={
+                    result.monteCarlo
+                      ? `Saturation Curve: Mean U_real vs ND (K = ${result.monteCarlo.realizations})`
+                      : "Saturation Curve: U_real vs ND"
+                  }
+                  band={
+                    result.monteCarlo && {
+                      low: result.monteCarlo.stats.map((s) => s.U_real.ciLow),
+                      high: result.monteCarlo.stats.map((s) => s.U_real.ciHigh),
+                      confidence: result.monteCarlo.confidence,
+                    }
+                  }
                 />
 
+                {result.monteCarlo && (
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                    <SweepChart
+                      NDValues={result.NDValues}
+                      U_realValues={result.monteCarlo.stats.map((s) => s.jammerWaste.mean)}
+                      title="Jammer Waste on Decoys vs ND"
+                      yLabel="Jammer waste"
+                      band={{
+                        low: result.monteCarlo.stats.map((s) => s.jammerWaste.ciLow),
+                        high: result.monteCarlo.stats.map((s) => s.jammerWaste.ciHigh),
+                        confidence: result.monteCarlo.confidence,
+                      }}
+                    />
+                    <SweepChart
+                      NDValues={result.NDValues}
+                      U_realValues={result.monteCarlo.stats.map((s) => s.dilutionFactor.mean)}
+                      title="Dilution |A| / NR vs ND"
+                      yLabel="Dilution"
+                      band={{
+                        low: result.monteCarlo.stats.map((s) => s.dilutionFactor.ciLow),
+                        high: result.monteCarlo.stats.map((s) => s.dilutionFactor.ciHigh),
+                        confidence: result.monteCarlo.confidence,
+                      }}
+                    />
+                  </div>
+                )}
+
                 {result.heatmapData && (
                   <HeatmapChart
                     x={result.heatmapData.x}
@@ -0,0 +1,913 @@
+import { describe, it, expect } from "vitest";
+import {
+  ChannelConfig,
+  EquilibriumParams,
+  SimulationParams,
+  calculateRate,
+  defaultGeometry,
+  detectionProbability,
+  generateRandomChannelGains,
+  generateRandomEquilibriumGains,
+  modifyParamsForSweep,
+  parseGainFile,
+  runEquilibrium,
+  runEquilibriumSweep,
+  runMultiStart,
+  runOnlineLearning,
+  runRepeatedGame,
+  runSimulation,
+  runStackelberg,
+  runSweep,
+  validateOnlineLearningParams,
+  validateSimulationParams,
+} from "@engine";
+import { callEngine } from "@/lib/engineMethods";
+
+function generateDefaultParams(): SimulationParams {
+  return {
+    N: 20,
+    NR: 1,
+    ND: 5,
+    PT: 10,
+    PJ: 10,
+    sigma2: 1,
+    tau: 0.2,
+    h: new Array(20).fill(1),
+    g: new Array(20).fill(1),
+    defenderPolicy: "D1",
+    jammerMode: "J1",
+    topK: 3,
+  };
+}
+
+// 12 channels, 2 defenders: 3 real + 2 decoys + 1 inactive each
+function generateDefaultEquilibriumParams(): EquilibriumParams {
+  const N = 12;
+  const channelConfig: ChannelConfig[] = Array.from({ length: N }, (_, i) => {
+    const position = Math.floor(i / 2);
+    const type = position < 3 ? "real" : position < 5 ? "decoy" : "inactive";
+    return { type, owner: i % 2 };
+  });
+  return {
+    N,
+    D: 2,
+    M: 2,
+    PT: [10, 10],
+    PJ: [10, 10],
+    sigma2: 1,
+    tau: 0.2,
+    h: [Array(N).fill(1), Array(N).fill(1)],
+    g: [Array(N).fill(1), Array(N).fill(1)],
+    alpha: 0.3,
+    maxIter: 100,
+    epsilon: 0.001,
+    channelConfig,
+    jammerStrategy: "J1_uniform",
+    jammerObjective: "deception",
+    attackerMode: "coordinated",
+    topK: 3,
+    randomInit: false,
+  };
+}
+
+describe("engine: single run", () => {
+  it("splits jammer power uniformly over the active set (D1/J1)", () => {
+    const params = generateDefaultParams();
+    const result = runSimulation(params);
+
+    expect(result.activeSet).toHaveLength(params.NR + params.ND);
+    expect(result.jammingPerActive).toBeCloseTo(params.PJ / (params.NR + params.ND));
+    expect(result.powerOnDecoys).toBeCloseTo(params.ND * params.tau);
+    expect(result.U_real).toBeGreaterThan(0);
+  });
+
+  it("rejects decoy budgets larger than PT", () => {
+    const params = { ...generateDefaultParams(), ND: 10, tau: 2 };
+    expect(() => runSimulation(params)).toThrow(/exceeds PT/);
+  });
+
+  it("reports the best ND of a sweep", () => {
+    const { ND: _, ...baseParams } = generateDefaultParams();
+    const result = runSweep({ baseParams, NDRange: [0, 1, 2, 3] });
+
+    expect(result.NDValues).toEqual([0, 1, 2, 3]);
+    expect(result.bestU_real).toBe(Math.max(...result.U_realValues));
+  });
+});
+
+describe("engine: equilibrium", () => {
+  it("fills oracle gap and ND=0 improvement when baselines are requested", () => {
+    const params = generateDefaultEquilibriumParams();
+    const result = runEquilibrium({ ...params, computeBaselines: true });
+
+    expect(result.oracleResult).toBeDefined();
+    expect(result.metrics.oracleGap).toBeCloseTo(
+      result.metrics.totalRealThroughput - result.oracleResult!.metrics.totalRealThroughput
+    );
+    expect(result.metrics.improvementOverNoDecoys).toBeGreaterThan(0);
+  });
+
+  it("weights channel rates by per-channel bandwidth", () => {
+    const params = generateDefaultEquilibriumParams();
+    const B = Array.from({ length: params.N }, (_, i) => (i % 2 === 0 ? 0.5 : 2));
+    const result = runEquilibrium({ ...params, B });
+
+    for (const ch of result.channelSummary) {
+      expect(ch.bandwidth).toBe(B[ch.channel]);
+      expect(ch.rate).toBeCloseTo(B[ch.channel] * Math.log2(1 + ch.sinr));
+    }
+    const realRates = result.channelSummary.filter(ch => ch.channelType === "real").map(ch => ch.rate);
+    expect(result.metrics.totalRealThroughput).toBeCloseTo(realRates.reduce((a, b) => a + b, 0));
+  });
+
+  it("runs an ND sweep with baseline and oracle reference points", () => {
+    const params = { ...generateDefaultEquilibriumParams(), computeBaselines: false };
+    const result = runEquilibriumSweep({ baseParams: params, sweepVariable: "ND", range: [0, 2, 4] });
+
+    expect(result.points.map(p => p.variable)).toEqual([0, 2, 4]);
+    expect(result.baseline.variable).toBe(0);
+    expect(result.oracleBaseline).toBeDefined();
+    expect(result.bestPoint.U_real).toBeGreaterThanOrEqual(result.baseline.U_real);
+  });
+
+  it("keeps failed points and baselines in the result with their error", () => {
+    // Gains for one defender only: every solve of the two-defender game fails
+    const params = { ...generateDefaultEquilibriumParams(), computeBaselines: false };
+    const broken = { ...params, h: params.h.slice(0, 1) };
+    const result = runEquilibriumSweep({ baseParams: broken, sweepVariable: "ND", range: [0, 2] });
+
+    expect(result.baseline.error).toBeTruthy();
+    expect(result.oracleBaseline?.error).toBeTruthy();
+    expect(result.points.map(p => p.variable)).toEqual([0, 2]);
+    result.points.forEach(p => expect(p.error).toBeTruthy());
+  });
+});
+
+describe("engine: sweep scenarios", () => {
+  // Two attackers and two defenders with every per-player and per-channel setting
+  const params: EquilibriumParams = {
+    ...generateDefaultEquilibriumParams(),
+    tauMatrix: [new Array(12).fill(0.3), new Array(12).fill(0.4)],
+    jammerLimits: [{ maxChannels: 10 }, { maxChannelPower: 2 }],
+    defenderPeakPower: [4, 5],
+    reach: [{ mode: "mask", mask: new Array(12).fill(false).map((_, i) => i < 6) }, { mode: "band", bandStart: 8, bandWidth: 4 }],
+    csi: { defenderErrorVariance: [0.1, 0.2], jammerErrorVariance: [0.3, 0.4] },
+    minRate: new Array(12).fill(0.1),
+  };
+
+  it("resizes every per-attacker setting with M", () => {
+    const grown = modifyParamsForSweep(params, "M", 3);
+    expect(grown.g).toHaveLength(3);
+    expect(grown.tauMatrix).toEqual([...params.tauMatrix!, new Array(12).fill(params.tau)]);
+    expect(grown.jammerLimits).toEqual([...params.jammerLimits!, {}]);
+    expect(grown.reach?.[2]).toEqual({ mode: "all" });
+    expect(grown.csi?.jammerErrorVariance).toEqual([0.3, 0.4, 0]);
+
+    const shrunk = modifyParamsForSweep(params, "M", 1);
+    expect(shrunk.PJ).toHaveLength(1);
+    expect(shrunk.tauMatrix).toEqual([params.tauMatrix![0]]);
+    expect(shrunk.jammerLimits).toEqual([params.jammerLimits![0]]);
+    expect(shrunk.reach).toEqual([params.reach![0]]);
+    expect(shrunk.csi?.jammerErrorVariance).toEqual([0.3]);
+  });
+
+  it("resizes every per-defender setting with D", () => {
+    const grown = modifyParamsForSweep(params, "D", 3);
+    expect(grown.h).toHaveLength(3);
+    expect(grown.defenderPeakPower).toEqual([4, 5, grown.PT[2]]);
+    expect(grown.csi?.defenderErrorVariance).toEqual([0.1, 0.2, 0]);
+
+    const shrunk = modifyParamsForSweep(params, "D", 1);
+    expect(shrunk.PT).toHaveLength(1);
+    expect(shrunk.defenderPeakPower).toEqual([4]);
+    expect(shrunk.csi?.defenderErrorVariance).toEqual([0.1]);
+  });
+
+  it("resizes every per-channel setting with N", () => {
+    const grown = modifyParamsForSweep(params, "N", 14);
+    grown.tauMatrix!.forEach(row => expect(row).toHaveLength(14));
+    expect(grown.tauMatrix![1].slice(12)).toEqual([params.tau, params.tau]);
+    expect(grown.reach![0].mask).toHaveLength(14);
+    expect(grown.reach![0].mask!.slice(12)).toEqual([true, true]);
+    expect(grown.minRate).toEqual([...params.minRate!, 0, 0]);
+
+    const shrunk = modifyParamsForSweep(params, "N", 6);
+    shrunk.tauMatrix!.forEach(row => expect(row).toHaveLength(6));
+    expect(shrunk.reach![0].mask).toEqual(new Array(6).fill(true));
+    expect(shrunk.reach![1]).toMatchObject({ bandStart: 5, bandWidth: 4 });
+    expect(shrunk.jammerLimits![0].maxChannels).toBe(6);
+    expect(shrunk.minRate).toHaveLength(6);
+    expect(() => runEquilibrium({ ...shrunk, maxIter: 5 })).not.toThrow();
+  });
+});
+
+describe("engine: probabilistic sensing", () => {
+  const energy = { model: "energy" as const, window: 50, noisePower: 0.1, samples: 100 };
+
+  it("detects a channel at exactly tau half of the time", () => {
+    expect(detectionProbability(0.2, 0.2, energy)).toBeCloseTo(0.5, 3);
+    expect(detectionProbability(1, 0.2, energy)).toBeGreaterThan(0.99);
+    expect(detectionProbability(0, 0.2, energy)).toBeLessThan(0.01);
+  });
+
+  it("reports Pd/Pfa and expected utilities in both engines", () => {
+    const single = runSimulation({ ...generateDefaultParams(), sensing: energy });
+    expect(single.sensing?.pd).toHaveLength(20);
+    expect(single.sensing?.expectedActiveCount).toBeLessThan(6);
+    expect(single.U_real).toBeGreaterThan(0);
+
+    const eq = runEquilibrium({ ...generateDefaultEquilibriumParams(), sensing: energy });
+    expect(eq.sensing?.pfa.every(p => p < 0.01)).toBe(true);
+    expect(eq.metrics.activeChannelCount).toBeCloseTo(eq.sensing!.expectedActiveCount);
+  });
+});
+
+describe("engine: repeated game", () => {
+  it("learns to ignore decoys when the defender never reshuffles", () => {
+    const baseParams = { ...generateDefaultParams(), topK: 1, seed: 7 };
+    const result = runRepeatedGame({ baseParams, slots: 60, learner: "thompson", reshuffleInterval: 0 });
+
+    expect(result.slots).toHaveLength(60);
+    expect(result.beliefs[59]).toHaveLength(baseParams.N);
+    expect(result.firstDiscoverySlot).not.toBeNull();
+    expect(result.slots.slice(-10).every(s => s.jammerOnReal === 1)).toBe(true);
+    expect(result.averageU_real).toBeLessThan(result.oneShotU_real);
+  });
+
+  it("moves the real channel when reshuffling", () => {
+    const baseParams = { ...generateDefaultParams(), seed: 3 };
+    const result = runRepeatedGame({ baseParams, slots: 30, learner: "ucb", reshuffleInterval: 10 });
+
+    expect(result.slots.filter(s => s.reshuffled).map(s => s.slot)).toEqual([10, 20]);
+    expect(result.deceptionEffectiveSlots).toBeGreaterThan(0);
+  });
+});
+
+describe("engine: online learning", () => {
+  // The strongest channel carries the real traffic in the policy's own layout (arm 0)
+  const N = 6;
+  const baseParams: SimulationParams = {
+    ...generateDefaultParams(),
+    N,
+    ND: 2,
+    h: Array.from({ length: N }, (_, i) => (i === 0 ? 3 : 1)),
+    g: new Array(N).fill(1),
+    topK: 1,
+    seed: 4,
+  };
+
+  it("reports per-round utilities, regret and action frequencies", () => {
+    const result = runOnlineLearning({ baseParams, rounds: 200, defenderLearner: "exp3" });
+    const sum = (v: number[]) => v.reduce((s, x) => s + x, 0);
+
+    expect(result.rounds).toHaveLength(200);
+    expect(sum(result.armFrequencies)).toBeCloseTo(1);
+    expect(result.arms.length).toBeGreaterThan(N);
+    expect(new Set(result.arms.map(a => `${a.realChannels}|${a.decoyChannels}`)).size).toBe(result.arms.length);
+    expect(result.arms.every(a => a.realChannels.length === 1 && a.decoyChannels.length === 2)).toBe(true);
+    expect(sum(result.realFrequencies)).toBeCloseTo(1);
+    expect(sum(result.decoyFrequencies)).toBeCloseTo(2);
+    expect(sum(result.targetFrequencies)).toBeCloseTo(1);
+    expect(result.averageU_real).toBeCloseTo(sum(result.rounds.map(r => r.U_real)) / 200);
+    expect(runOnlineLearning({ baseParams, rounds: 200, defenderLearner: "exp3" })).toEqual(result);
+  });
+
+  it("drives average regret down and concentrates both sides on the strong channel", () => {
+    const result = runOnlineLearning({ baseParams, rounds: 1000, defenderLearner: "ucb" });
+    const averageRegret = (t: number) => result.rounds[t - 1].defenderRegret / t;
+
+    expect(result.arms[result.bestFixedArm].realChannels).toEqual([0]);
+    expect(averageRegret(1000)).toBeLessThan(averageRegret(100) / 1.5);
+    expect(result.realFrequencies[0]).toBe(Math.max(...result.realFrequencies));
+    expect(result.bestFixedTargets).toEqual([0]);
+    expect(result.targetFrequencies[0]).toBe(Math.max(...result.targetFrequencies));
+  });
+});
+
+describe("engine: Stackelberg design", () => {
+  it("never does worse than the best of D1-D3 against J2", () => {
+    const params: SimulationParams = {
+      ...generateDefaultParams(),
+      N: 10,
+      jammerMode: "J2",
+      h: Array.from({ length: 10 }, (_, i) => 0.5 + 0.1 * i),
+      g: Array.from({ length: 10 }, (_, i) => 1.5 - 0.1 * i),
+    };
+    const result = runStackelberg({ baseParams: params, maxNR: 4, decoyPowerLevels: 3 });
+
+    const bestHeuristic = Math.max(...Object.values(result.heuristicU_real));
+    expect(result.gapToBestHeuristic).toBeCloseTo(result.U_real - bestHeuristic);
+    expect(result.gapToBestHeuristic).toBeGreaterThanOrEqual(0);
+    expect(result.x.reduce((a, b) => a + b, 0)).toBeLessThanOrEqual(params.PT + 1e-9);
+    expect(result.channelTypes.filter(t => t === "real")).toHaveLength(result.NR);
+  });
+
+  it("stops at its evaluation budget and keeps designs on the rate floors", () => {
+    const params: SimulationParams = { ...generateDefaultParams(), N: 10, NR: 2, ND: 2, jammerMode: "J2" };
+    const capped = runStackelberg({ baseParams: params, maxNR: 4, maxEvaluations: 40 });
+    expect(capped.budgetExhausted).toBe(true);
+    expect(capped.evaluations).toBeLessThanOrEqual(40);
+
+    const floored = runStackelberg({ baseParams: { ...params, minRate: new Array(10).fill(0.2) }, maxNR: 4 });
+    expect(floored.budgetExhausted).toBe(false);
+    expect(floored.qos?.channels).toHaveLength(floored.NR);
+    expect(floored.qos?.satisfiedCount).toBe(floored.NR);
+  });
+});
+
+describe("engine: randomized placement", () => {
+  it("respects band and spacing constraints and reports the variance across draws", () => {
+    const params: SimulationParams = {
+      ...generateDefaultParams(),
+      NR: 2,
+      ND: 3,
+      h: Array.from({ length: 20 }, (_, i) => 0.5 + 0.05 * i),
+      placement: { mode: "random", minSpacing: 2, band: [4, 15], draws: 50 },
+    };
+    const result = runSimulation(params);
+    const used = result.channelTypes.map((t, i) => (t === "inactive" ? -1 : i)).filter(i => i >= 0);
+
+    expect(used).toHaveLength(5);
+    expect(used.every(i => i >= 4 && i <= 15)).toBe(true);
+    expect(used.slice(1).every((i, k) => i - used[k] >= 2)).toBe(true);
+    expect(result.placement!.realProbability.reduce((a, b) => a + b, 0)).toBeCloseTo(2);
+    expect(result.placement!.U_realVariance).toBeGreaterThan(0);
+    expect(result.U_real).toBeCloseTo(result.placement!.U_realMean);
+  });
+
+  it("rejects constraints that cannot fit NR + ND channels", () => {
+    const params: SimulationParams = {
+      ...generateDefaultParams(),
+      placement: { mode: "random", minSpacing: 3, band: [0, 9] },
+    };
+    expect(() => runSimulation(params)).toThrow(/Invalid placement/);
+  });
+});
+
+describe("engine: Monte Carlo fading", () => {
+  it("reports mean, std and a confidence band per ND", () => {
+    const { ND: _, ...baseParams } = generateDefaultParams();
+    const sweepParams = { baseParams, NDRange: [0, 2, 4], monteCarlo: { realizations: 8, seed: 3 } };
+    const result = runSweep(sweepParams);
+    const stats = result.monteCarlo!.stats;
+
+    expect(result.monteCarlo!.realizations).toBe(8);
+    expect(stats).toHaveLength(3);
+    stats.forEach((s, i) => {
+      expect(s.U_real.mean).toBeCloseTo(result.U_realValues[i]);
+      expect(s.U_real.ciLow).toBeLessThanOrEqual(s.U_real.mean);
+      expect(s.U_real.ciHigh).toBeGreaterThanOrEqual(s.U_real.mean);
+    });
+    expect(stats[0].jammerWaste.mean).toBe(0);
+    expect(stats[2].dilutionFactor.mean).toBe(5);
+    expect(runSweep(sweepParams).U_realValues).toEqual(result.U_realValues);
+  });
+
+  it("attaches realization statistics to equilibrium sweep points", () => {
+    const params = { ...generateDefaultEquilibriumParams(), computeBaselines: false };
+    const result = runEquilibriumSweep({
+      baseParams: params,
+      sweepVariable: "ND",
+      range: [0, 2],
+      monteCarlo: { realizations: 3, seed: 7, confidence: 0.9 },
+    });
+
+    for (const point of [...result.points, result.baseline]) {
+      expect(point.stats).toBeDefined();
+      expect(point.U_real).toBeCloseTo(point.stats!.U_real.mean);
+      expect(point.stats!.U_real.std).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("engine: imperfect CSI", () => {
+  it("lets D3 and J2 act on estimates while rates use the true gains", () => {
+    const params: SimulationParams = {
+      ...generateDefaultParams(),
+      NR: 4,
+      defenderPolicy: "D3",
+      jammerMode: "J2",
+      h: Array.from({ length: 20 }, (_, i) => 0.5 + 0.1 * i),
+      g: Array.from({ length: 20 }, (_, i) => 2 - 0.05 * i),
+      seed: 5,
+    };
+    const perfect = runSimulation(params);
+    const result = runSimulation({ ...params, csi: { defenderErrorVariance: [0.5], jammerErrorVariance: [0.5] } });
+
+    expect(result.x.slice(0, 4)).not.toEqual(perfect.x.slice(0, 4));
+    result.rates.forEach((rate, i) => {
+      expect(rate).toBeCloseTo(calculateRate(result.x[i], result.y[i], params.h[i], params.g[i], params.sigma2));
+    });
+    expect(result.csi!.perfectU_real).toBeCloseTo(perfect.U_real);
+    expect(result.csi!.U_realLoss).toBeCloseTo(perfect.U_real - result.U_real);
+  });
+
+  it("reports the perfect-CSI reference for the equilibrium", () => {
+    const params = { ...generateDefaultEquilibriumParams(), computeBaselines: true, seed: 2 };
+    const perfect = runEquilibrium(params);
+    const result = runEquilibrium({
+      ...params,
+      csi: { defenderErrorVariance: [0.3, 0.3], jammerErrorVariance: [0, 0] },
+    });
+
+    expect(result.csi!.perfectU_real).toBeCloseTo(perfect.metrics.totalRealThroughput);
+    expect(result.metrics.totalRealThroughput).not.toBeCloseTo(perfect.metrics.totalRealThroughput, 6);
+    expect(perfect.csi).toBeUndefined();
+  });
+});
+
+describe("engine: KKT allocations", () => {
+  it("water-fills D4 against the exact J3 best response with near-zero residuals", () => {
+    const params: SimulationParams = {
+      ...generateDefaultParams(),
+      NR: 4,
+      defenderPolicy: "D4",
+      jammerMode: "J3",
+      h: Array.from({ length: 20 }, (_, i) => 0.5 + 0.1 * i),
+      g: Array.from({ length: 20 }, (_, i) => 2 - 0.05 * i),
+    };
+    const result = runSimulation(params);
+    const { defender, jammer } = result.kkt!;
+
+    expect(result.y.reduce((a, b) => a + b, 0)).toBeCloseTo(params.PJ);
+    expect(jammer!.stationarity).toBeLessThan(1e-9);
+    expect(jammer!.complementarity).toBeLessThan(1e-9);
+    expect(defender!.stationarity).toBeLessThan(1e-6);
+    expect(defender!.budget).toBeLessThan(1e-9);
+    expect(result.U_real).toBeGreaterThanOrEqual(runSimulation({ ...params, defenderPolicy: "D1" }).U_real);
+  });
+});
+
+describe("engine: pattern jammers", () => {
+  it("sweeps blocks blind to sensing and spends the budget on average", () => {
+    const params: SimulationParams = { ...generateDefaultParams(), jammerMode: "J4", pattern: { blockSize: 5 } };
+    const result = runSimulation(params);
+
+    // 4 blocks of 5 channels: every channel is hit a quarter of the time with PJ / 5
+    result.y.forEach(yi => expect(yi).toBeCloseTo(params.PJ / 5 / 4));
+    expect(result.U_real).toBeGreaterThan(runSimulation({ ...params, jammerMode: "J1" }).U_real);
+  });
+
+  it("lets a reactive jammer hit only after its dwell time", () => {
+    const params: SimulationParams = { ...generateDefaultParams(), jammerMode: "J6", pattern: { dwell: 0.4 } };
+    const result = runSimulation(params);
+    const uniform = runSimulation({ ...params, jammerMode: "J1" });
+
+    result.activeSet.forEach(i => expect(result.y[i]).toBeCloseTo(0.6 * uniform.y[i]));
+    expect(result.rates[0]).toBeGreaterThan(uniform.rates[0]);
+  });
+
+  it("averages equilibrium utilities over the phases of a random-subset jammer", () => {
+    const params = { ...generateDefaultEquilibriumParams(), jammerStrategy: "J5_randomSubset" as const, seed: 4 };
+    const result = runEquilibrium({ ...params, pattern: { subsetSize: 3, draws: 40 } });
+    const totalJamming = result.attackers.reduce((s, a) => s + a.allocation.reduce((t, v) => t + v, 0), 0);
+
+    expect(totalJamming).toBeCloseTo(params.PJ[0] + params.PJ[1]);
+    expect(result.metrics.totalRealThroughput).toBeGreaterThan(0);
+  });
+});
+
+describe("engine: equilibrium solvers", () => {
+  it("solves the same scenario with every solver and reports each history", () => {
+    const params: EquilibriumParams = {
+      ...generateDefaultEquilibriumParams(),
+      jammerStrategy: "J3_optimization",
+      attackerMode: "independent",
+      maxIter: 300,
+      h: [Array.from({ length: 12 }, (_, i) => 0.5 + 0.1 * i), Array.from({ length: 12 }, (_, i) => 1.5 - 0.08 * i)],
+      g: [Array.from({ length: 12 }, (_, i) => 1 + 0.05 * i), Array.from({ length: 12 }, (_, i) => 1.2 - 0.05 * i)],
+    };
+
+    for (const solver of ["gradient", "bestResponse", "fictitiousPlay", "extragradient"] as const) {
+      const result = runEquilibrium({ ...params, solver });
+      expect(result.solver).toBe(solver);
+      expect(result.converged).toBe(true);
+      expect(result.convergenceHistory).toHaveLength(result.iterations);
+      result.attackers.forEach((a, m) => expect(a.allocation.reduce((s, v) => s + v, 0)).toBeCloseTo(params.PJ[m]));
+    }
+
+    // Exact responses hold decoys at tau and water-fill the real channels
+    const exact = runEquilibrium({ ...params, solver: "bestResponse" });
+    params.channelConfig.forEach((c, i) => {
+      if (c.type === "decoy") expect(exact.defenders[c.owner].allocation[i]).toBeCloseTo(params.tau, 2);
+    });
+  });
+});
+
+describe("engine: equilibrium certification", () => {
+  const params: EquilibriumParams = {
+    ...generateDefaultEquilibriumParams(),
+    attackerMode: "independent",
+    maxIter: 300,
+    epsilon: 1e-6,
+    h: [Array.from({ length: 12 }, (_, i) => 0.5 + 0.1 * i), Array.from({ length: 12 }, (_, i) => 1.5 - 0.08 * i)],
+    g: [Array.from({ length: 12 }, (_, i) => 1 + 0.05 * i), Array.from({ length: 12 }, (_, i) => 1.2 - 0.05 * i)],
+  };
+
+  it("certifies a converged best-response fixed point as epsilon-Nash", () => {
+    const result = runEquilibrium({ ...params, jammerStrategy: "J3_optimization", solver: "bestResponse", alpha: 1 });
+    const { nash } = result;
+
+    expect(nash.defenderRegret).toHaveLength(params.D);
+    expect(nash.attackerRegret).toHaveLength(params.M);
+    expect(nash.exploitability).toBeLessThan(1e-3);
+    expect(nash.nashConv).toBeGreaterThanOrEqual(nash.exploitability);
+  });
+
+  it("flags an attacker stopped short of its best response", () => {
+    const { nash } = runEquilibrium({ ...params, jammerStrategy: "J3_optimization", maxIter: 1, nashTolerance: 1e-3 });
+
+    expect(nash.attackersCertified).toBe(true);
+    expect(Math.max(...nash.attackerRegret)).toBeGreaterThan(1e-3);
+    expect(nash.exploitability).toBe(Math.max(...nash.defenderRegret, ...nash.attackerRegret));
+    expect(nash.epsilonNash).toBe(false);
+  });
+
+  it("leaves attackers that follow a fixed rule out of the certificate", () => {
+    const heuristics = [
+      { jammerStrategy: "J1_uniform" as const },
+      { jammerStrategy: "J2_topK" as const },
+      { jammerStrategy: "J3_optimization" as const, attackerMode: "coordinated" as const },
+    ];
+    for (const heuristic of heuristics) {
+      const { nash } = runEquilibrium({ ...params, ...heuristic, maxIter: 50 });
+
+      expect(nash.attackersCertified).toBe(false);
+      expect(nash.attackerRegret).toHaveLength(0);
+    }
+  });
+
+  it("gives pattern jammers a defender-only certificate", () => {
+    const result = runEquilibrium({ ...params, jammerStrategy: "J4_sweep", maxIter: 50 });
+    const { nash } = result;
+
+    // The results view lists every attacker but reads a regret only when they are certified
+    expect(result.attackers).toHaveLength(params.M);
+    expect(nash.attackersCertified).toBe(false);
+    expect(nash.attackerRegret).toHaveLength(0);
+    expect(nash.defenderRegret).toHaveLength(params.D);
+    expect(nash.exploitability).toBe(Math.max(0, ...nash.defenderRegret));
+    expect(nash.epsilonNash).toBe(nash.exploitability <= nash.tolerance);
+  });
+});
+
+describe("engine: multi-start search", () => {
+  it("clusters fixed points from seeded starts and reports their basins", () => {
+    const baseParams: EquilibriumParams = {
+      ...generateDefaultEquilibriumParams(),
+      solver: "bestResponse",
+      computeBaselines: false,
+      h: [Array.from({ length: 12 }, (_, i) => 0.5 + 0.1 * i), Array.from({ length: 12 }, (_, i) => 1.5 - 0.08 * i)],
+      g: [Array.from({ length: 12 }, (_, i) => 1 + 0.05 * i), Array.from({ length: 12 }, (_, i) => 1.2 - 0.05 * i)],
+    };
+    const result = runMultiStart({ baseParams, starts: 8 });
+
+    expect(result.assignments).toHaveLength(8);
+    expect(result.clusters.reduce((s, c) => s + c.basin, 0)).toBeCloseTo(result.converged / 8);
+    expect(result.unique).toBe(result.clusters.length === 1);
+    result.clusters.forEach((c, k) => {
+      expect(c.spread).toBeLessThanOrEqual(result.clusterTolerance);
+      expect(result.assignments.filter(a => a === k)).toHaveLength(c.starts);
+      if (k > 0) expect(c.starts).toBeLessThanOrEqual(result.clusters[k - 1].starts);
+    });
+
+    // Starts are reproducible
+    expect(runMultiStart({ baseParams, starts: 8 }).assignments).toEqual(result.assignments);
+  });
+});
+
+describe("engine: shared channels", () => {
+  const params: EquilibriumParams = { ...generateDefaultEquilibriumParams(), solver: "bestResponse", alpha: 1 };
+  const share = (i: number, defender: number, type: "real" | "decoy"): EquilibriumParams => ({
+    ...params,
+    channelConfig: params.channelConfig.map((c, j) => (j === i ? { ...c, sharedWith: [{ defender, type }] } : c)),
+  });
+
+  it("counts other defenders' power on a shared channel as interference", () => {
+    const alone = runEquilibrium(params);
+    const shared = runEquilibrium(share(0, 1, "real"));
+    const ch = shared.channelSummary[0];
+
+    expect(ch.users).toEqual([0, 1]);
+    expect(ch.totalDefenderPower).toBeCloseTo(shared.defenders[0].allocation[0] + shared.defenders[1].allocation[0]);
+    expect(shared.defenders[0].utility).toBeLessThan(alone.defenders[0].utility);
+
+    // Without coupling the sharers only split the jamming
+    const decoupled = runEquilibrium({ ...share(0, 1, "real"), coChannelGain: 0 });
+    expect(decoupled.defenders[0].utility).toBeGreaterThan(shared.defenders[0].utility);
+  });
+
+  it("activates a channel from the summed power of all its defenders", () => {
+    const result = runEquilibrium(share(10, 1, "decoy"));
+
+    expect(result.channelSummary[10].channelType).toBe("inactive");
+    expect(result.channelSummary[10].isActive).toBe(true);
+    expect(result.metrics.activeChannelCount).toBe(11);
+    expect(result.attackers[0].allocation[10]).toBeGreaterThan(0);
+  });
+});
+
+describe("engine: jammer reach", () => {
+  const params: EquilibriumParams = {
+    ...generateDefaultEquilibriumParams(),
+    reach: [
+      { mode: "band", bandStart: 0, bandWidth: 6 },
+      { mode: "mask", mask: Array.from({ length: 12 }, (_, i) => i % 3 === 0) },
+    ],
+  };
+  const outside = [
+    Array.from({ length: 12 }, (_, i) => i).filter(i => i >= 6),
+    Array.from({ length: 12 }, (_, i) => i).filter(i => i % 3 !== 0),
+  ];
+  const strategies = ["J1_uniform", "J2_topK", "J3_optimization", "J4_sweep", "J5_randomSubset", "J6_reactive"] as const;
+
+  it("keeps every strategy on each attacker's reachable channels", () => {
+    for (const jammerStrategy of strategies) {
+      const { attackers } = runEquilibrium({ ...params, jammerStrategy, maxIter: 20 });
+      attackers.forEach((a, m) => {
+        outside[m].forEach(i => expect(a.allocation[i]).toBe(0));
+        expect(a.allocation.reduce((s, v) => s + v, 0)).toBeLessThanOrEqual(params.PJ[m] + 1e-9);
+      });
+    }
+  });
+
+  it("restricts independent gradient and best-response attackers", () => {
+    for (const solver of ["gradient", "bestResponse"] as const) {
+      const { attackers } = runEquilibrium({
+        ...params,
+        jammerStrategy: "J3_optimization",
+        attackerMode: "independent",
+        solver,
+      });
+      attackers.forEach((a, m) => {
+        outside[m].forEach(i => expect(a.allocation[i]).toBe(0));
+        expect(a.allocation.reduce((s, v) => s + v, 0)).toBeCloseTo(params.PJ[m]);
+      });
+    }
+  });
+});
+
+describe("engine: geometric gains", () => {
+  it("derives deterministic path gains from node positions", () => {
+    const geometry = {
+      ...defaultGeometry(2, 1),
+      defenderTx: [{ x: 0, y: 0 }, { x: 0, y: 4 }],
+      defenderRx: [{ x: 2, y: 0 }, { x: 0.5, y: 4 }],
+      attackers: [{ x: 1.25, y: 5 }],
+      pathLossExponent: 3,
+      fading: "none" as const,
+    };
+    const { h, g } = generateRandomEquilibriumGains(4, 2, 1, "geometric", 1, geometry);
+
+    // 2 d0 link: 2^-3; links shorter than d0 have unit gain
+    h[0].forEach(v => expect(v).toBeCloseTo(0.125));
+    h[1].forEach(v => expect(v).toBeCloseTo(1));
+    // Jammer 1.25 d0 from its nearest receiver (0.5, 4)
+    g[0].forEach(v => expect(v).toBeCloseTo(1.25 ** -3));
+  });
+
+  it("adds seeded shadowing and fading around the path gain", () => {
+    const geometry = { ...defaultGeometry(2, 2), shadowingDb: 6 };
+    const first = generateRandomEquilibriumGains(12, 2, 2, "geometric", 7, geometry);
+    const again = generateRandomEquilibriumGains(12, 2, 2, "geometric", 7, geometry);
+
+    expect(again).toEqual(first);
+    expect(new Set(first.h[0]).size).toBe(12);
+    [...first.h.flat(), ...first.g.flat()].forEach(v => expect(v).toBeGreaterThan(0));
+
+    // Moving a jammer away weakens its link
+    const far = { ...geometry, attackers: [{ x: 50, y: 1 }, geometry.attackers[1]] };
+    const farGains = generateRandomEquilibriumGains(12, 2, 2, "geometric", 7, far);
+    const mean = (row: number[]) => row.reduce((s, v) => s + v, 0) / row.length;
+    expect(mean(farGains.g[0])).toBeLessThan(mean(first.g[0]) / 100);
+  });
+});
+
+describe("engine: fading models", () => {
+  const meanPower = (v: number[]) => v.reduce((s, x) => s + x * x, 0) / v.length;
+  const adjacentCorrelation = (v: number[]) => {
+    const a = v.slice(0, -1);
+    const b = v.slice(1);
+    const mean = (u: number[]) => u.reduce((s, x) => s + x, 0) / u.length;
+    const [ma, mb] = [mean(a), mean(b)];
+    const cov = mean(a.map((x, i) => (x - ma) * (b[i] - mb)));
+    return cov / Math.sqrt(mean(a.map(x => (x - ma) ** 2)) * mean(b.map(x => (x - mb) ** 2)));
+  };
+
+  it("draws unit-power Rician and Nakagami gains reproducibly", () => {
+    for (const distribution of ["rician", "nakagami"] as const) {
+      const { h, g } = generateRandomChannelGains(4000, 3, distribution, { kFactor: 5, nakagamiM: 1.5 });
+      expect(meanPower(h)).toBeCloseTo(1, 1);
+      expect(meanPower(g)).toBeCloseTo(1, 1);
+      expect(generateRandomChannelGains(4000, 3, distribution, { kFactor: 5, nakagamiM: 1.5 })).toEqual({ h, g });
+    }
+  });
+
+  it("correlates adjacent channels in both generators", () => {
+    const independent = generateRandomEquilibriumGains(2000, 1, 1, "lognormal", 5, undefined, { correlation: 0 });
+    const correlated = generateRandomEquilibriumGains(2000, 1, 1, "lognormal", 5, undefined, { correlation: 0.9 });
+
+    // Log-normal gains: the log of the gain is the AR(1) stream itself
+    expect(Math.abs(adjacentCorrelation(independent.h[0].map(Math.log)))).toBeLessThan(0.1);
+    expect(adjacentCorrelation(correlated.h[0].map(Math.log))).toBeCloseTo(0.9, 1);
+
+    const rayleigh = generateRandomChannelGains(2000, 5, "rayleigh", { correlation: 0.9 });
+    expect(adjacentCorrelation(rayleigh.h)).toBeGreaterThan(0.5);
+  });
+});
+
+describe("engine: measured gains", () => {
+  it("reads a CSV trace and sets h and g to its time average", () => {
+    const csv = [
+      "# two-slot trace, N = 3",
+      "link,player,slot,c1,c2,c3",
+      "h,1,1,1,2,3",
+      "h,1,2,3,2,1",
+      "g,1,1,0.5,0.5,0.5",
+    ].join("\n");
+    const gains = parseGainFile(csv, "csv", { N: 3, D: 1, M: 1 });
+
+    expect(gains.slots).toBe(2);
+    expect(gains.h).toEqual([[2, 2, 2]]);
+    expect(gains.g).toEqual([[0.5, 0.5, 0.5]]);
+    expect(gains.trace!.g).toHaveLength(2);
+  });
+
+  it("rejects blank gain cells in a CSV trace", () => {
+    const csv = ["link,player,c1,c2", "h,1,1,2", "g,1,0.5, "].join("\n");
+    expect(() => parseGainFile(csv, "csv", { N: 2, D: 1, M: 1 })).toThrow(/row 3: gain column c2 is blank/);
+  });
+
+  it("reads JSON matrices and rejects the wrong dimensions", () => {
+    const json = JSON.stringify({ h: [[1, 1], [2, 2]], g: [[0.1, 0.2]] });
+    const gains = parseGainFile(json, "json", { N: 2, D: 2, M: 1 });
+
+    expect(gains.slots).toBe(1);
+    expect(gains.trace).toBeUndefined();
+    expect(gains.h[1]).toEqual([2, 2]);
+    expect(() => parseGainFile(json, "json", { N: 3, D: 2, M: 1 })).toThrow(/expected N = 3/);
+    expect(() => parseGainFile(json, "json", { N: 2, D: 2, M: 2 })).toThrow(/expected 2/);
+  });
+
+  it("plays repeated-game slots on the trace", () => {
+    const N = 20;
+    const baseParams = {
+      ...generateDefaultParams(),
+      seed: 1,
+      gainTrace: { h: [[new Array(N).fill(1)], [new Array(N).fill(0)]], g: [[new Array(N).fill(1)], [new Array(N).fill(1)]] },
+    };
+    const result = runRepeatedGame({ baseParams, slots: 6, learner: "ucb", reshuffleInterval: 0 });
+
+    result.slots.forEach((s, t) => {
+      if (t % 2 === 1) expect(s.U_real).toBe(0);
+      else expect(s.U_real).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe("engine: heterogeneous thresholds", () => {
+  it("lets each attacker perceive its own active set", () => {
+    // Attacker 2 cannot sense the real channels 0-5 at any power the defenders can afford
+    const base = generateDefaultEquilibriumParams();
+    const params: EquilibriumParams = {
+      ...base,
+      tauMatrix: [Array(12).fill(0.2), Array.from({ length: 12 }, (_, i) => (i < 6 ? 100 : 0.2))],
+    };
+    const result = runEquilibrium(params);
+    const { perceivedActiveSets, attackerWasteOnDecoys } = result.metrics;
+
+    expect(perceivedActiveSets[0]).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(perceivedActiveSets[1]).toEqual([6, 7, 8, 9]);
+    expect(attackerWasteOnDecoys[1]).toBeCloseTo(1);
+    expect(attackerWasteOnDecoys[0]).toBeCloseTo(0.4);
+    expect(result.attackers[1].allocation.slice(0, 6).every(v => v === 0)).toBe(true);
+
+    // A uniform matrix reproduces the scalar threshold
+    const uniform = runEquilibrium({ ...base, tauMatrix: [Array(12).fill(0.2), Array(12).fill(0.2)] });
+    expect(uniform.metrics.totalRealThroughput).toBeCloseTo(runEquilibrium(base).metrics.totalRealThroughput);
+  });
+
+  it("hides decoys below the jammer's per-channel threshold in a single run", () => {
+    const params = generateDefaultParams();
+    const hidden = runSimulation({
+      ...params,
+      tauMatrix: [Array.from({ length: params.N }, (_, i) => (i === 0 ? params.tau : 1))],
+    });
+
+    expect(hidden.activeSet).toEqual([0]);
+    expect(hidden.U_real).toBeLessThan(runSimulation(params).U_real);
+  });
+});
+
+describe("engine: hardware limits", () => {
+  const support = (allocation: number[]) => allocation.filter(v => v > 1e-9).length;
+
+  it("caps the channels and per-channel power of every jammer strategy", () => {
+    const base = generateDefaultEquilibriumParams();
+    const jammerLimits = [{ maxChannels: 2, maxChannelPower: 4 }, { maxChannels: 3 }];
+    for (const jammerStrategy of ["J1_uniform", "J2_topK", "J3_optimization"] as const) {
+      const result = runEquilibrium({ ...base, jammerStrategy, jammerLimits });
+      const [first, second] = result.attackers.map(a => a.allocation);
+
+      expect(support(first)).toBeLessThanOrEqual(2);
+      expect(Math.max(...first)).toBeLessThanOrEqual(4 + 1e-9);
+      expect(first.reduce((s, v) => s + v, 0)).toBeCloseTo(8);
+      expect(support(second)).toBeLessThanOrEqual(3);
+      expect(second.reduce((s, v) => s + v, 0)).toBeCloseTo(10);
+    }
+
+    // A single-channel jammer puts its whole budget on one channel instead of spreading it over ten
+    const limited = runEquilibrium({ ...base, jammerLimits: [{ maxChannels: 1 }, { maxChannels: 1 }] });
+    expect(limited.attackers[0].allocation.filter(v => v > 0)).toEqual([10]);
+  });
+
+  it("keeps defender allocations under their peak power", () => {
+    const base = generateDefaultEquilibriumParams();
+    for (const solver of ["gradient", "bestResponse"] as const) {
+      const result = runEquilibrium({ ...base, solver, defenderPeakPower: [1.5, 1.5] });
+      for (const defender of result.defenders) {
+        expect(Math.max(...defender.allocation)).toBeLessThanOrEqual(1.5 + 1e-9);
+      }
+    }
+  });
+});
+
+describe("engine: minimum-rate QoS", () => {
+  it("lifts a starved real channel to its floor under every policy", () => {
+    // Real channel 2 has a weak link, so D3 and D4 would all but switch it off
+    const params: SimulationParams = {
+      ...generateDefaultParams(),
+      NR: 3,
+      ND: 4,
+      h: [1, 0.1, 2, ...Array(17).fill(1)],
+    };
+    for (const defenderPolicy of ["D1", "D3", "D4"] as const) {
+      const result = runSimulation({ ...params, defenderPolicy, minRate: [0, 0.3, 0] });
+
+      expect(result.rates[1]).toBeGreaterThanOrEqual(0.3 - 1e-6);
+      expect(result.qos?.channels).toHaveLength(1);
+      expect(result.qos?.satisfiedCount).toBe(1);
+      expect(result.qos?.feasible).toBe(true);
+    }
+
+    const infeasible = runSimulation({ ...params, defenderPolicy: "D3", minRate: [3, 3, 3] });
+    expect(infeasible.qos?.feasible).toBe(false);
+    expect(infeasible.qos?.requiredPower).toBeGreaterThan(infeasible.qos?.availablePower ?? Infinity);
+  });
+
+  it("applies per-channel floors wherever random placement puts the real traffic", () => {
+    const result = runSimulation({
+      ...generateDefaultParams(),
+      NR: 2,
+      ND: 2,
+      placement: { mode: "random", draws: 5 },
+      minRate: Array(20).fill(0.1),
+    });
+    const realChannels = result.channelTypes.flatMap((t, i) => (t === "real" ? [i] : []));
+
+    expect(result.qos?.channels.map(c => c.channel)).toEqual(realChannels);
+  });
+
+  it("keeps equilibrium allocations on the rate floors", () => {
+    const base = generateDefaultEquilibriumParams();
+    const params: EquilibriumParams = {
+      ...base,
+      h: [base.h[0].map((v, i) => (i === 0 ? 0.1 : v)), base.h[1]],
+      minRate: [0.15],
+    };
+    for (const solver of ["gradient", "bestResponse", "fictitiousPlay"] as const) {
+      const result = runEquilibrium({ ...params, solver });
+
+      expect(result.qos?.channels.map(c => c.channel)).toEqual([0]);
+      expect(result.qos?.satisfiedCount).toBe(1);
+      expect(result.qos?.feasible).toBe(true);
+      expect(result.channelSummary[0].rate).toBeGreaterThanOrEqual(0.15 - 1e-6);
+    }
+    expect(runEquilibrium({ ...params, minRate: undefined }).channelSummary[0].rate).toBeLessThan(0.15);
+  });
+});
+
+describe("engine: input validation", () => {
+  it("accepts the default scenario and reports the first bad field", () => {
+    expect(validateSimulationParams(generateDefaultParams())).toEqual({ valid: true });
+    expect(validateSimulationParams({ ...generateDefaultParams(), N: 1000 })).toEqual({
+      valid: false,
+      error: "N must be between 1 and 100",
+    });
+    expect(
+      validateOnlineLearningParams({
+        baseParams: generateDefaultParams(),
+        rounds: 10,
+        defenderLearner: "exp3",
+        jammerExploration: 0,
+      })
+    ).toEqual({ valid: false, error: "jammerExploration must be greater than 0" });
+  });
+
+  it("rejects invalid requests on the local path as the edge function does", () => {
+    expect(() => callEngine("simulate", { ...generateDefaultParams(), N: 1000 })).toThrow(
+      "N must be between 1 and 100"
+    );
+    expect(callEngine("simulate", generateDefaultParams())).toEqual(runSimulation(generateDefaultParams()));
+  });
+});
@@ -0,0 +1,16 @@
+/// <reference lib="webworker" />
+import { callEngine, EngineRequest, EngineResponse } from "@/lib/engineMethods";
+
+// Runs the shared simulation engine off the main thread.
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const { id, method, payload } = event.data;
+  let response: EngineResponse;
+
+  try {
+    response = { id, result: callEngine(method, payload) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response);
+};
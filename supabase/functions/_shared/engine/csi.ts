@@ -0,0 +1,65 @@
+import type { CSIConfig, EquilibriumParams, SimulationParams } from './types.ts';
+import { gaussian, seededRandom } from './random.ts';
+
+// ============ IMPERFECT CSI ============
+//
+// Each player sees h_hat = h + e and g_hat = g + e with e ~ N(0, variance),
+// floored at a small positive gain. Defender d draws its errors from stream
+// seed + d and attacker m from seed + JAMMER_STREAM + m, so a seeded run
+// always hands every player the same estimates. Players optimize on their
+// estimates; rates and metrics are evaluated on the true gains.
+
+const MIN_ESTIMATED_GAIN = 1e-3;
+const JAMMER_STREAM = 1000;
+
+type Random = () => number;
+
+export function hasImperfectCSI(csi?: CSIConfig): csi is CSIConfig {
+  return csi !== undefined &&
+    [...csi.defenderErrorVariance, ...csi.jammerErrorVariance].some(v => v > 0);
+}
+
+function estimate(gains: number[], variance: number, random: Random): number[] {
+  if (variance <= 0) return gains;
+  const std = Math.sqrt(variance);
+  return gains.map(v => Math.max(MIN_ESTIMATED_GAIN, v + std * gaussian(random)));
+}
+
+function streamSeed(csi: CSIConfig, fallbackSeed: number | undefined, stream: number): number {
+  return (csi.seed ?? fallbackSeed ?? 1) + stream;
+}
+
+// Gains as perceived by the defender (role 'defender') or the jammer of a single run
+export function estimatedGains(
+  params: SimulationParams,
+  role: 'defender' | 'jammer'
+): { h: number[]; g: number[] } {
+  const { csi, h, g } = params;
+  if (!hasImperfectCSI(csi)) return { h, g };
+  
+  const variance = (role === 'defender' ? csi.defenderErrorVariance : csi.jammerErrorVariance)[0] ?? 0;
+  const random = seededRandom(streamSeed(csi, params.seed, role === 'defender' ? 0 : JAMMER_STREAM));
+  return { h: estimate(h, variance, random), g: estimate(g, variance, random) };
+}
+
+// One copy of the game per player, holding that player's estimates of every link
+export function playerViews(params: EquilibriumParams): {
+  defenders: EquilibriumParams[];
+  attackers: EquilibriumParams[];
+} {
+  const { csi } = params;
+  const view = (variance: number, stream: number): EquilibriumParams => {
+    if (!hasImperfectCSI(csi) || variance <= 0) return params;
+    const random = seededRandom(streamSeed(csi, params.seed, stream));
+    return {
+      ...params,
+      h: params.h.map(row => estimate(row, variance, random)),
+      g: params.g.map(row => estimate(row, variance, random)),
+    };
+  };
+  
+  return {
+    defenders: Array.from({ length: params.D }, (_, d) => view(csi?.defenderErrorVariance[d] ?? 0, d)),
+    attackers: Array.from({ length: params.M }, (_, m) => view(csi?.jammerErrorVariance[m] ?? 0, JAMMER_STREAM + m)),
+  };
+}
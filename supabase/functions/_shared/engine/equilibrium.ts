@@ -0,0 +1,1081 @@
+import type {
+  ConvergenceEntry,
+  ChannelShare,
+  ChannelSummary,
+  ChannelType,
+  EquilibriumMetrics,
+  EquilibriumParams,
+  EquilibriumResult,
+  NashCertificate,
+  PlayerAllocation,
+  QoSReport,
+} from './types.ts';
+import { seededRandom } from './random.ts';
+import {
+  buildSensingReport,
+  createActiveSetSampler,
+  detectionProbability,
+  falseAlarmProbability,
+  isProbabilisticSensing,
+  sensingThreshold,
+} from './sensing.ts';
+import { modifyParamsForSweep } from './scenario.ts';
+import { hasImperfectCSI, playerViews } from './csi.ts';
+import {
+  DEFAULT_BLOCK_SIZE,
+  DEFAULT_SUBSET_SIZE,
+  alignPhases,
+  averagePhases,
+  jammerPatternOf,
+  jammerPhases,
+} from './patterns.ts';
+import { waterFill } from './kkt.ts';
+import { reachableChannels } from './reach.ts';
+import { limitAllocation } from './limits.ts';
+import { affordableFloors, buildQoSReport, floorPower, liftToFloors } from './qos.ts';
+import type { JammerPhase } from './patterns.ts';
+
+// ============ MULTI-PLAYER EQUILIBRIUM ============
+
+const BISECTION_STEPS = 60;
+
+export function projectToSimplex(allocation: number[], budget: number): number[] {
+  let sum = 0;
+  const projected = allocation.map(v => {
+    const val = Math.max(0, v);
+    sum += val;
+    return val;
+  });
+  
+  if (sum <= 0) return projected.map(() => budget / projected.length);
+  return projected.map(v => (v / sum) * budget);
+}
+
+function channelBandwidth(params: EquilibriumParams, i: number): number {
+  return params.B?.[i] ?? 1;
+}
+
+// Channels attacker m can put power on
+function reachOf(params: EquilibriumParams, m: number): Set<number> {
+  return new Set(reachableChannels(params.reach?.[m], params.N));
+}
+
+// Attacker m's allocation within its hardware limits; equal powers go to its stronger links
+function limitJammer(params: EquilibriumParams, m: number, allocation: number[]): number[] {
+  return limitAllocation(allocation, params.jammerLimits?.[m], params.g[m]);
+}
+
+// Defender d's allocation under its per-channel peak power
+function limitDefender(params: EquilibriumParams, d: number, allocation: number[]): number[] {
+  return limitAllocation(allocation, { maxChannelPower: params.defenderPeakPower?.[d] });
+}
+
+// Euclidean projection onto the budget simplex restricted to `channels`
+function projectToChannels(allocation: number[], budget: number, channels: Set<number>): number[] {
+  const indices = Array.from(channels);
+  const projected = projectToSimplex(indices.map(i => allocation[i]), budget);
+  const result = new Array(allocation.length).fill(0);
+  indices.forEach((i, k) => {
+    result[i] = projected[k];
+  });
+  return result;
+}
+
+// Every defender transmitting on channel i: the owner (unless the channel is
+// inactive) followed by the defenders sharing it
+function channelUsers(params: EquilibriumParams, i: number): ChannelShare[] {
+  const config = params.channelConfig[i];
+  const owner: ChannelShare[] = config.type === 'inactive' ? [] : [{ defender: config.owner, type: config.type }];
+  return config.sharedWith ? [...owner, ...config.sharedWith] : owner;
+}
+
+function roleOf(params: EquilibriumParams, d: number, i: number): ChannelType {
+  return channelUsers(params, i).find(u => u.defender === d)?.type ?? 'inactive';
+}
+
+function carriesRealTraffic(params: EquilibriumParams, i: number): boolean {
+  return channelUsers(params, i).some(u => u.type === 'real');
+}
+
+// Total defender power on channel i, which is what the jammer senses
+function channelPower(x: number[][], params: EquilibriumParams, i: number): number {
+  return channelUsers(params, i).reduce((sum, u) => sum + (x[u.defender]?.[i] || 0), 0);
+}
+
+// Noise plus the co-channel power of the other defenders at defender d's receiver
+function coChannelNoise(x: number[][], params: EquilibriumParams, d: number, i: number): number {
+  const gain = params.coChannelGain ?? 1;
+  return channelUsers(params, i).reduce(
+    (sum, u) => u.defender === d ? sum : sum + gain * (x[u.defender]?.[i] || 0),
+    params.sigma2
+  );
+}
+
+// Channels each attacker senses as active, against its own thresholds
+export function getPerceivedActiveSets(x: number[][], params: EquilibriumParams): Set<number>[] {
+  return Array.from({ length: params.M }, (_, m) => {
+    const active = new Set<number>();
+    for (let i = 0; i < params.N; i++) {
+      if (channelUsers(params, i).length === 0) continue;
+      
+      // Sum power from every defender on the channel
+      if (channelPower(x, params, i) >= sensingThreshold(params, m, i)) {
+        active.add(i);
+      }
+    }
+    return active;
+  });
+}
+
+// Probability that attacker m senses each channel as active
+function getDetectionProbabilities(x: number[][], params: EquilibriumParams, m: number): number[] {
+  return params.channelConfig.map((_, i) =>
+    detectionProbability(channelPower(x, params, i), sensingThreshold(params, m, i), params.sensing)
+  );
+}
+
+// Cheapest power that keeps a decoy on channel i sensed by every attacker
+function decoyLevel(params: EquilibriumParams, i: number): number {
+  if (!params.tauMatrix) return params.tau;
+  return Array.from({ length: params.M }, (_, m) => sensingThreshold(params, m, i)).reduce((a, b) => Math.max(a, b), 0);
+}
+
+// Channels sensed by at least one attacker
+function unionOf(sets: Set<number>[]): Set<number> {
+  return new Set(sets.flatMap(set => Array.from(set)));
+}
+
+function averageOverActiveSets(
+  activeSets: Set<number>[],
+  N: number,
+  allocate: (activeSet: Set<number>) => number[]
+): number[] {
+  if (activeSets.length === 1) return allocate(activeSets[0]);
+  
+  const mean = new Array(N).fill(0);
+  for (const activeSet of activeSets) {
+    const alloc = allocate(activeSet);
+    for (let i = 0; i < N; i++) {
+      mean[i] += alloc[i] / activeSets.length;
+    }
+  }
+  return mean;
+}
+
+export function calculateDefenderUtility(
+  d: number,
+  x: number[][],
+  y: number[][],
+  params: EquilibriumParams,
+  activeSet: Set<number>,
+  onlyReal: boolean = true
+): number {
+  let utility = 0;
+  
+  for (let i = 0; i < params.N; i++) {
+    const role = roleOf(params, d, i);
+    if (onlyReal && role !== 'real') continue;
+    if (!onlyReal && role === 'inactive') continue;
+    
+    const defenderPower = x[d][i];
+    if (defenderPower <= 0) continue;
+    
+    let totalInterference = coChannelNoise(x, params, d, i);
+    for (let m = 0; m < params.M; m++) {
+      totalInterference += y[m][i] * params.g[m][i];
+    }
+    
+    const sinr = (defenderPower * params.h[d][i]) / totalInterference;
+    utility += channelBandwidth(params, i) * Math.log(1 + sinr);
+  }
+  
+  return utility;
+}
+
+export function calculateAttackerUtility(
+  m: number,
+  x: number[][],
+  y: number[][],
+  params: EquilibriumParams,
+  activeSet: Set<number>
+): number {
+  // Attacker minimizes defender throughput
+  // For deception jammer: only sees active channels, doesn't know which are real
+  // For oracle jammer: knows which channels are real
+  
+  let totalDefenderUtility = 0;
+  
+  for (let d = 0; d < params.D; d++) {
+    if (params.jammerObjective === 'oracle') {
+      // Oracle knows real channels
+      totalDefenderUtility += calculateDefenderUtility(d, x, y, params, activeSet, true);
+    } else {
+      // Deception: attacker thinks all active are valuable
+      totalDefenderUtility += calculateDefenderUtility(d, x, y, params, activeSet, false);
+    }
+  }
+  
+  return -totalDefenderUtility;
+}
+
+function defenderGradient(
+  d: number,
+  x: number[][],
+  y: number[][],
+  params: EquilibriumParams
+): number[] {
+  const grad = new Array(params.N).fill(0);
+  
+  for (let i = 0; i < params.N; i++) {
+    const role = roleOf(params, d, i);
+    if (role === 'inactive') continue;
+    
+    let totalInterference = coChannelNoise(x, params, d, i);
+    for (let m = 0; m < params.M; m++) {
+      totalInterference += y[m][i] * params.g[m][i];
+    }
+    
+    const currentPower = x[d][i];
+    // For real channels, gradient is B*h/(I + x*h)
+    // For decoy channels, defender may want just minimum power to be active
+    if (role === 'real') {
+      grad[i] = channelBandwidth(params, i) * params.h[d][i] / (totalInterference + currentPower * params.h[d][i]);
+    } else {
+      // Decoy: just enough to stay active (tau), small gradient to maintain
+      grad[i] = currentPower < decoyLevel(params, i) ? 0.1 : 0.01;
+    }
+  }
+  
+  return grad;
+}
+
+function attackerGradient(
+  m: number,
+  x: number[][],
+  y: number[][],
+  params: EquilibriumParams,
+  activeSet: Set<number>
+): number[] {
+  const grad = new Array(params.N).fill(0);
+  
+  const reach = reachOf(params, m);
+  for (let i = 0; i < params.N; i++) {
+    if (!activeSet.has(i) || !reach.has(i)) continue;
+    
+    let jamming = 0;
+    for (let mm = 0; mm < params.M; mm++) {
+      jamming += y[mm][i] * params.g[mm][i];
+    }
+    
+    for (const user of channelUsers(params, i)) {
+      // For oracle jammer, only target real traffic
+      if (params.jammerObjective === 'oracle' && user.type !== 'real') continue;
+      
+      const defenderPower = x[user.defender][i];
+      if (defenderPower <= 0) continue;
+      
+      const totalInterference = coChannelNoise(x, params, user.defender, i) + jamming;
+      const sinr_term = defenderPower * params.h[user.defender][i];
+      grad[i] += (channelBandwidth(params, i) * sinr_term * params.g[m][i]) /
+        (totalInterference * (totalInterference + sinr_term));
+    }
+  }
+  
+  return grad;
+}
+
+function bandwidths(params: EquilibriumParams): number[] {
+  return Array.from({ length: params.N }, (_, i) => channelBandwidth(params, i));
+}
+
+// Noise, co-channel power and jamming defender d sees on each channel
+function interferenceOn(d: number, x: number[][], y: number[][], params: EquilibriumParams): number[] {
+  return Array.from({ length: params.N }, (_, i) => {
+    let total = coChannelNoise(x, params, d, i);
+    for (let m = 0; m < params.M; m++) {
+      total += y[m][i] * params.g[m][i];
+    }
+    return total;
+  });
+}
+
+function realChannelsOf(params: EquilibriumParams, d: number): number[] {
+  return params.channelConfig.flatMap((_, i) => roleOf(params, d, i) === 'real' ? [i] : []);
+}
+
+// Power defender d needs on each of its real channels to reach the rate floor;
+// floors above the peak power cannot be met
+function floorPowers(d: number, params: EquilibriumParams, interference: number[], channels: number[]): number[] {
+  const peak = params.defenderPeakPower?.[d] ?? Infinity;
+  const required = new Array(params.N).fill(0);
+  for (const i of channels) {
+    const power = floorPower(params.minRate?.[i] ?? 0, channelBandwidth(params, i), interference[i], params.h[d][i]);
+    required[i] = power > peak ? Infinity : power;
+  }
+  return required;
+}
+
+// Defender d's allocation with its real channels lifted to their rate floors at (x, y)
+function liftDefender(params: EquilibriumParams, d: number, allocation: number[], x: number[][], y: number[][]): number[] {
+  if (!params.minRate) return allocation;
+  const realChannels = realChannelsOf(params, d);
+  const required = floorPowers(d, params, interferenceOn(d, x, y, params), realChannels);
+  return liftToFloors(allocation, realChannels, required);
+}
+
+// Exact best response of defender d to the attackers and the co-channel
+// defenders: decoys get the cheapest power that keeps them sensed (tau, or
+// the highest attacker threshold on the channel), and the rest is
+// water-filled over the defender's real channels, up to the peak power and
+// above the power each rate floor needs (cheapest floors first when the
+// budget cannot cover them all)
+function defenderBestResponse(d: number, x: number[][], y: number[][], params: EquilibriumParams): number[] {
+  const alloc = new Array(params.N).fill(0);
+  const roles = params.channelConfig.map((_, i) => roleOf(params, d, i));
+  const realChannels = realChannelsOf(params, d);
+  const decoyChannels = roles.flatMap((role, i) => role === 'decoy' ? [i] : []);
+  const peak = params.defenderPeakPower?.[d] ?? Infinity;
+  
+  const decoyShare = params.PT[d] / Math.max(1, decoyChannels.length);
+  for (const i of decoyChannels) {
+    alloc[i] = Math.min(decoyLevel(params, i), decoyShare, peak);
+  }
+  const remaining = params.PT[d] - decoyChannels.reduce((sum, i) => sum + alloc[i], 0);
+  
+  if (realChannels.length === 0) {
+    // No traffic to carry: the spare budget only makes the decoys more convincing
+    for (const i of decoyChannels) {
+      alloc[i] += remaining / decoyChannels.length;
+    }
+    return limitDefender(params, d, alloc);
+  }
+  
+  const interference = interferenceOn(d, x, y, params);
+  const floors = affordableFloors(realChannels, floorPowers(d, params, interference, realChannels), remaining);
+  const fill = waterFill(realChannels, params.h[d], interference, bandwidths(params), remaining, params.N, peak, floors);
+  return alloc.map((v, i) => v + fill[i]);
+}
+
+// Exact best response of attacker m, with the defenders and the other
+// attackers held fixed. Jamming channel i reduces the rate of each user u by
+//   B S_u g / ((N_u + g y)(N_u + g y + S_u)) per unit power,
+// N_u being noise, co-channel power and the other attackers' jamming. That
+// marginal decreases in y, so for a budget multiplier nu the power on each
+// channel follows by bisection (up to the per-channel cap), and nu itself by
+// bisection on the budget. A jammer limited to k channels keeps the k that
+// the unlimited response powers most and re-solves over those.
+function attackerBestResponse(
+  m: number,
+  x: number[][],
+  y: number[][],
+  params: EquilibriumParams,
+  activeSet: Set<number>
+): number[] {
+  const alloc = new Array(params.N).fill(0);
+  const reach = reachOf(params, m);
+  const eligible = Array.from(activeSet).filter(i =>
+    reach.has(i) && (params.jammerObjective !== 'oracle' || carriesRealTraffic(params, i))
+  );
+  
+  const targets = eligible.map(i => {
+    let jamming = 0;
+    for (let mm = 0; mm < params.M; mm++) {
+      if (mm !== m) jamming += y[mm][i] * params.g[mm][i];
+    }
+    const users = channelUsers(params, i)
+      .filter(u => params.jammerObjective !== 'oracle' || u.type === 'real')
+      .map(u => ({
+        signal: (x[u.defender]?.[i] || 0) * params.h[u.defender][i],
+        noise: coChannelNoise(x, params, u.defender, i) + jamming,
+      }))
+      .filter(u => u.signal > 0);
+    return { i, g: params.g[m][i], B: channelBandwidth(params, i), users };
+  }).filter(t => t.g > 0 && t.B > 0 && t.users.length > 0);
+  
+  if (targets.length === 0) {
+    for (const i of eligible) alloc[i] = params.PJ[m] / eligible.length;
+    return limitJammer(params, m, alloc);
+  }
+  
+  const limits = params.jammerLimits?.[m];
+  const peak = Math.min(params.PJ[m], limits?.maxChannelPower ?? Infinity);
+  const marginal = (t: typeof targets[number], yi: number): number =>
+    t.users.reduce((sum, u) => {
+      const I = u.noise + t.g * yi;
+      return sum + (t.B * u.signal * t.g) / (I * (I + u.signal));
+    }, 0);
+  const response = (t: typeof targets[number], nu: number): number => {
+    if (marginal(t, 0) <= nu) return 0;
+    let lo = 0;
+    let hi = peak;
+    for (let step = 0; step < BISECTION_STEPS; step++) {
+      const mid = (lo + hi) / 2;
+      if (marginal(t, mid) > nu) lo = mid;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const solve = (active: typeof targets): number[] => {
+    const spent = (nu: number) => active.reduce((sum, t) => sum + response(t, nu), 0);
+    let lo = 0;
+    let hi = Math.max(...active.map(t => marginal(t, 0)));
+    for (let step = 0; step < BISECTION_STEPS; step++) {
+      const nu = (lo + hi) / 2;
+      if (spent(nu) > params.PJ[m]) lo = nu;
+      else hi = nu;
+    }
+    const powers = new Array(params.N).fill(0);
+    for (const t of active) {
+      powers[t.i] = response(t, lo);
+    }
+    return powers;
+  };
+  
+  let powers = solve(targets);
+  const maxChannels = limits?.maxChannels;
+  if (maxChannels !== undefined && targets.filter(t => powers[t.i] > 0).length > maxChannels) {
+    const kept = [...targets].sort((a, b) => powers[b.i] - powers[a.i]).slice(0, maxChannels);
+    powers = solve(kept);
+  }
+  
+  const total = powers.reduce((sum, v) => sum + v, 0);
+  return total > 0 ? limitJammer(params, m, powers.map(v => (v * params.PJ[m]) / total)) : alloc;
+}
+
+// Slot phases of a J4-J6 attacker, or null for the single-shot strategies
+function patternPhases(m: number, params: EquilibriumParams, activeSet: Set<number>): JammerPhase[] | null {
+  const pattern = jammerPatternOf(params.jammerStrategy);
+  if (!pattern) return null;
+  
+  const reach = reachOf(params, m);
+  const targets = Array.from(activeSet).filter(i =>
+    reach.has(i) && (params.jammerObjective !== 'oracle' || carriesRealTraffic(params, i))
+  );
+  // A jammer limited to k channels at once sweeps and draws blocks of at most k
+  const maxChannels = params.jammerLimits?.[m]?.maxChannels;
+  const config = maxChannels === undefined ? params.pattern : {
+    ...params.pattern,
+    blockSize: Math.min(params.pattern?.blockSize ?? DEFAULT_BLOCK_SIZE, maxChannels),
+    subsetSize: Math.min(params.pattern?.subsetSize ?? DEFAULT_SUBSET_SIZE, maxChannels),
+  };
+  const random = seededRandom((params.seed ?? 1) + m);
+  return jammerPhases(pattern, config, targets, params.PJ[m], params.N, random, m, Array.from(reach))
+    .map(phase => ({ ...phase, y: limitJammer(params, m, phase.y) }));
+}
+
+function applyJammerStrategy(
+  m: number,
+  y: number[][],
+  x: number[][],
+  params: EquilibriumParams,
+  activeSet: Set<number>
+): number[] {
+  // Pattern jammers act on their time-averaged allocation during the iterations
+  const phases = patternPhases(m, params, activeSet);
+  if (phases) return averagePhases(phases, params.N);
+  
+  const newY = new Array(params.N).fill(0);
+  const reach = reachOf(params, m);
+  const activeList = Array.from(activeSet).filter(i => reach.has(i));
+  
+  if (activeList.length === 0) return newY;
+  
+  switch (params.jammerStrategy) {
+    case 'J1_uniform': {
+      const power = params.PJ[m] / activeList.length;
+      for (const i of activeList) {
+        // For oracle, only target real
+        if (params.jammerObjective === 'oracle' && !carriesRealTraffic(params, i)) continue;
+        newY[i] = power;
+      }
+      // Re-normalize
+      const sum = newY.reduce((a, b) => a + b, 0);
+      if (sum > 0) {
+        for (let i = 0; i < params.N; i++) {
+          newY[i] = (newY[i] / sum) * params.PJ[m];
+        }
+      }
+      break;
+    }
+    
+    case 'J2_topK': {
+      // Score by x*g*B for perceived impact
+      const scored = activeList
+        .filter(i => params.jammerObjective !== 'oracle' || carriesRealTraffic(params, i))
+        .map(i => ({
+          index: i,
+          score: channelPower(x, params, i) * params.g[m][i] * channelBandwidth(params, i),
+        }));
+      scored.sort((a, b) => b.score - a.score);
+      
+      const targets = scored.slice(0, Math.min(params.topK, scored.length));
+      const totalScore = targets.reduce((s, t) => s + t.score, 0);
+      
+      for (const t of targets) {
+        newY[t.index] = totalScore > 0 ? (t.score / totalScore) * params.PJ[m] : params.PJ[m] / targets.length;
+      }
+      break;
+    }
+    
+    case 'J3_optimization': {
+      // Use gradient-based allocation
+      const grad = attackerGradient(m, x, y, params, activeSet);
+      const gradSum = grad.reduce((s, g) => s + Math.max(0, g), 0);
+      
+      if (gradSum > 0) {
+        for (let i = 0; i < params.N; i++) {
+          newY[i] = (Math.max(0, grad[i]) / gradSum) * params.PJ[m];
+        }
+      } else {
+        // Fallback to uniform
+        const validChannels = activeList.filter(i => 
+          params.jammerObjective !== 'oracle' || carriesRealTraffic(params, i)
+        );
+        const power = params.PJ[m] / Math.max(1, validChannels.length);
+        for (const i of validChannels) {
+          newY[i] = power;
+        }
+      }
+      break;
+    }
+  }
+  
+  return limitJammer(params, m, newY);
+}
+
+function computeMetrics(
+  x: number[][],
+  y: number[][],
+  params: EquilibriumParams,
+  activeChannelCount: number,
+  perceivedActiveSets: number[][]
+): EquilibriumMetrics {
+  let totalRealThroughput = 0;
+  let totalDecoyPower = 0;
+  let jammerWasteOnDecoys = 0;
+  let totalJammerPower = 0;
+  let realChannelCount = 0;
+  const attackerWaste = new Array(params.M).fill(0);
+  
+  for (let i = 0; i < params.N; i++) {
+    const users = channelUsers(params, i);
+    
+    let jamPower = 0;
+    let jamming = 0;
+    for (let m = 0; m < params.M; m++) {
+      jamPower += y[m][i];
+      jamming += y[m][i] * params.g[m][i];
+      totalJammerPower += y[m][i];
+    }
+    
+    for (const user of users) {
+      const defPower = x[user.defender]?.[i] || 0;
+      if (user.type === 'real' && defPower > 0) {
+        const sinr = (defPower * params.h[user.defender][i]) / (coChannelNoise(x, params, user.defender, i) + jamming);
+        totalRealThroughput += channelBandwidth(params, i) * Math.log2(1 + sinr);
+      } else if (user.type === 'decoy') {
+        totalDecoyPower += defPower;
+      }
+    }
+    
+    // Jamming is wasted on channels that only carry decoys
+    if (users.some(u => u.type === 'real')) {
+      realChannelCount++;
+    } else if (users.length > 0) {
+      jammerWasteOnDecoys += jamPower;
+      for (let m = 0; m < params.M; m++) {
+        attackerWaste[m] += y[m][i];
+      }
+    }
+  }
+  
+  const attackerWasteOnDecoys = attackerWaste.map((waste, m) => {
+    const total = y[m].reduce((s, v) => s + v, 0);
+    return total > 0 ? waste / total : 0;
+  });
+  
+  const dilutionFactor = realChannelCount > 0 ? activeChannelCount / realChannelCount : 1;
+  
+  return {
+    jammerWasteOnDecoys: totalJammerPower > 0 ? jammerWasteOnDecoys / totalJammerPower : 0,
+    attackerWasteOnDecoys,
+    perceivedActiveSets,
+    dilutionFactor,
+    oracleGap: 0,  // Filled in by runEquilibrium when computeBaselines is set
+    improvementOverNoDecoys: 0,  // Filled in by runEquilibrium when computeBaselines is set
+    totalRealThroughput,
+    totalDecoyPower,
+    activeChannelCount,
+    realChannelCount,
+    symmetricEquilibrium: false,  // Checked separately
+  };
+}
+
+// Rate floors at the final profile: each defender's floors against the budget
+// its decoys leave over
+function qosReport(x: number[][], y: number[][], params: EquilibriumParams, rates: number[]): QoSReport {
+  const minRate = params.channelConfig.map((_, i) => carriesRealTraffic(params, i) ? params.minRate?.[i] ?? 0 : 0);
+  const budgets = x.map((xd, d) => {
+    const realChannels = realChannelsOf(params, d);
+    const required = floorPowers(d, params, interferenceOn(d, x, y, params), realChannels);
+    const decoyPower = xd.reduce((sum, v, i) => roleOf(params, d, i) === 'decoy' ? sum + v : sum, 0);
+    return { required: realChannels.map(i => required[i]), available: params.PT[d] - decoyPower };
+  });
+  return buildQoSReport(minRate, rates, budgets);
+}
+
+function checkSymmetricEquilibrium(
+  defenders: PlayerAllocation[],
+  attackers: PlayerAllocation[],
+  epsilon: number
+): boolean {
+  // Check if all defenders have similar allocations
+  if (defenders.length <= 1) return false;
+  
+  const firstDef = defenders[0].allocation;
+  for (let d = 1; d < defenders.length; d++) {
+    const alloc = defenders[d].allocation;
+    const diff = alloc.reduce((s, v, i) => s + Math.abs(v - firstDef[i]), 0);
+    if (diff > epsilon * 10) return false;
+  }
+  
+  return true;
+}
+
+// Independent J3 attackers optimize their own utility; every other strategy
+// answers through a fixed rule
+function attackersBestRespond(params: EquilibriumParams): boolean {
+  return params.attackerMode !== 'coordinated' && params.jammerStrategy === 'J3_optimization';
+}
+
+// Jammer allocation in one sensed draw (and slot phase for J4-J6)
+interface JammingDraw {
+  y: number[][];
+  activeSets: Set<number>[];  // Perceived by each attacker
+  weight: number;
+}
+
+// Regret of every player at the solution: the expected utility gain of its
+// best unilateral deviation. Defenders keep their decoys at tau (the channel
+// plan is a design choice, not a deviation) and re-split the rest against the
+// attackers' allocation; attackers re-target each sensed active set. Only
+// attackers that best-respond are certified: heuristic (J1, J2, coordinated
+// J3) and pattern (J4-J6) jammers are bound to their rule, so they are left
+// out and the certificate covers the defenders alone.
+function nashCertificate(
+  x: number[][],
+  y: number[][],
+  draws: JammingDraw[],
+  params: EquilibriumParams
+): NashCertificate {
+  const expectation = (value: (draw: JammingDraw) => number): number =>
+    draws.reduce((sum, draw) => sum + draw.weight * value(draw), 0);
+  
+  const defenderRegret = Array.from({ length: params.D }, (_, d) => {
+    const deviation = x.map((row, dd) => dd === d ? defenderBestResponse(d, x, y, params) : row);
+    const gain = expectation(draw =>
+      calculateDefenderUtility(d, deviation, draw.y, params, unionOf(draw.activeSets), true) -
+      calculateDefenderUtility(d, x, draw.y, params, unionOf(draw.activeSets), true)
+    );
+    return Math.max(0, gain);
+  });
+  
+  const attackersCertified = attackersBestRespond(params);
+  const attackerRegret = Array.from({ length: attackersCertified ? params.M : 0 }, (_, m) => {
+    const gain = expectation(draw => {
+      const response = attackerBestResponse(m, x, draw.y, params, draw.activeSets[m]);
+      const deviation = draw.y.map((row, mm) => mm === m ? response : row);
+      return calculateAttackerUtility(m, x, deviation, params, draw.activeSets[m]) -
+        calculateAttackerUtility(m, x, draw.y, params, draw.activeSets[m]);
+    });
+    return Math.max(0, gain);
+  });
+  
+  const regrets = [...defenderRegret, ...attackerRegret];
+  const exploitability = Math.max(0, ...regrets);
+  const tolerance = params.nashTolerance ?? params.epsilon;
+  
+  return {
+    defenderRegret,
+    attackerRegret,
+    attackersCertified,
+    nashConv: regrets.reduce((s, r) => s + r, 0),
+    exploitability,
+    tolerance,
+    epsilonNash: exploitability <= tolerance,
+  };
+}
+
+export function runEquilibrium(params: EquilibriumParams): EquilibriumResult {
+  const result = solveEquilibrium(params);
+  
+  if (params.computeBaselines) {
+    // Same scenario against a jammer that knows which channels are real
+    const oracle = solveEquilibrium({ ...params, jammerObjective: 'oracle' });
+    // Same scenario with every decoy switched off
+    const noDecoys = solveEquilibrium(modifyParamsForSweep(params, 'ND', 0));
+    
+    const U = result.metrics.totalRealThroughput;
+    const U_oracle = oracle.metrics.totalRealThroughput;
+    const U_noDecoys = noDecoys.metrics.totalRealThroughput;
+    
+    result.oracleResult = {
+      defenders: oracle.defenders,
+      attackers: oracle.attackers,
+      metrics: oracle.metrics,
+    };
+    result.metrics.oracleGap = U - U_oracle;
+    result.metrics.improvementOverNoDecoys = U_noDecoys > 0 ? (U - U_noDecoys) / U_noDecoys : 0;
+    
+    if (hasImperfectCSI(params.csi)) {
+      // Same scenario with every player seeing the true gains
+      const perfectU_real = solveEquilibrium({ ...params, csi: undefined }).metrics.totalRealThroughput;
+      result.csi = { perfectU_real, U_realLoss: perfectU_real - U };
+    }
+  }
+  
+  return result;
+}
+
+export function solveEquilibrium(params: EquilibriumParams): EquilibriumResult {
+  const { N, D, M, PT, PJ, alpha, maxIter, epsilon } = params;
+  
+  // Initialize allocations
+  const x: number[][] = [];
+  const y: number[][] = [];
+  
+  const initSeed = params.initSeed ?? params.seed;
+  const random = initSeed !== undefined ? seededRandom(initSeed) : Math.random;
+  
+  // Each player responds on its own CSI estimates; utilities and metrics use the true gains
+  const views = playerViews(params);
+  
+  // Initialize defenders
+  for (let d = 0; d < D; d++) {
+    const alloc = new Array(N).fill(0);
+    const roles = params.channelConfig.map((_, i) => roleOf(params, d, i));
+    const ownedChannels = roles.flatMap((role, i) => role !== 'inactive' ? [i] : []);
+    
+    if (ownedChannels.length > 0) {
+      if (params.randomInit) {
+        // Random initialization
+        const weights = ownedChannels.map(() => random());
+        const sum = weights.reduce((a, b) => a + b, 0);
+        ownedChannels.forEach((ch, idx) => {
+          alloc[ch] = (weights[idx] / sum) * PT[d];
+        });
+      } else {
+        // Uniform over active channels, with decoys at tau
+        let remaining = PT[d];
+        const realChannels = ownedChannels.filter(i => roles[i] === 'real');
+        const decoyChannels = ownedChannels.filter(i => roles[i] === 'decoy');
+        
+        // Allocate tau to each decoy
+        for (const i of decoyChannels) {
+          alloc[i] = Math.min(decoyLevel(params, i), remaining / Math.max(1, decoyChannels.length));
+          remaining -= alloc[i];
+        }
+        
+        // Distribute remaining to real channels
+        if (realChannels.length > 0) {
+          const perReal = remaining / realChannels.length;
+          for (const i of realChannels) {
+            alloc[i] = perReal;
+          }
+        }
+      }
+    }
+    x.push(limitDefender(params, d, alloc));
+  }
+  
+  // Sensed active sets, one per attacker: the threshold sets, or Monte Carlo
+  // draws under probabilistic sensing. The attackers' draws share their
+  // uniforms, so an attacker with lower thresholds senses a superset.
+  const sampleActiveSets = isProbabilisticSensing(params.sensing)
+    ? createActiveSetSampler(N, params.sensing, params.seed)
+    : null;
+  const sensedActiveSets = (xs: number[][]): Set<number>[][] => {
+    if (!sampleActiveSets) return [getPerceivedActiveSets(xs, params)];
+    const perAttacker = Array.from({ length: M }, (_, m) => sampleActiveSets(getDetectionProbabilities(xs, params, m)));
+    return perAttacker[0].map((_, k) => perAttacker.map(sets => new Set(sets[k])));
+  };
+  const attackerSets = (activeSets: Set<number>[][], m: number): Set<number>[] => activeSets.map(sets => sets[m]);
+  
+  const strategyResponse = !attackersBestRespond(params);
+  
+  // Initialize attackers (J3 scores channels against an idle jamming profile)
+  const initialActiveSets = sensedActiveSets(x);
+  const idle = Array.from({ length: M }, () => new Array(N).fill(0));
+  for (let m = 0; m < M; m++) {
+    const alloc = averageOverActiveSets(attackerSets(initialActiveSets, m), N, set =>
+      applyJammerStrategy(m, idle, x, views.attackers[m], set)
+    );
+    y.push(alloc);
+  }
+  
+  const convergenceHistory: ConvergenceEntry[] = [];
+  let converged = false;
+  let iterations = 0;
+  let maxChange = Infinity;
+  
+  const solver = params.solver ?? 'gradient';
+  const stepSize = 0.5;
+  
+  // Projected gradient step from `anchor`, with the gradient taken at (xs, ys)
+  const defenderStep = (d: number, anchor: number[], xs: number[][], ys: number[][]): number[] => {
+    const grad = defenderGradient(d, xs, ys, views.defenders[d]);
+    const projected = limitDefender(params, d, projectToSimplex(anchor.map((val, i) => val + stepSize * grad[i]), PT[d]));
+    return liftDefender(views.defenders[d], d, projected, xs, ys);
+  };
+  
+  // Strategy-driven attackers always answer through their strategy; independent
+  // J3 attackers take a gradient step or play their exact best response
+  const attackerStep = (
+    m: number,
+    anchor: number[],
+    xs: number[][],
+    ys: number[][],
+    activeSets: Set<number>[][]
+  ): number[] => {
+    const sets = attackerSets(activeSets, m);
+    if (strategyResponse) {
+      return averageOverActiveSets(sets, N, set => applyJammerStrategy(m, ys, xs, views.attackers[m], set));
+    }
+    const grad = averageOverActiveSets(sets, N, set => attackerGradient(m, xs, ys, views.attackers[m], set));
+    const projected = projectToChannels(anchor.map((val, i) => val + stepSize * grad[i]), PJ[m], reachOf(params, m));
+    return limitJammer(params, m, projected);
+  };
+  const attackerResponse = (m: number, xs: number[][], ys: number[][], activeSets: Set<number>[][]): number[] =>
+    averageOverActiveSets(attackerSets(activeSets, m), N, set =>
+      strategyResponse
+        ? applyJammerStrategy(m, ys, xs, views.attackers[m], set)
+        : attackerBestResponse(m, xs, ys, views.attackers[m], set)
+    );
+  
+  // Move an allocation toward `target` in place; returns the largest change
+  const moveToward = (current: number[], target: number[], weight: number): number => {
+    let playerMaxChange = 0;
+    for (let i = 0; i < N; i++) {
+      const newVal = (1 - weight) * current[i] + weight * target[i];
+      playerMaxChange = Math.max(playerMaxChange, Math.abs(newVal - current[i]));
+      current[i] = newVal;
+    }
+    return playerMaxChange;
+  };
+  
+  // Damped attacker move. A blend of two plays can spread over more channels
+  // than the jammer drives at once, so a channel-limited jammer hops to the
+  // target's channels and only the power split among them is damped.
+  const moveAttacker = (m: number, target: number[], weight: number): number => {
+    if (params.jammerLimits?.[m]?.maxChannels === undefined) return moveToward(y[m], target, weight);
+    const blended = y[m].map((v, i) => target[i] > 0 ? (1 - weight) * v + weight * target[i] : 0);
+    const blendedTotal = blended.reduce((sum, v) => sum + v, 0);
+    const targetTotal = target.reduce((sum, v) => sum + v, 0);
+    const next = blendedTotal > 0 ? blended.map(v => (v * targetTotal) / blendedTotal) : target;
+    return moveToward(y[m], limitJammer(params, m, next), 1);
+  };
+  
+  for (let iter = 0; iter < maxIter; iter++) {
+    iterations = iter + 1;
+    
+    let defenderDeltas: number[];
+    let attackerDeltas: number[];
+    let activeSets: Set<number>[][];  // Sensed at the updated defender allocation
+    
+    switch (solver) {
+      case 'bestResponse': {
+        // Exact responses to the current opponents, damped by alpha (alpha = 1 is pure BR dynamics)
+        defenderDeltas = x.map((xd, d) => moveToward(xd, defenderBestResponse(d, x, y, views.defenders[d]), alpha));
+        activeSets = sensedActiveSets(x);
+        attackerDeltas = y.map((_, m) => moveAttacker(m, attackerResponse(m, x, y, activeSets), alpha));
+        break;
+      }
+      
+      case 'fictitiousPlay': {
+        // Everyone best-responds to the opponents' empirical averages; x and y hold
+        // those averages, with the initial profile counting as the first play
+        // (an average of limited plays may use more channels than one play)
+        const weight = 1 / (iter + 2);
+        const averageActiveSets = sensedActiveSets(x);
+        const xPlay = x.map((_, d) => defenderBestResponse(d, x, y, views.defenders[d]));
+        const yPlay = y.map((_, m) => attackerResponse(m, x, y, averageActiveSets));
+        defenderDeltas = x.map((xd, d) => moveToward(xd, xPlay[d], weight));
+        attackerDeltas = y.map((ym, m) => moveToward(ym, yPlay[m], weight));
+        activeSets = sensedActiveSets(x);
+        break;
+      }
+      
+      case 'extragradient': {
+        // Extrapolate a half step, then move from the current point along the
+        // gradients (and responses) evaluated at the extrapolated profile
+        const xHalf = x.map((xd, d) => defenderStep(d, xd, x, y));
+        const halfActiveSets = sensedActiveSets(xHalf);
+        const yHalf = y.map((ym, m) => attackerStep(m, ym, xHalf, y, halfActiveSets));
+        defenderDeltas = x.map((xd, d) => moveToward(xd, defenderStep(d, xd, xHalf, yHalf), alpha));
+        activeSets = sensedActiveSets(x);
+        attackerDeltas = y.map((ym, m) => moveAttacker(m, attackerStep(m, ym, xHalf, yHalf, halfActiveSets), alpha));
+        break;
+      }
+      
+      default: {
+        // Damped projected gradient; attackers respond to the defenders' new move
+        defenderDeltas = x.map((xd, d) => moveToward(xd, defenderStep(d, xd, x, y), alpha));
+        activeSets = sensedActiveSets(x);
+        attackerDeltas = y.map((ym, m) => moveAttacker(m, attackerStep(m, ym, x, y, activeSets), alpha));
+      }
+    }
+    maxChange = Math.max(0, ...defenderDeltas, ...attackerDeltas);
+    const newActiveSets = activeSets[0];
+    
+    // Record history
+    const defenderUtilities = Array.from({ length: D }, (_, d) => 
+      calculateDefenderUtility(d, x, y, params, unionOf(newActiveSets), true)
+    );
+    const attackerUtilities = Array.from({ length: M }, (_, m) => 
+      calculateAttackerUtility(m, x, y, params, newActiveSets[m])
+    );
+    
+    convergenceHistory.push({
+      iter: iter + 1,
+      maxChange,
+      defenderUtilities,
+      attackerUtilities,
+      defenderDeltas,
+      attackerDeltas,
+    });
+    
+    if (maxChange < epsilon) {
+      converged = true;
+      break;
+    }
+  }
+  
+  // Damped and averaged updates approach the rate floors from below; the
+  // reported allocation sits on them
+  for (let d = 0; d < D; d++) {
+    x[d] = liftDefender(views.defenders[d], d, x[d], x, y);
+  }
+  
+  // Build results
+  const finalActiveSets = sensedActiveSets(x);
+  
+  // Jammer allocation per sensed draw (and per slot phase for J4-J6); utilities
+  // and rates are expectations over these
+  const draws: JammingDraw[] = [];
+  const drawSets = sampleActiveSets && strategyResponse ? finalActiveSets : [finalActiveSets[0]];
+  for (const sets of drawSets) {
+    if (jammerPatternOf(params.jammerStrategy)) {
+      // Attackers run their patterns in lockstep: phase k of every attacker shares the slot
+      const phases = Array.from({ length: M }, (_, m) => patternPhases(m, views.attackers[m], sets[m]) ?? []);
+      alignPhases(phases, N).forEach(phase => {
+        draws.push({ y: phase.y, activeSets: sets, weight: phase.weight / drawSets.length });
+      });
+    } else {
+      const yk = sampleActiveSets && strategyResponse
+        ? Array.from({ length: M }, (_, m) => applyJammerStrategy(m, y, x, views.attackers[m], sets[m]))
+        : y;
+      draws.push({ y: yk, activeSets: sets, weight: 1 / drawSets.length });
+    }
+  }
+  const expectation = (value: (yk: number[][], activeSets: Set<number>[]) => number): number =>
+    draws.reduce((sum, draw) => sum + draw.weight * value(draw.y, draw.activeSets), 0);
+  
+  const defenders: PlayerAllocation[] = Array.from({ length: D }, (_, d) => ({
+    playerId: d,
+    allocation: x[d],
+    utility: expectation((yk, sets) => calculateDefenderUtility(d, x, yk, params, unionOf(sets), true)),
+  }));
+  
+  const attackers: PlayerAllocation[] = Array.from({ length: M }, (_, m) => ({
+    playerId: m,
+    allocation: y[m],
+    utility: expectation((yk, sets) => calculateAttackerUtility(m, x, yk, params, sets[m])),
+  }));
+  
+  // Per-attacker detection probabilities; a channel counts as active when any attacker senses it
+  const attackerPd = Array.from({ length: M }, (_, m) => getDetectionProbabilities(x, params, m));
+  const pd = params.channelConfig.map((_, i) => Math.max(0, ...attackerPd.map(p => p[i])));
+  const finalActiveSet = unionOf(finalActiveSets[0]);
+  const perceivedActiveSets = sampleActiveSets
+    ? attackerPd.map(p => p.flatMap((pm, i) => pm >= 0.5 ? [i] : []))
+    : finalActiveSets[0].map(set => Array.from(set).sort((a, b) => a - b));
+  
+  // Channel summary
+  const channelSummary: ChannelSummary[] = [];
+  const slowestRealRates = new Array(N).fill(0);
+  for (let i = 0; i < N; i++) {
+    const config = params.channelConfig[i];
+    const owner = config.owner;
+    const users = channelUsers(params, i);
+    const totalDefenderPower = channelPower(x, params, i);
+    const totalAttackerPower = y.reduce((sum, ym) => sum + ym[i], 0);
+    
+    const userSinr = (d: number, yk: number[][]): number => {
+      const power = x[d]?.[i] || 0;
+      if (power <= 0) return 0;
+      let interference = coChannelNoise(x, params, d, i);
+      for (let m = 0; m < M; m++) {
+        interference += yk[m][i] * params.g[m][i];
+      }
+      return (power * params.h[d][i]) / interference;
+    };
+    // SINR of the primary user (the owner, or the first sharer); rate over all users
+    const primary = users[0]?.defender ?? owner;
+    const sinr = expectation(yk => userSinr(primary, yk));
+    const bandwidth = channelBandwidth(params, i);
+    const rate = expectation(yk =>
+      users.reduce((sum, u) => sum + bandwidth * Math.log2(1 + userSinr(u.defender, yk)), 0)
+    );
+    const realRates = users
+      .filter(u => u.type === 'real')
+      .map(u => expectation(yk => bandwidth * Math.log2(1 + userSinr(u.defender, yk))));
+    slowestRealRates[i] = realRates.length > 0 ? Math.min(...realRates) : 0;
+    
+    // Average h and g for display
+    const avgH = params.h[primary]?.[i] || 1;
+    const avgG = params.g.reduce((s, gm) => s + gm[i], 0) / params.M;
+    
+    channelSummary.push({
+      channel: i,
+      owner,
+      channelType: config.type,
+      users: users.map(u => u.defender),
+      totalDefenderPower,
+      totalAttackerPower,
+      sinr,
+      rate,
+      bandwidth,
+      h: avgH,
+      g: avgG,
+      isActive: sampleActiveSets ? pd[i] >= 0.5 : finalActiveSet.has(i),
+    });
+  }
+  
+  const expectedActiveCount = sampleActiveSets ? pd.reduce((s, p) => s + p, 0) : finalActiveSet.size;
+  const metrics = computeMetrics(x, y, params, expectedActiveCount, perceivedActiveSets);
+  metrics.totalRealThroughput = expectation(yk =>
+    computeMetrics(x, yk, params, expectedActiveCount, perceivedActiveSets).totalRealThroughput
+  );
+  metrics.symmetricEquilibrium = checkSymmetricEquilibrium(defenders, attackers, epsilon);
+  const nash = nashCertificate(x, y, draws, params);
+  const qos = params.minRate ? qosReport(x, y, params, slowestRealRates) : undefined;
+  
+  return {
+    defenders,
+    attackers,
+    solver,
+    converged,
+    iterations,
+    maxChange,
+    convergenceHistory,
+    channelSummary,
+    metrics,
+    nash,
+    sensing: sampleActiveSets
+      ? buildSensingReport(pd, pd.map((_, i) =>
+          Math.max(...attackerPd.map((_, m) => falseAlarmProbability(sensingThreshold(params, m, i), params.sensing)))
+        ))
+      : undefined,
+    qos,
+  };
+}
@@ -0,0 +1,131 @@
+import type {
+  EquilibriumParams,
+  EquilibriumResult,
+  EquilibriumSweepParams,
+  EquilibriumSweepResult,
+  MonteCarloConfig,
+  SweepPoint,
+} from './types.ts';
+import { runEquilibrium, solveEquilibrium } from './equilibrium.ts';
+import { getSweepVariableValue, modifyParamsForSweep } from './scenario.ts';
+import { generateRandomEquilibriumGains } from './gains.ts';
+import { monteCarloConfidence, realizationSeeds, summarize } from './monteCarlo.ts';
+import { traceSlot } from './traces.ts';
+
+// ============ EQUILIBRIUM SWEEP ============
+
+function toSweepPoint(variable: number, result: EquilibriumResult): SweepPoint {
+  const U_oracle = result.oracleResult?.metrics.totalRealThroughput;
+  return {
+    variable,
+    U_real: result.metrics.totalRealThroughput,
+    U_oracle,
+    oracleGap: U_oracle !== undefined ? result.metrics.oracleGap : undefined,
+    dilutionFactor: result.metrics.dilutionFactor,
+    jammerWaste: result.metrics.jammerWasteOnDecoys,
+    converged: result.converged,
+    iterations: result.iterations,
+  };
+}
+
+function failedSweepPoint(variable: number, error: string): SweepPoint {
+  return {
+    variable,
+    U_real: 0,
+    dilutionFactor: 0,
+    jammerWaste: 0,
+    converged: false,
+    iterations: 0,
+    error,
+  };
+}
+
+// A point whose solve throws is kept as a failed point carrying the error
+function trySweepPoint(variable: number, solve: () => SweepPoint): SweepPoint {
+  try {
+    return solve();
+  } catch (error) {
+    return failedSweepPoint(variable, error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Solve one sweep point; in Monte Carlo mode once per fading realization and
+// report the means, with the spread in `stats`
+function solveSweepPoint(
+  variable: number,
+  params: EquilibriumParams,
+  solve: (params: EquilibriumParams) => EquilibriumResult,
+  monteCarlo?: MonteCarloConfig
+): SweepPoint {
+  if (!monteCarlo) {
+    return toSweepPoint(variable, solve(params));
+  }
+  
+  // Realizations replay the measured trace when there is one
+  const realizations = realizationSeeds(monteCarlo).map((seed, k) => {
+    const { h, g } = params.gainTrace ? traceSlot(params.gainTrace, k) : generateRandomEquilibriumGains(
+      params.N, params.D, params.M, monteCarlo.distribution ?? 'rayleigh', seed, params.geometry,
+      monteCarlo.fading ?? params.fading
+    );
+    return toSweepPoint(variable, solve({ ...params, h, g }));
+  });
+  
+  const confidence = monteCarloConfidence(monteCarlo);
+  const stats = {
+    U_real: summarize(realizations.map(p => p.U_real), confidence),
+    jammerWaste: summarize(realizations.map(p => p.jammerWaste), confidence),
+    dilutionFactor: summarize(realizations.map(p => p.dilutionFactor), confidence),
+  };
+  const oracle = realizations.filter(p => p.U_oracle !== undefined);
+  const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+  
+  return {
+    variable,
+    U_real: stats.U_real.mean,
+    U_oracle: oracle.length > 0 ? mean(oracle.map(p => p.U_oracle ?? 0)) : undefined,
+    oracleGap: oracle.length > 0 ? mean(oracle.map(p => p.oracleGap ?? 0)) : undefined,
+    dilutionFactor: stats.dilutionFactor.mean,
+    jammerWaste: stats.jammerWaste.mean,
+    converged: realizations.every(p => p.converged),
+    iterations: Math.max(...realizations.map(p => p.iterations)),
+    stats,
+  };
+}
+
+export function runEquilibriumSweep(sweepParams: EquilibriumSweepParams): EquilibriumSweepResult {
+  const { baseParams, sweepVariable, range, monteCarlo } = sweepParams;
+  
+  // ND=0 baseline: same scenario with every decoy switched off
+  const baselineValue = getSweepVariableValue(baseParams, sweepVariable);
+  const baselineVariable = sweepVariable === 'ND' ? 0 : baselineValue;
+  const baseline = trySweepPoint(baselineVariable, () => solveSweepPoint(
+    baselineVariable,
+    modifyParamsForSweep(baseParams, 'ND', 0),
+    solveEquilibrium,
+    monteCarlo
+  ));
+  
+  // Oracle baseline: base scenario against a jammer that knows the real channels
+  const oraclePoint = trySweepPoint(baselineValue, () => solveSweepPoint(
+    baselineValue,
+    { ...baseParams, jammerObjective: 'oracle' },
+    solveEquilibrium,
+    monteCarlo
+  ));
+  const oracleBaseline: SweepPoint = oraclePoint.error ? oraclePoint : { ...oraclePoint, U_oracle: oraclePoint.U_real };
+  
+  const points: SweepPoint[] = [];
+  let bestPoint = baseline;
+  
+  for (const value of range) {
+    const point = trySweepPoint(value, () =>
+      solveSweepPoint(value, modifyParamsForSweep(baseParams, sweepVariable, value), runEquilibrium, monteCarlo)
+    );
+    if (!point.error && (bestPoint.error || point.U_real > bestPoint.U_real)) {
+      bestPoint = point;
+    }
+    points.push(point);
+  }
+  
+  return { variable: sweepVariable, points, baseline, bestPoint, oracleBaseline };
+}
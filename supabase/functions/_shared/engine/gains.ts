@@ -0,0 +1,119 @@
+import type { FadingConfig, GainDistribution, GeometryConfig } from './types.ts';
+import { gaussian, seededRandom } from './random.ts';
+import { qFunction } from './sensing.ts';
+import { defaultGeometry, generateGeometricGains } from './geometry.ts';
+
+// ============ GAIN GENERATORS ============
+//
+// Each player draws one gain vector over the N channels. Rician, Nakagami-m
+// and log-normal gains are built from Gaussian streams; with a frequency
+// correlation rho every stream is AR(1) across channels,
+//   z_i = rho z_{i-1} + sqrt(1 - rho^2) w_i,
+// so adjacent channels fade together. Rician and Nakagami amplitudes have
+// unit mean power; Rayleigh amplitudes have mean power 2 (unlike the unit-mean
+// power fading of geometric gains); log-normal gains have unit median.
+// Correlated uniform and Rayleigh vectors use the same streams (uniform
+// through the Gaussian CDF); uncorrelated ones keep the direct samplers.
+
+const DEFAULT_K_FACTOR = 3;
+const DEFAULT_NAKAGAMI_M = 2;
+const DEFAULT_LOGNORMAL_SIGMA_DB = 4;
+
+type Random = () => number;
+
+function gainSampler(distribution: GainDistribution, random: Random): () => number {
+  return () => {
+    if (distribution === 'rayleigh') {
+      // Rayleigh amplitude with mean power 2 (sqrt of exponential with mean 2)
+      return Math.sqrt(-2 * Math.log(1 - random()));
+    }
+    // Uniform in [0.5, 2.0]
+    return 0.5 + random() * 1.5;
+  };
+}
+
+// N standard normals, AR(1)-correlated across adjacent channels
+function correlatedGaussians(N: number, rho: number, random: Random): number[] {
+  const z: number[] = [];
+  for (let i = 0; i < N; i++) {
+    const w = gaussian(random);
+    z.push(i === 0 ? w : rho * z[i - 1] + Math.sqrt(1 - rho * rho) * w);
+  }
+  return z;
+}
+
+function gainVector(N: number, distribution: GainDistribution, fading: FadingConfig | undefined, random: Random): number[] {
+  const rho = Math.min(0.999, Math.max(0, fading?.correlation ?? 0));
+  const stream = () => correlatedGaussians(N, rho, random);
+  
+  switch (distribution) {
+    case 'rician': {
+      // |LOS + scattered| with K = LOS power / scattered power
+      const K = Math.max(0, fading?.kFactor ?? DEFAULT_K_FACTOR);
+      const los = Math.sqrt(K / (K + 1));
+      const sigma = Math.sqrt(1 / (2 * (K + 1)));
+      const re = stream();
+      const im = stream();
+      return re.map((x, i) => Math.hypot(los + sigma * x, sigma * im[i]));
+    }
+    case 'nakagami': {
+      // Power is Gamma(m, 1/m): the mean of 2m squared normals
+      const m = Math.max(0.5, Math.round(2 * (fading?.nakagamiM ?? DEFAULT_NAKAGAMI_M)) / 2);
+      const streams = Array.from({ length: 2 * m }, stream);
+      return Array.from({ length: N }, (_, i) =>
+        Math.sqrt(streams.reduce((s, z) => s + z[i] * z[i], 0) / (2 * m))
+      );
+    }
+    case 'lognormal': {
+      const sigmaDb = Math.max(0, fading?.lognormalSigmaDb ?? DEFAULT_LOGNORMAL_SIGMA_DB);
+      return stream().map(z => Math.pow(10, (sigmaDb * z) / 10));
+    }
+  }
+  
+  if (rho > 0) {
+    if (distribution === 'rayleigh') {
+      const re = stream();
+      const im = stream();
+      return re.map((x, i) => Math.hypot(x, im[i]));
+    }
+    return stream().map(z => 0.5 + 1.5 * (1 - qFunction(z)));
+  }
+  return Array.from({ length: N }, gainSampler(distribution, random));
+}
+
+export function generateRandomChannelGains(
+  N: number,
+  seed?: number,
+  distribution: GainDistribution = 'uniform',
+  fading?: FadingConfig
+): { h: number[], g: number[] } {
+  const random = seed !== undefined ? seededRandom(seed) : Math.random;
+  if (distribution === 'geometric') {
+    // One defender link and one jammer in the default layout
+    const { h, g } = generateGeometricGains(N, 1, 1, defaultGeometry(1, 1), random);
+    return { h: h[0], g: g[0] };
+  }
+  const h = gainVector(N, distribution, fading, random);
+  const g = gainVector(N, distribution, fading, random);
+  return { h, g };
+}
+
+export function generateRandomEquilibriumGains(
+  N: number, 
+  D: number, 
+  M: number, 
+  distribution: GainDistribution = 'uniform',
+  seed?: number,
+  geometry?: GeometryConfig,
+  fading?: FadingConfig
+): { h: number[][], g: number[][] } {
+  const random = seed !== undefined ? seededRandom(seed) : Math.random;
+  if (distribution === 'geometric') {
+    return generateGeometricGains(N, D, M, geometry ?? defaultGeometry(D, M), random);
+  }
+  
+  const h: number[][] = Array.from({ length: D }, () => gainVector(N, distribution, fading, random));
+  const g: number[][] = Array.from({ length: M }, () => gainVector(N, distribution, fading, random));
+  
+  return { h, g };
+}
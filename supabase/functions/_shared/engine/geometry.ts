@@ -0,0 +1,76 @@
+import type { GeometryConfig, Position } from './types.ts';
+import { gaussian } from './random.ts';
+
+// ============ GEOMETRIC GAINS ============
+//
+// Gains follow from 2-D node positions:
+//   gain = (max(dist, d0) / d0)^-n * 10^(S / 10) * F
+// with path-loss exponent n, reference distance d0, log-normal shadowing
+// S ~ N(0, shadowingDb^2) drawn once per link, and small-scale fading F drawn
+// per channel (unit-mean exponential power for Rayleigh). F multiplies the
+// power gain, so it is the square of a Rayleigh amplitude with unit mean
+// power; the i.i.d. 'rayleigh' distribution instead uses the amplitude itself,
+// with mean power 2.
+// h[d][i] is the link from defender d's transmitter to its receiver. The model
+// has a single g[m][i] per attacker, so the jamming link is taken to the
+// receiver nearest the attacker (its strongest path). Distances are in units
+// of the reference distance, so a link of length d0 has unit path gain.
+// Players without a position take their default one.
+
+const DEFAULT_REFERENCE_DISTANCE = 1;
+const DEFAULT_PATH_LOSS_EXPONENT = 3;
+const LINK_LENGTH = 1;      // Default transmitter-receiver distance
+const ROW_SPACING = 2;      // Default spacing between defender links
+const JAMMER_STANDOFF = 1;  // Default distance of the jammers beyond the receivers
+
+type Random = () => number;
+
+function distance(a: Position, b: Position): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function nearestDistance(from: Position, points: Position[]): number {
+  return Math.min(...points.map(p => distance(from, p)));
+}
+
+// Parallel defender links with the jammers lined up on the far side
+export function defaultGeometry(D: number, M: number): GeometryConfig {
+  return {
+    defenderTx: Array.from({ length: D }, (_, d) => ({ x: 0, y: d * ROW_SPACING })),
+    defenderRx: Array.from({ length: D }, (_, d) => ({ x: LINK_LENGTH, y: d * ROW_SPACING })),
+    attackers: Array.from({ length: M }, (_, m) => ({
+      x: LINK_LENGTH + JAMMER_STANDOFF,
+      y: (m - (M - 1) / 2) * ROW_SPACING + ((D - 1) / 2) * ROW_SPACING,
+    })),
+    pathLossExponent: DEFAULT_PATH_LOSS_EXPONENT,
+    shadowingDb: 0,
+    fading: 'rayleigh',
+  };
+}
+
+function linkGains(dist: number, geometry: GeometryConfig, N: number, random: Random): number[] {
+  const d0 = geometry.referenceDistance ?? DEFAULT_REFERENCE_DISTANCE;
+  const pathGain = Math.pow(Math.max(dist, d0) / d0, -geometry.pathLossExponent);
+  const shadowing = Math.pow(10, ((geometry.shadowingDb ?? 0) * gaussian(random)) / 10);
+  return Array.from({ length: N }, () => {
+    const fading = (geometry.fading ?? 'rayleigh') === 'rayleigh' ? -Math.log(1 - random()) : 1;
+    return pathGain * shadowing * fading;
+  });
+}
+
+export function generateGeometricGains(
+  N: number,
+  D: number,
+  M: number,
+  geometry: GeometryConfig,
+  random: Random
+): { h: number[][], g: number[][] } {
+  const fallback = defaultGeometry(D, M);
+  const tx = fallback.defenderTx.map((p, d) => geometry.defenderTx[d] ?? p);
+  const rx = fallback.defenderRx.map((p, d) => geometry.defenderRx[d] ?? p);
+  const attackers = fallback.attackers.map((p, m) => geometry.attackers[m] ?? p);
+  
+  const h = Array.from({ length: D }, (_, d) => linkGains(distance(tx[d], rx[d]), geometry, N, random));
+  const g = Array.from({ length: M }, (_, m) => linkGains(nearestDistance(attackers[m], rx), geometry, N, random));
+  return { h, g };
+}
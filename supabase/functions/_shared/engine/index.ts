@@ -0,0 +1,29 @@
+// Runtime-agnostic simulation engine: single-run policies, sweeps and the
+// multi-player equilibrium solver. Pure functions only, so the same module
+// runs in the `simulate` edge function and in the browser.
+
+export * from './types.ts';
+export { seededRandom } from './random.ts';
+export { generateRandomChannelGains, generateRandomEquilibriumGains } from './gains.ts';
+export { defaultGeometry } from './geometry.ts';
+export { applyEquilibriumGains, applySimulationGains, parseGainFile } from './traces.ts';
+export { calculateRate, calculateSINR, runSimulation, runSweep } from './single.ts';
+export { detectionProbability, falseAlarmProbability, qFunction } from './sensing.ts';
+export { runEquilibrium } from './equilibrium.ts';
+export { reachableChannels } from './reach.ts';
+export { modifyParamsForSweep } from './scenario.ts';
+export { runEquilibriumSweep } from './equilibriumSweep.ts';
+export { runMultiStart } from './multiStart.ts';
+export { runRepeatedGame } from './repeated.ts';
+export { runOnlineLearning } from './online.ts';
+export { runStackelberg } from './stackelberg.ts';
+export {
+  validateEquilibriumParams,
+  validateEquilibriumSweepParams,
+  validateMultiStartParams,
+  validateOnlineLearningParams,
+  validateRepeatedGameParams,
+  validateSimulationParams,
+  validateStackelbergParams,
+  validateSweepParams,
+} from './validation.ts';
@@ -0,0 +1,181 @@
+import type { KKTResiduals } from './types.ts';
+
+// ============ CLOSED-FORM POWER ALLOCATIONS ============
+//
+// Both players solve a concave/convex program over a single budget whose
+// per-channel optimality condition has a closed form for a fixed budget
+// multiplier; the multiplier itself is found by bisection on the budget.
+//   Defender (water-filling): max sum B_i log2(1 + x_i h_i / I_i), I_i = sigma2 + y_i g_i
+//     x_i = min(cap, max(lb_i, B_i mu - I_i / h_i)) under a per-channel peak power cap
+//     and per-channel floors lb_i (rate QoS)
+//   Jammer (exact best response): min sum B_i log2(1 + S_i / (sigma2 + y_i g_i)), S_i = x_i h_i
+//     marginal reduction m_i(y) = B_i S_i g_i / (ln 2 (sigma2 + g_i y)(sigma2 + g_i y + S_i))
+//     y_i solves m_i(y_i) = nu, or 0 when m_i(0) <= nu
+
+const BISECTION_STEPS = 100;
+const POWER_EPS = 1e-9;
+
+// Scale so the allocation spends exactly the budget
+function spend(power: number[], channels: number[], budget: number): number[] {
+  const total = channels.reduce((s, i) => s + power[i], 0);
+  if (total <= 0) return power;
+  return power.map(v => (v * budget) / total);
+}
+
+export function waterFill(
+  channels: number[],
+  h: number[],
+  interference: number[],
+  B: number[],
+  budget: number,
+  N: number,
+  cap: number = Infinity,
+  minPower?: number[]
+): number[] {
+  const x = new Array(N).fill(0);
+  if (channels.length === 0 || budget <= 0) return x;
+  
+  // Every channel at its peak still leaves budget over: it goes unspent
+  if (cap * channels.length <= budget) {
+    for (const i of channels) x[i] = cap;
+    return x;
+  }
+  
+  const floor = (i: number) => interference[i] / Math.max(h[i], POWER_EPS);
+  const level = (i: number, mu: number) => Math.min(cap, Math.max(minPower?.[i] ?? 0, B[i] * mu - floor(i)));
+  const fill = (mu: number) => channels.reduce((s, i) => s + level(i, mu), 0);
+  
+  // Water level: grow the upper bracket until it spends the budget, then bisect
+  let lo = 0;
+  let hi = Math.max(...channels.map(i => (floor(i) + budget) / B[i]));
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const mu = (lo + hi) / 2;
+    if (fill(mu) > budget) hi = mu;
+    else lo = mu;
+  }
+  
+  for (const i of channels) {
+    x[i] = level(i, hi);
+  }
+  return cap < Infinity ? x : spend(x, channels, budget);
+}
+
+export function jammerBestResponse(
+  activeSet: number[],
+  x: number[],
+  h: number[],
+  g: number[],
+  B: number[],
+  PJ: number,
+  sigma2: number,
+  N: number
+): number[] {
+  const y = new Array(N).fill(0);
+  if (activeSet.length === 0) return y;
+  
+  const signal = (i: number) => x[i] * h[i];
+  const marginalAtZero = (i: number) => jammerMarginal(i, 0, x, h, g, B, sigma2);
+  const targets = activeSet.filter(i => signal(i) > 0 && g[i] > 0 && B[i] > 0);
+  if (targets.length === 0) {
+    for (const i of activeSet) y[i] = PJ / activeSet.length;
+    return y;
+  }
+  
+  // y_i(nu) from (sigma2 + g y)(sigma2 + g y + S) = B S g / (ln 2 nu)
+  const response = (i: number, nu: number): number => {
+    if (marginalAtZero(i) <= nu) return 0;
+    const S = signal(i);
+    const u = (-S + Math.sqrt(S * S + (4 * B[i] * S * g[i]) / (Math.LN2 * nu))) / 2;
+    return Math.max(0, (u - sigma2) / g[i]);
+  };
+  const spent = (nu: number) => targets.reduce((s, i) => s + response(i, nu), 0);
+  
+  let lo = 0;
+  let hi = Math.max(...targets.map(marginalAtZero));
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const nu = (lo + hi) / 2;
+    if (spent(nu) > PJ) lo = nu;
+    else hi = nu;
+  }
+  
+  for (const i of targets) {
+    y[i] = response(i, lo);
+  }
+  return spend(y, targets, PJ);
+}
+
+function jammerMarginal(
+  i: number,
+  yi: number,
+  x: number[],
+  h: number[],
+  g: number[],
+  B: number[],
+  sigma2: number
+): number {
+  const S = x[i] * h[i];
+  const I = sigma2 + g[i] * yi;
+  return (B[i] * S * g[i]) / (Math.LN2 * I * (I + S));
+}
+
+/**
+ * KKT residuals of a single-budget allocation, given the marginal benefit of
+ * power on each channel (rate gain for the defender, rate reduction for the
+ * jammer). The multiplier is estimated as the mean marginal on the support.
+ */
+function kktResiduals(
+  channels: number[],
+  power: number[],
+  budget: number,
+  marginal: (i: number) => number
+): KKTResiduals {
+  const support = channels.filter(i => power[i] > POWER_EPS);
+  const multiplier = support.length > 0
+    ? support.reduce((s, i) => s + marginal(i), 0) / support.length
+    : Math.max(0, ...channels.map(marginal));
+  
+  let stationarity = 0;
+  let complementarity = 0;
+  for (const i of channels) {
+    if (power[i] > POWER_EPS) {
+      stationarity = Math.max(stationarity, Math.abs(marginal(i) - multiplier));
+    } else {
+      complementarity = Math.max(complementarity, marginal(i) - multiplier);
+    }
+  }
+  
+  return {
+    multiplier,
+    stationarity,
+    complementarity,
+    budget: Math.abs(channels.reduce((s, i) => s + power[i], 0) - budget),
+  };
+}
+
+export function defenderResiduals(
+  channels: number[],
+  x: number[],
+  y: number[],
+  h: number[],
+  g: number[],
+  B: number[],
+  budget: number,
+  sigma2: number
+): KKTResiduals {
+  return kktResiduals(channels, x, budget, i =>
+    (B[i] * h[i]) / (Math.LN2 * (sigma2 + y[i] * g[i] + x[i] * h[i]))
+  );
+}
+
+export function jammerResiduals(
+  activeSet: number[],
+  x: number[],
+  y: number[],
+  h: number[],
+  g: number[],
+  B: number[],
+  PJ: number,
+  sigma2: number
+): KKTResiduals {
+  return kktResiduals(activeSet, y, PJ, i => jammerMarginal(i, y[i], x, h, g, B, sigma2));
+}
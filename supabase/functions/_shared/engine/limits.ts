@@ -0,0 +1,55 @@
+import type { HardwareLimits } from './types.ts';
+
+// ============ HARDWARE LIMITS ============
+//
+// A jammer front end drives at most `maxChannels` channels at once and puts
+// at most `maxChannelPower` on any one of them; a defender radio has the same
+// per-channel peak. An allocation is brought within the limits by keeping
+// its `maxChannels` strongest channels (equal powers go to the higher
+// `priority`) at the same total, then clipping every channel at the peak and
+// handing the excess to the unclipped channels in proportion to their power.
+// Budget the caps cannot place stays unspent.
+//
+// The limits bind each play: time-averaged (J4-J6) and damped profiles mix
+// plays, so they respect the peak but may spread over more channels.
+
+export function limitAllocation(allocation: number[], limits?: HardwareLimits, priority?: number[]): number[] {
+  const maxChannels = limits?.maxChannels;
+  const cap = limits?.maxChannelPower;
+  if (maxChannels === undefined && cap === undefined) return allocation;
+  
+  const result = allocation.map(v => Math.max(0, v));
+  const total = result.reduce((sum, v) => sum + v, 0);
+  let free = result.flatMap((v, i) => v > 0 ? [i] : []);
+  
+  if (maxChannels !== undefined && free.length > maxChannels) {
+    const kept = [...free]
+      .sort((a, b) => result[b] - result[a] || (priority?.[b] ?? 0) - (priority?.[a] ?? 0))
+      .slice(0, Math.max(0, Math.floor(maxChannels)));
+    const keptSet = new Set(kept);
+    for (const i of free) {
+      if (!keptSet.has(i)) result[i] = 0;
+    }
+    free = kept;
+  }
+  
+  // Spread what is left over the unclipped channels until none exceeds the cap
+  let budget = total;
+  while (free.length > 0) {
+    const freeSum = free.reduce((sum, i) => sum + result[i], 0);
+    if (freeSum <= 0) break;
+    for (const i of free) {
+      result[i] = (result[i] * budget) / freeSum;
+    }
+    if (cap === undefined) break;
+    
+    const clipped = free.filter(i => result[i] > cap);
+    if (clipped.length === 0) break;
+    for (const i of clipped) {
+      result[i] = cap;
+      budget -= cap;
+    }
+    free = free.filter(i => !clipped.includes(i));
+  }
+  return result;
+}
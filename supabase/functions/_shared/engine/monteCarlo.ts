@@ -0,0 +1,52 @@
+import type { MetricStats, MonteCarloConfig } from './types.ts';
+import { qFunction } from './sensing.ts';
+
+// ============ MONTE CARLO FADING ============
+//
+// Sweeps in Monte Carlo mode redraw h/g for K seeded realizations per point
+// and report each metric as mean, sample standard deviation and a normal
+// approximation confidence interval of the mean.
+
+const DEFAULT_CONFIDENCE = 0.95;
+const DEFAULT_SEED = 1;
+
+export function monteCarloConfidence(monteCarlo: MonteCarloConfig): number {
+  return monteCarlo.confidence ?? DEFAULT_CONFIDENCE;
+}
+
+// Realization k uses seed + k, so every sweep point sees the same K fading draws
+export function realizationSeeds(monteCarlo: MonteCarloConfig): number[] {
+  const realizations = Math.max(1, Math.round(monteCarlo.realizations));
+  const seed = monteCarlo.seed ?? DEFAULT_SEED;
+  return Array.from({ length: realizations }, (_, k) => seed + k);
+}
+
+// Two-sided normal quantile: z with Q(z) = (1 - confidence) / 2, found by bisection
+function zScore(confidence: number): number {
+  const tail = (1 - confidence) / 2;
+  let lo = 0;
+  let hi = 10;
+  for (let iter = 0; iter < 60; iter++) {
+    const mid = (lo + hi) / 2;
+    if (qFunction(mid) > tail) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+export function summarize(values: number[], confidence: number = DEFAULT_CONFIDENCE): MetricStats {
+  const n = values.length;
+  if (n === 0) {
+    return { mean: 0, std: 0, ciLow: 0, ciHigh: 0 };
+  }
+  
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  const variance = n > 1 ? values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1) : 0;
+  const std = Math.sqrt(variance);
+  const halfWidth = (zScore(confidence) * std) / Math.sqrt(n);
+  
+  return { mean, std, ciLow: mean - halfWidth, ciHigh: mean + halfWidth };
+}
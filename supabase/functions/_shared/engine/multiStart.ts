@@ -0,0 +1,90 @@
+import type {
+  EquilibriumCluster,
+  EquilibriumResult,
+  MultiStartParams,
+  MultiStartResult,
+} from './types.ts';
+import { solveEquilibrium } from './equilibrium.ts';
+
+// ============ MULTI-START EQUILIBRIUM SEARCH ============
+//
+// Solves the same game from `starts` seeded random initializations and groups
+// the converged fixed points: a start joins the first cluster whose
+// representative lies within `clusterTolerance` (max norm over every x and y
+// entry), otherwise it opens a new one. Basins are shares of all starts, so
+// starts that never converged account for the missing mass.
+
+const DEFAULT_INIT_SEED = 1;
+const DEFAULT_CLUSTER_TOLERANCE = 0.01;  // Relative to the largest power budget
+
+function profileDistance(a: EquilibriumResult, b: EquilibriumResult): number {
+  let distance = 0;
+  const players = [
+    ...a.defenders.map((p, d) => [p.allocation, b.defenders[d].allocation]),
+    ...a.attackers.map((p, m) => [p.allocation, b.attackers[m].allocation]),
+  ];
+  for (const [u, v] of players) {
+    for (let i = 0; i < u.length; i++) {
+      distance = Math.max(distance, Math.abs(u[i] - v[i]));
+    }
+  }
+  return distance;
+}
+
+export function runMultiStart(multiStartParams: MultiStartParams): MultiStartResult {
+  const { baseParams, starts } = multiStartParams;
+  const initSeed = multiStartParams.initSeed ?? DEFAULT_INIT_SEED;
+  const clusterTolerance = multiStartParams.clusterTolerance ??
+    DEFAULT_CLUSTER_TOLERANCE * Math.max(...baseParams.PT, ...baseParams.PJ);
+  
+  const members: EquilibriumResult[][] = [];
+  const assignments: number[] = [];
+  let converged = 0;
+  
+  for (let k = 0; k < starts; k++) {
+    const result = solveEquilibrium({ ...baseParams, randomInit: true, initSeed: initSeed + k });
+    if (!result.converged) {
+      assignments.push(-1);
+      continue;
+    }
+    converged++;
+    
+    const cluster = members.findIndex(group => profileDistance(group[0], result) <= clusterTolerance);
+    if (cluster >= 0) {
+      members[cluster].push(result);
+      assignments.push(cluster);
+    } else {
+      members.push([result]);
+      assignments.push(members.length - 1);
+    }
+  }
+  
+  const clusters: EquilibriumCluster[] = members.map(group => {
+    const representative = group[0];
+    return {
+      starts: group.length,
+      basin: group.length / starts,
+      defenders: representative.defenders.map(p => p.allocation),
+      attackers: representative.attackers.map(p => p.allocation),
+      defenderUtilities: representative.defenders.map(p => p.utility),
+      attackerUtilities: representative.attackers.map(p => p.utility),
+      totalRealThroughput: representative.metrics.totalRealThroughput,
+      exploitability: representative.nash.exploitability,
+      spread: Math.max(...group.map(result => profileDistance(representative, result))),
+    };
+  });
+  
+  // Largest basin first; remap the per-start assignments to the new order
+  const order = clusters.map((_, c) => c).sort((a, b) => clusters[b].starts - clusters[a].starts);
+  const rank: number[] = new Array(clusters.length);
+  order.forEach((c, r) => { rank[c] = r; });
+  
+  return {
+    starts,
+    converged,
+    clusters: order.map(c => clusters[c]),
+    assignments: assignments.map(c => c < 0 ? c : rank[c]),
+    unique: clusters.length === 1,
+    clusterTolerance,
+  };
+}
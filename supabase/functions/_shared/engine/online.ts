@@ -0,0 +1,248 @@
+import type {
+  ChannelType,
+  DefenderArm,
+  OnlineLearningParams,
+  OnlineLearningResult,
+  OnlineRoundRecord,
+} from './types.ts';
+import { seededRandom } from './random.ts';
+import { allocateDefender, allocatePlacement, calculateRate, runSimulation } from './single.ts';
+import { isRandomPlacement, samplePlacement } from './placement.ts';
+import { estimatedGains } from './csi.ts';
+import { traceSlot } from './traces.ts';
+
+// ============ ONLINE LEARNING: BANDIT DEFENDER VS BANDIT JAMMER ============
+//
+// Neither side knows the other's allocation; both learn from what they
+// observe over T rounds.
+//   Defender: picks one of a fixed set of real/decoy channel subsets by UCB1
+//             or EXP3 from the U_real it earns. Arm 0 is its policy's own
+//             layout; the others are distinct subsets drawn once at the start
+//             (within the placement band and spacing), each powered by the
+//             policy as in randomized placement.
+//   Jammer:   EXP3 over the N channels. Each round it attacks topK distinct
+//             channels with equal power and observes the rate it suppressed
+//             on each; decoys carry traffic too, so suppressed decoy rate
+//             looks like a hit.
+// Regret is in rate units against the best fixed action in hindsight: the
+// best arm given the jammer's actual plays, and the best fixed set of topK
+// channels given the defender's actual layouts.
+
+const ARMS_PER_CHANNEL = 2;     // Default defender arms: 2N subsets
+const ARM_DRAW_ATTEMPTS = 20;   // Placement draws per arm before settling for fewer arms
+
+type Random = () => number;
+
+interface Layout {
+  x: number[];
+  channelTypes: ChannelType[];
+}
+
+// Horizon-tuned EXP3 mixing rate (Auer et al.)
+function defaultExploration(arms: number, rounds: number): number {
+  return Math.min(1, Math.sqrt((arms * Math.log(arms)) / ((Math.E - 1) * rounds)));
+}
+
+// Exponential weights (kept in log space) mixed with uniform exploration
+function exp3Probabilities(logWeights: number[], gamma: number): number[] {
+  const max = Math.max(...logWeights);
+  const weights = logWeights.map(w => Math.exp(w - max));
+  const total = weights.reduce((s, w) => s + w, 0);
+  return weights.map(w => (1 - gamma) * (w / total) + gamma / weights.length);
+}
+
+function sampleIndex(p: number[], random: Random): number {
+  let u = random() * p.reduce((s, v) => s + v, 0);
+  let last = 0;
+  for (let i = 0; i < p.length; i++) {
+    if (p[i] <= 0) continue;
+    if (u < p[i]) return i;
+    u -= p[i];
+    last = i;
+  }
+  return last;
+}
+
+// k distinct arms, drawn one after another in proportion to p
+function sampleDistinct(p: number[], k: number, random: Random): number[] {
+  const remaining = [...p];
+  const chosen: number[] = [];
+  for (let n = 0; n < k; n++) {
+    const i = sampleIndex(remaining, random);
+    chosen.push(i);
+    remaining[i] = 0;
+  }
+  return chosen;
+}
+
+function armOf(layout: Layout): DefenderArm {
+  const channels = (type: ChannelType) => layout.channelTypes.flatMap((t, i) => (t === type ? [i] : []));
+  return { realChannels: channels('real'), decoyChannels: channels('decoy') };
+}
+
+// The policy's layout plus up to count - 1 distinct random real/decoy subsets
+function defenderArms(params: OnlineLearningParams, count: number, random: Random): Layout[] {
+  const { baseParams } = params;
+  const { N, NR, ND } = baseParams;
+  const defenderParams = { ...baseParams, ...estimatedGains(baseParams, 'defender') };
+  const placement = isRandomPlacement(baseParams.placement) ? baseParams.placement : { mode: 'random' as const };
+  
+  const layouts: Layout[] = [allocateDefender(defenderParams)];
+  const key = (layout: Layout) => {
+    const arm = armOf(layout);
+    return `${arm.realChannels.join(',')}|${arm.decoyChannels.join(',')}`;
+  };
+  const seen = new Set(layouts.map(key));
+  for (let attempt = 0; attempt < count * ARM_DRAW_ATTEMPTS && layouts.length < count; attempt++) {
+    const layout = allocatePlacement(defenderParams, samplePlacement(N, NR, ND, placement, random));
+    if (seen.has(key(layout))) continue;
+    seen.add(key(layout));
+    layouts.push(layout);
+  }
+  return layouts;
+}
+
+function argMax(values: number[]): number {
+  return values.reduce((best, v, i) => (v > values[best] ? i : best), 0);
+}
+
+export function runOnlineLearning(params: OnlineLearningParams): OnlineLearningResult {
+  const { baseParams, rounds, defenderLearner } = params;
+  const { N, PJ, sigma2, h, g, topK = 3 } = baseParams;
+  const B = baseParams.B || new Array(N).fill(1);
+  const K = Math.max(1, Math.min(topK, N));
+  
+  // Also validates the configuration (throws on infeasible ND / tau)
+  const oneShotU_real = runSimulation(baseParams).U_real;
+  
+  const random = seededRandom(baseParams.seed ?? 1);
+  const layouts = defenderArms(params, Math.max(1, params.defenderArms ?? ARMS_PER_CHANNEL * N), random);
+  const A = layouts.length;
+  const defenderGamma = params.defenderExploration ?? defaultExploration(A, rounds);
+  const jammerGamma = params.jammerExploration ?? defaultExploration(N, rounds);
+  
+  const plays = new Array(A).fill(0);
+  const rewardSums = new Array(A).fill(0);
+  const defenderLogWeights = new Array(A).fill(0);
+  const jammerLogWeights = new Array(N).fill(0);
+  const noJamming = new Array(N).fill(0);
+  
+  // Cumulative counterfactual payoffs of every fixed action, for the regret
+  const armTotals = new Array(A).fill(0);
+  const suppressionTotals = new Array(N).fill(0);
+  let defenderTotal = 0;
+  let jammerTotal = 0;
+  
+  const realCounts = new Array(N).fill(0);
+  const decoyCounts = new Array(N).fill(0);
+  const targetCounts = new Array(N).fill(0);
+  const records: OnlineRoundRecord[] = [];
+  
+  for (let t = 0; t < rounds; t++) {
+    const gains = baseParams.gainTrace ? traceSlot(baseParams.gainTrace, t) : { h: [h], g: [g] };
+    const rate = (layout: Layout, i: number, yi: number) =>
+      calculateRate(layout.x[i], yi, gains.h[0][i], gains.g[0][i], sigma2, B[i]);
+    const realUtility = (layout: Layout, y: number[]) =>
+      layout.channelTypes.reduce((sum, type, i) => type === 'real' ? sum + rate(layout, i, y[i]) : sum, 0);
+    
+    // Defender picks an arm
+    let arm: number;
+    let defenderP: number[] | null = null;
+    if (defenderLearner === 'ucb') {
+      const unplayed = plays.indexOf(0);
+      arm = unplayed >= 0
+        ? unplayed
+        : argMax(plays.map((n, a) => rewardSums[a] / n + Math.sqrt((2 * Math.log(t)) / n)));
+    } else {
+      defenderP = exp3Probabilities(defenderLogWeights, defenderGamma);
+      arm = sampleIndex(defenderP, random);
+    }
+    
+    // Jammer picks its targets
+    const jammerP = exp3Probabilities(jammerLogWeights, jammerGamma);
+    const targets = sampleDistinct(jammerP, K, random);
+    const y = new Array(N).fill(0);
+    for (const i of targets) {
+      y[i] = PJ / K;
+    }
+    
+    // Defender feedback, normalized by the best unjammed arm this round
+    const armU = layouts.map(layout => realUtility(layout, y));
+    const rewardScale = Math.max(...layouts.map(layout => realUtility(layout, noJamming))) || 1;
+    const defenderReward = Math.min(1, armU[arm] / rewardScale);
+    if (defenderP) {
+      defenderLogWeights[arm] += (defenderGamma * defenderReward) / (defenderP[arm] * A);
+    } else {
+      plays[arm]++;
+      rewardSums[arm] += defenderReward;
+    }
+    
+    // Jammer feedback: rate suppressed per channel, normalized by the best clean channel
+    const layout = layouts[arm];
+    const suppression = layout.x.map((_, i) => rate(layout, i, 0) - rate(layout, i, PJ / K));
+    const suppressionScale = Math.max(...layout.x.map((_, i) => rate(layout, i, 0))) || 1;
+    for (const i of targets) {
+      // Inclusion probability of a k-of-N draw, approximated by k * p
+      const inclusion = Math.min(1, K * jammerP[i]);
+      jammerLogWeights[i] += (jammerGamma * suppression[i]) / (suppressionScale * inclusion * N);
+    }
+    
+    const U_real = armU[arm];
+    const jammerReward = targets.reduce((sum, i) => sum + suppression[i], 0);
+    armU.forEach((u, a) => {
+      armTotals[a] += u;
+    });
+    suppression.forEach((v, i) => {
+      suppressionTotals[i] += v;
+    });
+    defenderTotal += U_real;
+    jammerTotal += jammerReward;
+    const bestTargetsTotal = [...suppressionTotals]
+      .sort((a, b) => b - a)
+      .slice(0, K)
+      .reduce((sum, v) => sum + v, 0);
+    
+    layout.channelTypes.forEach((type, i) => {
+      if (type === 'real') realCounts[i]++;
+      else if (type === 'decoy') decoyCounts[i]++;
+    });
+    for (const i of targets) {
+      targetCounts[i]++;
+    }
+    
+    records.push({
+      round: t,
+      U_real,
+      jammerReward,
+      arm,
+      targets,
+      jammerOnReal: PJ > 0 ? targets.filter(i => layout.channelTypes[i] === 'real').length / K : 0,
+      defenderRegret: Math.max(...armTotals) - defenderTotal,
+      jammerRegret: bestTargetsTotal - jammerTotal,
+    });
+  }
+  
+  const share = (count: number) => (rounds > 0 ? count / rounds : 0);
+  const armCounts = new Array(A).fill(0);
+  for (const record of records) {
+    armCounts[record.arm]++;
+  }
+  
+  return {
+    rounds: records,
+    averageU_real: share(defenderTotal),
+    oneShotU_real,
+    arms: layouts.map(armOf),
+    armFrequencies: armCounts.map(share),
+    realFrequencies: realCounts.map(share),
+    decoyFrequencies: decoyCounts.map(share),
+    targetFrequencies: targetCounts.map(share),
+    bestFixedArm: argMax(armTotals),
+    bestFixedTargets: suppressionTotals
+      .map((v, i) => ({ v, i }))
+      .sort((a, b) => b.v - a.v)
+      .slice(0, K)
+      .map(entry => entry.i)
+      .sort((a, b) => a - b),
+  };
+}
@@ -0,0 +1,123 @@
+import type { JammerPattern, JammerPatternConfig } from './types.ts';
+
+// ============ PATTERN JAMMERS ============
+//
+// J4-J6 do not pick a single allocation per shot; they follow a pattern over
+// the slot, described as phases (allocation + share of time). Utilities are
+// expectations over the phases and the reported y is the time average.
+//   sweep:        cycles through consecutive blocks of channels, blind to sensing;
+//                 attacker m starts m blocks ahead so several sweepers cover the band
+//   randomSubset: hits a uniformly random subset each slot, blind to sensing
+//   reactive:     senses for a dwell fraction of the slot, then jams what it sensed
+// Band-limited attackers sweep and draw only among the channels they reach.
+
+export const DEFAULT_BLOCK_SIZE = 4;
+export const DEFAULT_SUBSET_SIZE = 4;
+const DEFAULT_SUBSET_DRAWS = 50;
+const DEFAULT_DWELL = 0.3;
+const PHASE_EPSILON = 1e-12;  // Phase boundaries closer than this coincide
+
+type Random = () => number;
+
+export interface JammerPhase {
+  y: number[];
+  weight: number;  // Share of the slot
+}
+
+export function jammerPatternOf(mode: string): JammerPattern | null {
+  switch (mode) {
+    case 'J4': case 'J4_sweep': return 'sweep';
+    case 'J5': case 'J5_randomSubset': return 'randomSubset';
+    case 'J6': case 'J6_reactive': return 'reactive';
+    default: return null;
+  }
+}
+
+function spread(channels: number[], PJ: number, N: number): number[] {
+  const y = new Array(N).fill(0);
+  for (const i of channels) {
+    y[i] = PJ / channels.length;
+  }
+  return y;
+}
+
+export function jammerPhases(
+  pattern: JammerPattern,
+  config: JammerPatternConfig | undefined,
+  activeSet: number[],
+  PJ: number,
+  N: number,
+  random: Random,
+  attacker: number = 0,
+  reachable: number[] = Array.from({ length: N }, (_, i) => i)
+): JammerPhase[] {
+  const R = reachable.length;
+  switch (pattern) {
+    case 'sweep': {
+      const blockSize = Math.min(R, Math.max(1, Math.round(config?.blockSize ?? DEFAULT_BLOCK_SIZE)));
+      const blocks = Math.ceil(R / blockSize);
+      return Array.from({ length: blocks }, (_, k) => {
+        const start = ((k + attacker) % blocks) * blockSize;
+        return { y: spread(reachable.slice(start, start + blockSize), PJ, N), weight: 1 / blocks };
+      });
+    }
+    case 'randomSubset': {
+      const subsetSize = Math.min(R, Math.max(1, Math.round(config?.subsetSize ?? DEFAULT_SUBSET_SIZE)));
+      const draws = Math.max(1, Math.round(config?.draws ?? DEFAULT_SUBSET_DRAWS));
+      return Array.from({ length: draws }, () => {
+        const channels = [...reachable];
+        for (let i = 0; i < subsetSize; i++) {
+          const j = i + Math.floor(random() * (R - i));
+          [channels[i], channels[j]] = [channels[j], channels[i]];
+        }
+        return { y: spread(channels.slice(0, subsetSize), PJ, N), weight: 1 / draws };
+      });
+    }
+    case 'reactive': {
+      const dwell = Math.min(1, Math.max(0, config?.dwell ?? DEFAULT_DWELL));
+      const silent = new Array(N).fill(0);
+      if (dwell >= 1 || activeSet.length === 0) {
+        return [{ y: silent, weight: 1 }];
+      }
+      return [
+        { y: silent, weight: dwell },
+        { y: spread(activeSet, PJ, N), weight: 1 - dwell },
+      ];
+    }
+  }
+}
+
+export function averagePhases(phases: JammerPhase[], N: number): number[] {
+  const y = new Array(N).fill(0);
+  for (const phase of phases) {
+    for (let i = 0; i < N; i++) {
+      y[i] += phase.weight * phase.y[i];
+    }
+  }
+  return y;
+}
+
+// Joint phases of several attackers sharing the slot. The slot is cut at every
+// attacker's phase boundary, so patterns with equal phases stay in lockstep and
+// attackers with fewer reachable channels (shorter sweeps) still line up in time.
+export function alignPhases(phases: JammerPhase[][], N: number): { y: number[][]; weight: number }[] {
+  const slots = phases.map(p => p.length > 0 ? p : [{ y: new Array(N).fill(0), weight: 1 }]);
+  const index = slots.map(() => 0);
+  const ends = slots.map(p => p[0].weight);
+  const joint: { y: number[][]; weight: number }[] = [];
+  let t = 0;
+  while (slots.every((p, m) => index[m] < p.length)) {
+    const next = Math.min(...ends);
+    if (next - t > PHASE_EPSILON) {
+      joint.push({ y: slots.map((p, m) => p[index[m]].y), weight: next - t });
+    }
+    t = next;
+    slots.forEach((p, m) => {
+      if (ends[m] - t <= PHASE_EPSILON) {
+        index[m]++;
+        ends[m] += p[index[m]]?.weight ?? 0;
+      }
+    });
+  }
+  return joint;
+}
@@ -0,0 +1,68 @@
+import type { PlacementConfig } from './types.ts';
+
+// ============ RANDOMIZED REAL/DECOY PLACEMENT ============
+//
+// A placement is a permutation `perm` of the channel indices: perm[0..NR-1]
+// carry real traffic, perm[NR..NR+ND-1] are decoys and the rest stay idle,
+// i.e. the fixed layout of D1-D3 is the identity permutation.
+// Random placements draw the NR + ND used channels uniformly among the
+// subsets of `band` whose indices are at least `minSpacing` apart, then pick
+// which of them are real uniformly at random.
+
+const DEFAULT_PLACEMENT_DRAWS = 100;
+
+type Random = () => number;
+
+export function isRandomPlacement(placement?: PlacementConfig): placement is PlacementConfig {
+  return placement !== undefined && placement.mode === 'random';
+}
+
+export function placementDraws(placement: PlacementConfig): number {
+  return Math.max(1, Math.round(placement.draws ?? DEFAULT_PLACEMENT_DRAWS));
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Fisher-Yates shuffle of the channel indices
+export function randomPermutation(N: number, random: Random): number[] {
+  return shuffle(Array.from({ length: N }, (_, i) => i), random);
+}
+
+export function samplePlacement(
+  N: number,
+  NR: number,
+  ND: number,
+  placement: PlacementConfig,
+  random: Random
+): number[] {
+  const used = NR + ND;
+  const spacing = Math.max(1, Math.round(placement.minSpacing ?? 1));
+  const [lo, hi] = placement.band ?? [0, N - 1];
+  const bandStart = Math.max(0, Math.min(lo, hi));
+  const bandLength = Math.min(N - 1, Math.max(lo, hi)) - bandStart + 1;
+
+  // Spaced subsets of the band map one-to-one onto plain subsets of a shorter range
+  const slots = bandLength - (used - 1) * (spacing - 1);
+  if (used > 0 && slots < used) {
+    throw new Error(
+      `Invalid placement: ${used} channels with spacing ${spacing} do not fit in band [${bandStart}, ${bandStart + bandLength - 1}]`
+    );
+  }
+
+  const chosen = shuffle(Array.from({ length: Math.max(0, slots) }, (_, i) => i), random)
+    .slice(0, used)
+    .sort((a, b) => a - b)
+    .map((c, j) => bandStart + c + j * (spacing - 1));
+
+  const roles = shuffle(chosen, random);
+  const usedSet = new Set(roles);
+  const idle = Array.from({ length: N }, (_, i) => i).filter(i => !usedSet.has(i));
+  return [...roles, ...idle];
+}
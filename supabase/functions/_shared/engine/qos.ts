@@ -0,0 +1,74 @@
+import type { QoSReport } from './types.ts';
+
+// ============ MINIMUM-RATE QOS ============
+//
+// A real channel with rate floor r_i needs SINR_i >= 2^(r_i / B_i) - 1, i.e.
+//   x_i >= (2^(r_i / B_i) - 1) I_i / h_i
+// against the interference I_i (noise, co-channel power and jamming) the
+// defender anticipates. When the budget cannot cover every floor at once the
+// cheapest floors are met first and the others are given up, so that as many
+// links as possible keep their floor.
+
+const QOS_TOLERANCE = 1e-6;    // Rate slack still counted as meeting the floor
+const POWER_TOLERANCE = 1e-6;  // Power shortfall still counted as feasible
+
+export function floorPower(minRate: number, B: number, interference: number, h: number): number {
+  if (minRate <= 0) return 0;
+  if (h <= 0 || B <= 0) return Infinity;
+  return ((2 ** (minRate / B) - 1) * interference) / h;
+}
+
+// Floors the budget covers, cheapest first; the rest drop to 0
+export function affordableFloors(channels: number[], required: number[], budget: number): number[] {
+  const floors = new Array(required.length).fill(0);
+  let remaining = budget;
+  for (const i of [...channels].sort((a, b) => required[a] - required[b])) {
+    if (required[i] > remaining) break;
+    floors[i] = required[i];
+    remaining -= required[i];
+  }
+  return floors;
+}
+
+// Shift power among `channels` until every affordable floor is met; channels
+// above their floor give up their surplus in proportion to it
+export function liftToFloors(x: number[], channels: number[], required: number[]): number[] {
+  const budget = channels.reduce((sum, i) => sum + x[i], 0);
+  const floors = affordableFloors(channels, required, budget);
+  const deficit = channels.reduce((sum, i) => sum + Math.max(0, floors[i] - x[i]), 0);
+  if (deficit <= 0) return x;
+  
+  const surplus = channels.reduce((sum, i) => sum + Math.max(0, x[i] - floors[i]), 0);
+  const keep = surplus > 0 ? Math.max(0, 1 - deficit / surplus) : 0;
+  const result = [...x];
+  for (const i of channels) {
+    result[i] = x[i] <= floors[i] ? floors[i] : floors[i] + (x[i] - floors[i]) * keep;
+  }
+  return result;
+}
+
+// Power the floors need from one budget, against what that budget has left
+// for the real channels (one group per defender)
+export interface FloorBudget {
+  required: number[];
+  available: number;
+}
+
+// `minRate` and `rates` are per channel; channels without a floor are left
+// out, and so are floors no power can reach (they make the set infeasible)
+export function buildQoSReport(minRate: number[], rates: number[], budgets: FloorBudget[]): QoSReport {
+  const channels = minRate.flatMap((floor, channel) => floor > 0
+    ? [{ channel, minRate: floor, rate: rates[channel], satisfied: rates[channel] >= floor - QOS_TOLERANCE }]
+    : []
+  );
+  const needed = budgets.map(b => b.required.reduce((sum, p) => Number.isFinite(p) ? sum + p : sum, 0));
+  return {
+    channels,
+    satisfiedCount: channels.filter(c => c.satisfied).length,
+    feasible: budgets.every((b, k) =>
+      b.required.every(Number.isFinite) && needed[k] <= b.available + POWER_TOLERANCE
+    ),
+    requiredPower: needed.reduce((sum, p) => sum + p, 0),
+    availablePower: budgets.reduce((sum, b) => sum + b.available, 0),
+  };
+}
@@ -0,0 +1,23 @@
+import type { JammerReach } from './types.ts';
+
+// ============ JAMMER REACHABILITY ============
+//
+// An attacker can only put power on the channels it reaches: every channel by
+// default, an explicit mask (antenna coverage), or a contiguous sub-band of
+// `bandWidth` channels starting at `bandStart` (a jammer tuned to part of the
+// spectrum). The band is clipped to the N channels.
+
+export function reachableChannels(reach: JammerReach | undefined, N: number): number[] {
+  const all = Array.from({ length: N }, (_, i) => i);
+  switch (reach?.mode) {
+    case 'mask':
+      return all.filter(i => reach.mask?.[i] !== false);
+    case 'band': {
+      const start = Math.max(0, Math.min(N - 1, Math.round(reach.bandStart ?? 0)));
+      const width = Math.max(1, Math.round(reach.bandWidth ?? N));
+      return all.filter(i => i >= start && i < start + width);
+    }
+    default:
+      return all;
+  }
+}
@@ -0,0 +1,165 @@
+import type {
+  RepeatedGameParams,
+  RepeatedGameResult,
+  SlotRecord,
+} from './types.ts';
+import { gaussian, seededRandom } from './random.ts';
+import { detectionProbability, sensingThreshold } from './sensing.ts';
+import { isRandomPlacement, randomPermutation, samplePlacement } from './placement.ts';
+import { allocatePlacement, calculateRate, runSimulation } from './single.ts';
+import { estimatedGains } from './csi.ts';
+import { traceSlot } from './traces.ts';
+
+// ============ REPEATED GAME WITH A LEARNING JAMMER ============
+//
+// Each slot the defender transmits with its policy (D1-D3), the jammer senses
+// the active set and attacks the channels it believes most likely to be real.
+// Jammed channels return a noisy "real traffic" feedback bit, which the
+// jammer folds into a Beta(a, b) belief per channel. The defender can move
+// its real/decoy roles to fresh channels every `reshuffleInterval` slots
+// (drawn from `baseParams.placement` when it is random), which invalidates
+// what the jammer has learned. With a measured gain trace, slot t is rated
+// on trace slot t mod T.
+
+const DEFAULT_PRIOR_REAL = 0.5;
+const PRIOR_STRENGTH = 2;  // Pseudo-observations behind the prior
+
+type Random = () => number;
+
+// Marsaglia-Tsang gamma sampler (shape boosted below 1)
+function sampleGamma(shape: number, random: Random): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(Math.max(random(), 1e-12), 1 / shape);
+  }
+  
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const z = gaussian(random);
+    const v = Math.pow(1 + c * z, 3);
+    if (v <= 0) continue;
+    const u = random();
+    if (Math.log(Math.max(u, 1e-12)) < 0.5 * z * z + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+function sampleBeta(a: number, b: number, random: Random): number {
+  const x = sampleGamma(a, random);
+  const y = sampleGamma(b, random);
+  return x / (x + y);
+}
+
+export function runRepeatedGame(params: RepeatedGameParams): RepeatedGameResult {
+  const { baseParams, slots, learner, reshuffleInterval } = params;
+  const { N, PJ, sigma2, h, g, topK = 3 } = baseParams;
+  const B = baseParams.B || new Array(N).fill(1);
+  const observationNoise = params.observationNoise ?? 0;
+  const discount = params.discount ?? 1;
+  const priorReal = Math.min(0.99, Math.max(0.01, params.priorReal ?? DEFAULT_PRIOR_REAL));
+  
+  // Also validates the configuration (throws on infeasible ND / tau)
+  const oneShotU_real = runSimulation(baseParams).U_real;
+  
+  const random = seededRandom(baseParams.seed ?? 1);
+  const alpha0 = PRIOR_STRENGTH * priorReal;
+  const beta0 = PRIOR_STRENGTH * (1 - priorReal);
+  const evidenceReal = new Array(N).fill(0);
+  const evidenceDecoy = new Array(N).fill(0);
+  const belief = (i: number) =>
+    (alpha0 + evidenceReal[i]) / (alpha0 + beta0 + evidenceReal[i] + evidenceDecoy[i]);
+  
+  // The defender allocates on its own channel estimates
+  const defenderParams = { ...baseParams, ...estimatedGains(baseParams, 'defender') };
+  let perm = Array.from({ length: N }, (_, i) => i);
+  let allocation = allocatePlacement(defenderParams, perm);
+  
+  const records: SlotRecord[] = [];
+  const beliefs: number[][] = [];
+  let firstDiscoverySlot: number | null = null;
+  
+  for (let t = 0; t < slots; t++) {
+    const reshuffled = t > 0 && reshuffleInterval > 0 && t % reshuffleInterval === 0;
+    if (reshuffled) {
+      perm = isRandomPlacement(baseParams.placement)
+        ? samplePlacement(N, baseParams.NR, baseParams.ND, baseParams.placement, random)
+        : randomPermutation(N, random);
+      allocation = allocatePlacement(defenderParams, perm);
+    }
+    const { x, channelTypes } = allocation;
+    
+    // Jammer senses the active set (one draw per slot under energy sensing)
+    const activeSet = x
+      .map((xi, i) => (random() < detectionProbability(xi, sensingThreshold(baseParams, 0, i), baseParams.sensing) ? i : -1))
+      .filter(i => i >= 0);
+    
+    // Score active channels and attack the top K
+    const scores = new Map<number, number>();
+    for (const i of activeSet) {
+      if (learner === 'ucb') {
+        const n = evidenceReal[i] + evidenceDecoy[i];
+        scores.set(i, n > 0 ? belief(i) + Math.sqrt((2 * Math.log(t + 1)) / n) : Infinity);
+      } else {
+        // Thompson sampling from the Beta posterior
+        scores.set(i, sampleBeta(alpha0 + evidenceReal[i], beta0 + evidenceDecoy[i], random));
+      }
+    }
+    const targets = [...activeSet]
+      .sort((i, j) => (scores.get(j) ?? 0) - (scores.get(i) ?? 0))
+      .slice(0, Math.min(topK, activeSet.length));
+    
+    const y = new Array(N).fill(0);
+    for (const i of targets) {
+      y[i] = PJ / targets.length;
+    }
+    
+    const gains = baseParams.gainTrace ? traceSlot(baseParams.gainTrace, t) : { h: [h], g: [g] };
+    const rates = x.map((xi, i) => calculateRate(xi, y[i], gains.h[0][i], gains.g[0][i], sigma2, B[i]));
+    const U_real = channelTypes.reduce((sum, type, i) => type === 'real' ? sum + rates[i] : sum, 0);
+    const U_jammer = activeSet.reduce((sum, i) => sum + rates[i], 0);
+    const realChannels = channelTypes.map((type, i) => type === 'real' ? i : -1).filter(i => i >= 0);
+    const decoyChannels = channelTypes.map((type, i) => type === 'decoy' ? i : -1).filter(i => i >= 0);
+    const jammerOnReal = PJ > 0 && targets.length > 0
+      ? realChannels.reduce((sum, i) => sum + y[i], 0) / PJ
+      : 0;
+    
+    // Belief update from noisy feedback on the jammed channels
+    for (let i = 0; i < N; i++) {
+      evidenceReal[i] *= discount;
+      evidenceDecoy[i] *= discount;
+    }
+    for (const i of targets) {
+      const isReal = channelTypes[i] === 'real';
+      const observedReal = random() < observationNoise ? !isReal : isReal;
+      if (observedReal) {
+        evidenceReal[i] += 1;
+      } else {
+        evidenceDecoy[i] += 1;
+      }
+    }
+    
+    const slotBeliefs = Array.from({ length: N }, (_, i) => belief(i));
+    beliefs.push(slotBeliefs);
+    
+    // Discovered once every real channel outranks every decoy in the jammer's beliefs
+    const discovered = decoyChannels.length === 0 || (
+      realChannels.length > 0 &&
+      Math.min(...realChannels.map(i => slotBeliefs[i])) > Math.max(...decoyChannels.map(i => slotBeliefs[i]))
+    );
+    if (discovered && firstDiscoverySlot === null) {
+      firstDiscoverySlot = t;
+    }
+    
+    records.push({ slot: t, U_real, U_jammer, realChannels, decoyChannels, targets, jammerOnReal, reshuffled, discovered });
+  }
+  
+  return {
+    slots: records,
+    beliefs,
+    oneShotU_real,
+    averageU_real: records.length > 0 ? records.reduce((s, r) => s + r.U_real, 0) / records.length : 0,
+    firstDiscoverySlot,
+    deceptionEffectiveSlots: records.filter(r => !r.discovered).length,
+  };
+}
@@ -0,0 +1,153 @@
+import type { ChannelConfig, EquilibriumParams, JammerReach, SweepVariable } from './types.ts';
+
+// Scenario transforms shared by the equilibrium solver and the equilibrium sweep.
+// Every per-player and per-channel array follows the new D, M or N; entries
+// the sweep adds take the value a missing entry means to the solver.
+
+// First `length` entries, padded with `fill`
+function resize<T>(values: T[], length: number, fill: T): T[] {
+  if (length > values.length) return [...values, ...Array(length - values.length).fill(fill)];
+  return values.slice(0, length);
+}
+
+function resizeGainRows(rows: number[][], N: number): number[][] {
+  return rows.map(row => resize(row, N, 1));
+}
+
+// First `count` per-player rows of N entries, new ones filled with `fill`
+function resizePlayerRows(rows: number[][], count: number, N: number, fill: number): number[][] {
+  return Array.from({ length: count }, (_, k) => rows[k] ? [...rows[k]] : Array(N).fill(fill));
+}
+
+// Masks follow N (new channels are reachable); bands are kept inside it
+function resizeReach(reach: JammerReach, N: number): JammerReach {
+  return {
+    ...reach,
+    mask: reach.mask && resize(reach.mask, N, true),
+    bandStart: reach.bandStart === undefined ? undefined : Math.min(reach.bandStart, N - 1),
+    bandWidth: reach.bandWidth === undefined ? undefined : Math.min(reach.bandWidth, N),
+  };
+}
+
+export function modifyParamsForSweep(
+  baseParams: EquilibriumParams,
+  variable: SweepVariable,
+  value: number
+): EquilibriumParams {
+  const newParams: EquilibriumParams = {
+    ...baseParams,
+    PT: [...baseParams.PT],
+    PJ: [...baseParams.PJ],
+    h: baseParams.h.map(row => [...row]),
+    g: baseParams.g.map(row => [...row]),
+    B: baseParams.B && [...baseParams.B],
+    channelConfig: baseParams.channelConfig.map(c => ({ ...c })),
+  };
+  
+  switch (variable) {
+    case 'ND': {
+      // Keep real channels, turn the first `value` non-real channels into decoys
+      const realCount = baseParams.channelConfig.filter(c => c.type === 'real').length;
+      const targetDecoys = Math.min(Math.round(value), baseParams.N - realCount);
+      
+      let currentDecoys = 0;
+      newParams.channelConfig = baseParams.channelConfig.map(c => {
+        if (c.type === 'real') return { ...c };
+        if (currentDecoys < targetDecoys) {
+          currentDecoys++;
+          return { ...c, type: 'decoy' as const };
+        }
+        return { ...c, type: 'inactive' as const };
+      });
+      break;
+    }
+    case 'tau':
+      newParams.tau = value;
+      // Per-attacker thresholds scale with the nominal tau
+      newParams.tauMatrix = baseParams.tauMatrix?.map(row =>
+        row.map(t => baseParams.tau > 0 ? (t * value) / baseParams.tau : value)
+      );
+      break;
+    case 'N': {
+      newParams.gainTrace = undefined;  // A measured trace only fits the base dimensions
+      const newN = Math.max(4, Math.round(value));
+      if (newN !== baseParams.N) {
+        newParams.N = newN;
+        newParams.h = resizeGainRows(baseParams.h, newN);
+        newParams.g = resizeGainRows(baseParams.g, newN);
+        newParams.tauMatrix = baseParams.tauMatrix?.map(row => resize(row, newN, baseParams.tau));
+        newParams.minRate = baseParams.minRate && resize(baseParams.minRate, newN, 0);
+        newParams.B = baseParams.B && resize(baseParams.B, newN, 1);
+        newParams.reach = baseParams.reach?.map(reach => resizeReach(reach, newN));
+        newParams.jammerLimits = baseParams.jammerLimits?.map(limits =>
+          limits.maxChannels === undefined ? limits : { ...limits, maxChannels: Math.min(limits.maxChannels, newN) }
+        );
+        if (newN > baseParams.channelConfig.length) {
+          const additional: ChannelConfig[] = Array.from(
+            { length: newN - baseParams.channelConfig.length },
+            (_, i) => ({ type: 'inactive' as const, owner: i % baseParams.D })
+          );
+          newParams.channelConfig = [...newParams.channelConfig, ...additional];
+        } else {
+          newParams.channelConfig = newParams.channelConfig.slice(0, newN);
+        }
+      }
+      break;
+    }
+    case 'M': {
+      newParams.gainTrace = undefined;  // A measured trace only fits the base dimensions
+      const newM = Math.max(1, Math.round(value));
+      newParams.M = newM;
+      newParams.PJ = resize(baseParams.PJ, newM, 10);
+      newParams.g = resizePlayerRows(baseParams.g, newM, baseParams.N, 1);
+      newParams.tauMatrix = baseParams.tauMatrix && resizePlayerRows(baseParams.tauMatrix, newM, baseParams.N, baseParams.tau);
+      newParams.jammerLimits = baseParams.jammerLimits && resize(baseParams.jammerLimits, newM, {});
+      newParams.reach = baseParams.reach && resize(baseParams.reach, newM, { mode: 'all' });
+      newParams.csi = baseParams.csi && {
+        ...baseParams.csi,
+        jammerErrorVariance: resize(baseParams.csi.jammerErrorVariance, newM, 0),
+      };
+      break;
+    }
+    case 'D': {
+      newParams.gainTrace = undefined;  // A measured trace only fits the base dimensions
+      const newD = Math.max(1, Math.round(value));
+      newParams.D = newD;
+      newParams.PT = resize(baseParams.PT, newD, 10);
+      newParams.h = resizePlayerRows(baseParams.h, newD, baseParams.N, 1);
+      // A missing peak is the defender's whole budget
+      newParams.defenderPeakPower = baseParams.defenderPeakPower &&
+        newParams.PT.map((pt, d) => baseParams.defenderPeakPower?.[d] ?? pt);
+      newParams.csi = baseParams.csi && {
+        ...baseParams.csi,
+        defenderErrorVariance: resize(baseParams.csi.defenderErrorVariance, newD, 0),
+      };
+      // Reassign orphaned channels and drop removed defenders from shared ones
+      newParams.channelConfig = newParams.channelConfig.map(c => {
+        const owner = c.owner >= newD ? c.owner % newD : c.owner;
+        const sharedWith = c.sharedWith?.filter(s => s.defender < newD && s.defender !== owner);
+        return sharedWith ? { ...c, owner, sharedWith } : { ...c, owner };
+      });
+      break;
+    }
+    case 'PJ': {
+      // Distribute value evenly across attackers
+      const perAttacker = value / baseParams.M;
+      newParams.PJ = Array(baseParams.M).fill(perAttacker);
+      break;
+    }
+  }
+  
+  return newParams;
+}
+
+export function getSweepVariableValue(params: EquilibriumParams, variable: SweepVariable): number {
+  switch (variable) {
+    case 'ND': return params.channelConfig.filter(c => c.type === 'decoy').length;
+    case 'tau': return params.tau;
+    case 'N': return params.N;
+    case 'M': return params.M;
+    case 'D': return params.D;
+    case 'PJ': return params.PJ.reduce((s, p) => s + p, 0);
+  }
+}
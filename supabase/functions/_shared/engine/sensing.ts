@@ -0,0 +1,84 @@
+import type { SensingConfig, SensingReport } from './types.ts';
+import { seededRandom } from './random.ts';
+
+// ============ JAMMER SENSING MODEL ============
+//
+// threshold: channel i is sensed active iff x_i >= tau (deterministic).
+//            With a tauMatrix, attacker m compares against tau[m][i] instead.
+// energy:    energy detector averaging `window` samples of signal + noise.
+//            With the Gaussian approximation the statistic has mean P + σn²
+//            and std (P + σn²)/√L; the decision threshold is λ = τ + σn², so
+//            a channel at exactly τ is detected half of the time and the
+//            threshold model is recovered as L → ∞.
+
+export const DEFAULT_SENSING_SAMPLES = 200;
+const DEFAULT_SENSING_SEED = 1;
+
+// Complementary error function (Numerical Recipes erfcc, |error| < 1.2e-7)
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(
+    -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+}
+
+// Gaussian tail probability Q(x) = P(Z > x)
+export function qFunction(x: number): number {
+  return 0.5 * erfc(x / Math.SQRT2);
+}
+
+export function isProbabilisticSensing(sensing?: SensingConfig): sensing is SensingConfig {
+  return sensing !== undefined && sensing.model === 'energy';
+}
+
+// Attacker m's threshold on channel i: its entry of tauMatrix, else the scalar tau
+export function sensingThreshold(params: { tau: number; tauMatrix?: number[][] }, m: number, i: number): number {
+  return params.tauMatrix?.[m]?.[i] ?? params.tau;
+}
+
+export function detectionProbability(power: number, tau: number, sensing?: SensingConfig): number {
+  if (!isProbabilisticSensing(sensing)) {
+    return power >= tau ? 1 : 0;
+  }
+  
+  const noise = sensing.noisePower;
+  const lambda = tau + noise;
+  const mean = Math.max(0, power) + noise;
+  return qFunction(((lambda - mean) * Math.sqrt(sensing.window)) / mean);
+}
+
+export function falseAlarmProbability(tau: number, sensing?: SensingConfig): number {
+  return detectionProbability(0, tau, sensing);
+}
+
+export function buildSensingReport(pd: number[], pfa: number[]): SensingReport {
+  return {
+    pd,
+    pfa,
+    expectedActiveCount: pd.reduce((s, p) => s + p, 0),
+  };
+}
+
+/**
+ * Draws random sensed active sets from per-channel detection probabilities.
+ * The uniforms are drawn once per (sample, channel) from a seeded stream, so
+ * repeated calls with slightly different probabilities give nearby sets
+ * (common random numbers), which keeps iterative solvers stable.
+ */
+export function createActiveSetSampler(
+  N: number,
+  sensing: SensingConfig,
+  seed: number = DEFAULT_SENSING_SEED
+): (pd: number[]) => number[][] {
+  const samples = Math.max(1, Math.round(sensing.samples ?? DEFAULT_SENSING_SAMPLES));
+  const random = seededRandom(seed);
+  const uniforms = Array.from({ length: samples }, () =>
+    Array.from({ length: N }, () => random())
+  );
+  
+  return (pd: number[]) =>
+    uniforms.map(row => row.map((u, i) => (u < pd[i] ? i : -1)).filter(i => i >= 0));
+}
@@ -0,0 +1,618 @@
+import type {
+  ChannelType,
+  KKTReport,
+  KKTResiduals,
+  PlacementConfig,
+  QoSReport,
+  SimulationParams,
+  SingleRunResult,
+  SweepParams,
+  SweepPointStats,
+  SweepResult,
+} from './types.ts';
+import {
+  buildSensingReport,
+  createActiveSetSampler,
+  detectionProbability,
+  falseAlarmProbability,
+  isProbabilisticSensing,
+  sensingThreshold,
+} from './sensing.ts';
+import { isRandomPlacement, placementDraws, samplePlacement } from './placement.ts';
+import { seededRandom } from './random.ts';
+import { estimatedGains, hasImperfectCSI } from './csi.ts';
+import { defenderResiduals, jammerBestResponse, jammerResiduals, waterFill } from './kkt.ts';
+import { averagePhases, jammerPatternOf, jammerPhases } from './patterns.ts';
+import type { JammerPhase } from './patterns.ts';
+import { generateRandomChannelGains } from './gains.ts';
+import { monteCarloConfidence, realizationSeeds, summarize } from './monteCarlo.ts';
+import { traceSlot } from './traces.ts';
+import { affordableFloors, buildQoSReport, floorPower, liftToFloors } from './qos.ts';
+
+export function calculateRate(x_i: number, y_i: number, h_i: number, g_i: number, sigma2: number, B_i: number = 1): number {
+  if (x_i <= 0) return 0;
+  const sinr = (x_i * h_i) / (sigma2 + y_i * g_i);
+  return B_i * Math.log2(1 + sinr);
+}
+
+export function calculateSINR(x_i: number, y_i: number, h_i: number, g_i: number, sigma2: number): number {
+  if (x_i <= 0) return 0;
+  return (x_i * h_i) / (sigma2 + y_i * g_i);
+}
+
+// ============ SINGLE PLAYER SIMULATION ============
+
+function defenderPolicyD1(params: SimulationParams): { x: number[], channelTypes: ChannelType[] } {
+  const { N, NR, ND, PT, tau } = params;
+  const x = new Array(N).fill(0);
+  const channelTypes: ChannelType[] = new Array(N).fill('inactive');
+  
+  const realIndices = Array.from({ length: NR }, (_, i) => i);
+  const decoyIndices = Array.from({ length: ND }, (_, i) => NR + i);
+  
+  const decoyPower = tau;
+  const totalDecoyPower = ND * decoyPower;
+  const remainingPower = Math.max(0, PT - totalDecoyPower);
+  const realPower = NR > 0 ? remainingPower / NR : 0;
+  
+  for (const i of realIndices) {
+    x[i] = realPower;
+    channelTypes[i] = 'real';
+  }
+  
+  for (const i of decoyIndices) {
+    x[i] = decoyPower;
+    channelTypes[i] = 'decoy';
+  }
+  
+  return { x, channelTypes };
+}
+
+function defenderPolicyD2(params: SimulationParams): { x: number[], channelTypes: ChannelType[] } {
+  const { N, NR, ND, PT } = params;
+  const x = new Array(N).fill(0);
+  const channelTypes: ChannelType[] = new Array(N).fill('inactive');
+  
+  const totalActive = NR + ND;
+  const powerPerChannel = totalActive > 0 ? PT / totalActive : 0;
+  
+  const realIndices = Array.from({ length: NR }, (_, i) => i);
+  const decoyIndices = Array.from({ length: ND }, (_, i) => NR + i);
+  
+  for (const i of realIndices) {
+    x[i] = powerPerChannel;
+    channelTypes[i] = 'real';
+  }
+  
+  for (const i of decoyIndices) {
+    x[i] = powerPerChannel;
+    channelTypes[i] = 'decoy';
+  }
+  
+  return { x, channelTypes };
+}
+
+function defenderPolicyD3(params: SimulationParams): { x: number[], channelTypes: ChannelType[] } {
+  const { N, NR, ND, PT, tau, h, sigma2 } = params;
+  const x = new Array(N).fill(0);
+  const channelTypes: ChannelType[] = new Array(N).fill('inactive');
+  
+  const realIndices = Array.from({ length: NR }, (_, i) => i);
+  const decoyIndices = Array.from({ length: ND }, (_, i) => NR + i);
+  
+  for (const i of decoyIndices) {
+    x[i] = tau;
+    channelTypes[i] = 'decoy';
+  }
+  
+  const totalDecoyPower = ND * tau;
+  const remainingPower = Math.max(0, PT - totalDecoyPower);
+  const totalH = realIndices.reduce((sum, i) => sum + h[i], 0);
+  
+  for (const i of realIndices) {
+    x[i] = totalH > 0 ? (h[i] / totalH) * remainingPower : remainingPower / NR;
+    channelTypes[i] = 'real';
+  }
+  
+  return { x, channelTypes };
+}
+
+const D4_ITERATIONS = 50;
+const D4_DAMPING = 0.5;
+const D4_TOLERANCE = 1e-6;
+const QOS_ITERATIONS = 50;
+const QOS_TOLERANCE = 1e-6;
+
+// Power each real channel needs to reach its rate floor against the jamming y
+function realFloorPowers(params: SimulationParams, y: number[]): number[] {
+  const { N, NR, sigma2, h, g } = params;
+  const B = params.B || new Array(N).fill(1);
+  return Array.from({ length: N }, (_, i) =>
+    i < NR ? floorPower(params.minRate?.[i] ?? 0, B[i], sigma2 + y[i] * g[i], h[i]) : 0
+  );
+}
+
+/**
+ * D4: decoys at tau as in D3, real power water-filled against the jammer's
+ * response. Water-filling and the anticipated J1-J3 response (threshold
+ * sensing, on the gains the defender sees) alternate with damping until the
+ * real allocation settles. Rate floors enter the water-filling as per-channel
+ * lower bounds.
+ */
+function defenderPolicyD4(params: SimulationParams): { x: number[], channelTypes: ChannelType[] } {
+  const { N, NR, sigma2, h, g } = params;
+  const B = params.B || new Array(N).fill(1);
+  const { x, channelTypes } = defenderPolicyD3(params);
+  const realIndices = Array.from({ length: NR }, (_, i) => i);
+  const budget = realIndices.reduce((s, i) => s + x[i], 0);
+  const weights = new Array(N).fill(1);
+  
+  for (let iter = 0; iter < D4_ITERATIONS; iter++) {
+    const activeSet = x.map((xi, i) => xi >= sensingThreshold(params, 0, i) ? i : -1).filter(i => i >= 0);
+    const y = jammerAllocation(params, activeSet, x, h, g, weights);
+    const interference = y.map((yi, i) => sigma2 + yi * g[i]);
+    const floors = affordableFloors(realIndices, realFloorPowers(params, y), budget);
+    const filled = waterFill(realIndices, h, interference, B, budget, N, Infinity, floors);
+    
+    let change = 0;
+    for (const i of realIndices) {
+      const next = (1 - D4_DAMPING) * x[i] + D4_DAMPING * filled[i];
+      change = Math.max(change, Math.abs(next - x[i]));
+      x[i] = next;
+    }
+    if (change < D4_TOLERANCE) break;
+  }
+  
+  return { x, channelTypes };
+}
+
+/**
+ * Rate floors on top of the D1-D3 layouts: the real channels trade power
+ * until every affordable floor holds against the jammer response the
+ * defender anticipates (as in D4), repeated while that response moves.
+ */
+function enforceMinRates(
+  params: SimulationParams,
+  allocation: { x: number[], channelTypes: ChannelType[] }
+): { x: number[], channelTypes: ChannelType[] } {
+  const { N, NR, h, g } = params;
+  const realIndices = Array.from({ length: NR }, (_, i) => i);
+  const weights = new Array(N).fill(1);
+  let x = allocation.x;
+  
+  for (let iter = 0; iter < QOS_ITERATIONS; iter++) {
+    const activeSet = x.map((xi, i) => xi >= sensingThreshold(params, 0, i) ? i : -1).filter(i => i >= 0);
+    const y = jammerAllocation(params, activeSet, x, h, g, weights);
+    const next = liftToFloors(x, realIndices, realFloorPowers(params, y));
+    const change = realIndices.reduce((max, i) => Math.max(max, Math.abs(next[i] - x[i])), 0);
+    x = next;
+    if (change < QOS_TOLERANCE) break;
+  }
+  
+  return { x, channelTypes: allocation.channelTypes };
+}
+
+function policyAllocation(params: SimulationParams): { x: number[], channelTypes: ChannelType[] } {
+  switch (params.defenderPolicy) {
+    case 'D1': return defenderPolicyD1(params);
+    case 'D2': return defenderPolicyD2(params);
+    case 'D3': return defenderPolicyD3(params);
+    case 'D4': return defenderPolicyD4(params);
+    default: return defenderPolicyD1(params);
+  }
+}
+
+export function allocateDefender(params: SimulationParams): { x: number[], channelTypes: ChannelType[] } {
+  const allocation = policyAllocation(params);
+  // D4 already water-fills over the floors
+  return params.minRate && params.defenderPolicy !== 'D4' ? enforceMinRates(params, allocation) : allocation;
+}
+
+// Run the policy with its role layout mapped onto channels perm[0..N-1]
+export function allocatePlacement(params: SimulationParams, perm: number[]): { x: number[], channelTypes: ChannelType[] } {
+  const B = params.B || new Array(params.N).fill(1);
+  const permuted = allocateDefender({
+    ...params,
+    h: perm.map(c => params.h[c]),
+    g: perm.map(c => params.g[c]),
+    B: perm.map(c => B[c]),
+    minRate: params.minRate && perm.map(c => params.minRate?.[c] ?? 0),
+  });
+  
+  const x = new Array(params.N).fill(0);
+  const channelTypes: ChannelType[] = new Array(params.N).fill('inactive');
+  perm.forEach((channel, k) => {
+    x[channel] = permuted.x[k];
+    channelTypes[channel] = permuted.channelTypes[k];
+  });
+  return { x, channelTypes };
+}
+
+function jammerModeJ1(activeSet: number[], PJ: number, N: number, weights: number[]): number[] {
+  const y = new Array(N).fill(0);
+  
+  if (activeSet.length === 0) return y;
+  
+  const totalWeight = activeSet.reduce((sum, i) => sum + weights[i], 0);
+  for (const i of activeSet) {
+    y[i] = totalWeight > 0 ? (weights[i] / totalWeight) * PJ : PJ / activeSet.length;
+  }
+  
+  return y;
+}
+
+function jammerModeJ2(activeSet: number[], x: number[], g: number[], PJ: number, N: number, weights: number[], topK: number = 3): number[] {
+  const y = new Array(N).fill(0);
+  
+  if (activeSet.length === 0) return y;
+  
+  const scored = activeSet.map(i => ({ index: i, score: x[i] * g[i] * weights[i] }));
+  scored.sort((a, b) => b.score - a.score);
+  
+  const targets = scored.slice(0, Math.min(topK, scored.length));
+  const totalScore = targets.reduce((sum, t) => sum + t.score, 0);
+  
+  for (const t of targets) {
+    y[t.index] = totalScore > 0 ? (t.score / totalScore) * PJ : PJ / targets.length;
+  }
+  
+  return y;
+}
+
+// Jammer allocation over a sensed active set, on the gains the jammer is assumed to see
+function jammerAllocation(
+  params: SimulationParams,
+  activeSet: number[],
+  x: number[],
+  h: number[],
+  g: number[],
+  weights: number[]
+): number[] {
+  const { N, PJ, sigma2, jammerMode, topK = 3 } = params;
+  const B = params.B || new Array(N).fill(1);
+  const pattern = jammerPatternOf(jammerMode);
+  if (pattern) {
+    // Time-averaged pattern
+    const random = seededRandom(params.seed ?? 1);
+    return averagePhases(jammerPhases(pattern, params.pattern, activeSet, PJ, N, random), N);
+  }
+  switch (jammerMode) {
+    case 'J1': return jammerModeJ1(activeSet, PJ, N, weights);
+    case 'J2': return jammerModeJ2(activeSet, x, g, PJ, N, weights, topK);
+    case 'J3': return jammerBestResponse(activeSet, x, h, g, B.map((b, i) => b * weights[i]), PJ, sigma2, N);
+    default: return jammerModeJ1(activeSet, PJ, N, weights);
+  }
+}
+
+export function runSimulation(params: SimulationParams): SingleRunResult {
+  const { N, NR, ND, PT, tau } = params;
+  
+  if (ND > N - NR) {
+    throw new Error(`Invalid ND: ${ND} exceeds available channels (N-NR = ${N - NR})`);
+  }
+  if (ND * tau > PT) {
+    throw new Error(`Invalid configuration: ND * tau (${ND * tau}) exceeds PT (${PT})`);
+  }
+  
+  if (hasImperfectCSI(params.csi)) {
+    const result = simulate(params);
+    const perfectU_real = simulate({ ...params, csi: undefined }).U_real;
+    return { ...result, csi: { perfectU_real, U_realLoss: perfectU_real - result.U_real } };
+  }
+  
+  return simulate(params);
+}
+
+function simulate(params: SimulationParams): SingleRunResult {
+  if (isRandomPlacement(params.placement)) {
+    return runRandomizedPlacement(params, params.placement);
+  }
+  
+  // The defender allocates on its own channel estimates
+  const { x, channelTypes } = allocateDefender({ ...params, ...estimatedGains(params, 'defender') });
+  return respondToAllocation(params, x, channelTypes);
+}
+
+/**
+ * Mixed defender strategy: the policy is applied to random placements and the
+ * jammer, knowing only the placement distribution, weights each sensed channel
+ * by P(real | active). U_real/U_jammer are expectations over the draws; x, y
+ * and the per-channel arrays show the first draw.
+ */
+function runRandomizedPlacement(params: SimulationParams, placement: PlacementConfig): SingleRunResult {
+  const { N, NR, ND } = params;
+  const random = seededRandom(params.seed ?? 1);
+  const perms = Array.from({ length: placementDraws(placement) }, () =>
+    samplePlacement(N, NR, ND, placement, random)
+  );
+  const K = perms.length;
+  
+  const realProbability = new Array(N).fill(0);
+  const decoyProbability = new Array(N).fill(0);
+  for (const perm of perms) {
+    perm.forEach((channel, k) => {
+      if (k < NR) realProbability[channel] += 1 / K;
+      else if (k < NR + ND) decoyProbability[channel] += 1 / K;
+    });
+  }
+  const realBelief = realProbability.map((p, i) => {
+    const active = p + decoyProbability[i];
+    return active > 0 ? p / active : 0;
+  });
+  
+  const defenderParams = { ...params, ...estimatedGains(params, 'defender') };
+  const outcomes = perms.map(perm => {
+    const { x, channelTypes } = allocatePlacement(defenderParams, perm);
+    return respondToAllocation(params, x, channelTypes, realBelief);
+  });
+  
+  const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+  const U_reals = outcomes.map(o => o.U_real);
+  const U_realMean = mean(U_reals);
+  const U_realVariance = mean(U_reals.map(u => (u - U_realMean) ** 2));
+  
+  return {
+    ...outcomes[0],
+    U_real: U_realMean,
+    U_jammer: mean(outcomes.map(o => o.U_jammer)),
+    powerOnDecoys: mean(outcomes.map(o => o.powerOnDecoys)),
+    jammingPerActive: mean(outcomes.map(o => o.jammingPerActive)),
+    placement: {
+      draws: K,
+      U_realMean,
+      U_realVariance,
+      U_realStd: Math.sqrt(U_realVariance),
+      realProbability,
+      decoyProbability,
+    },
+  };
+}
+
+/**
+ * Jammer response (J1-J3 under the configured sensing model) to a fixed
+ * defender allocation. `realBelief` is the jammer's P(real | channel active);
+ * it weights the J1 split, the J2 scores and the J3 objective and defaults to
+ * 1 (every active channel equally likely to be real).
+ */
+export function respondToAllocation(
+  params: SimulationParams,
+  x: number[],
+  channelTypes: ChannelType[],
+  realBelief?: number[]
+): SingleRunResult {
+  const { N, PJ, sigma2, h, g } = params;
+  const B = params.B || new Array(N).fill(1);
+  const weights = realBelief || new Array(N).fill(1);
+  
+  // The jammer targets on its own estimates; rates below use the true h/g
+  const jammerView = estimatedGains(params, 'jammer');
+  const pattern = jammerPatternOf(params.jammerMode);
+  const patternRandom = seededRandom(params.seed ?? 1);
+  let jammerKKT: KKTResiduals | undefined;
+  const jam = (activeSet: number[]): JammerPhase[] => {
+    if (pattern) {
+      return jammerPhases(pattern, params.pattern, activeSet, PJ, N, patternRandom);
+    }
+    const y = jammerAllocation(params, activeSet, x, jammerView.h, jammerView.g, weights);
+    if (params.jammerMode === 'J3') {
+      // Keep the worst residuals over the sensed active sets
+      const residuals = jammerResiduals(
+        activeSet, x, y, jammerView.h, jammerView.g, B.map((b, i) => b * weights[i]), PJ, sigma2
+      );
+      if (!jammerKKT || kktError(residuals) > kktError(jammerKKT)) jammerKKT = residuals;
+    }
+    return [{ y, weight: 1 }];
+  };
+  
+  // D4 optimality of the real allocation against the jammer's actual (expected) response
+  const realChannels = channelTypes.map((type, i) => type === 'real' ? i : -1).filter(i => i >= 0);
+  const kktReport = (y: number[]): KKTReport | undefined => {
+    if (params.defenderPolicy !== 'D4' && !jammerKKT) return undefined;
+    const realBudget = realChannels.reduce((s, i) => s + x[i], 0);
+    return {
+      defender: params.defenderPolicy === 'D4'
+        ? defenderResiduals(realChannels, x, y, h, g, B, realBudget, sigma2)
+        : undefined,
+      jammer: jammerKKT,
+    };
+  };
+  
+  const evaluate = (activeSet: number[], y: number[]) => {
+    const rates = x.map((xi, i) => calculateRate(xi, y[i], h[i], g[i], sigma2, B[i]));
+    const sinr = x.map((xi, i) => calculateSINR(xi, y[i], h[i], g[i], sigma2));
+    const U_real = channelTypes.reduce((sum, type, i) => type === 'real' ? sum + rates[i] : sum, 0);
+    const U_jammer = activeSet.reduce((sum, i) => sum + rates[i], 0);
+    const jammingPerActive = activeSet.length > 0 ? PJ / activeSet.length : 0;
+    return { rates, sinr, U_real, U_jammer, jammingPerActive };
+  };
+  
+  // Expectation over sensed active sets and, for pattern jammers, over the phases of the slot
+  const y = new Array(N).fill(0);
+  const rates = new Array(N).fill(0);
+  const sinr = new Array(N).fill(0);
+  let U_real = 0;
+  let U_jammer = 0;
+  let jammingPerActive = 0;
+  const accumulate = (activeSet: number[], weight: number) => {
+    for (const phase of jam(activeSet)) {
+      const w = weight * phase.weight;
+      const outcome = evaluate(activeSet, phase.y);
+      for (let i = 0; i < N; i++) {
+        y[i] += w * phase.y[i];
+        rates[i] += w * outcome.rates[i];
+        sinr[i] += w * outcome.sinr[i];
+      }
+      U_real += w * outcome.U_real;
+      U_jammer += w * outcome.U_jammer;
+      jammingPerActive += w * outcome.jammingPerActive;
+    }
+  };
+  
+  const powerOnDecoys = channelTypes.reduce((sum, type, i) => type === 'decoy' ? sum + x[i] : sum, 0);
+  
+  // Floors against the expected jamming, on the true gains
+  const qosReport = (): QoSReport | undefined => {
+    if (!params.minRate) return undefined;
+    const minRate = channelTypes.map((type, i) => type === 'real' ? params.minRate?.[i] ?? 0 : 0);
+    const required = realChannels.map(i => floorPower(minRate[i], B[i], sigma2 + y[i] * g[i], h[i]));
+    const available = realChannels.reduce((sum, i) => sum + x[i], 0);
+    return buildQoSReport(minRate, rates, [{ required, available }]);
+  };
+  
+  if (!isProbabilisticSensing(params.sensing)) {
+    const activeSet = x.map((xi, i) => xi >= sensingThreshold(params, 0, i) ? i : -1).filter(i => i >= 0);
+    accumulate(activeSet, 1);
+    return {
+      x, y, channelTypes, activeSet, rates, U_real, U_jammer, sinr, powerOnDecoys, jammingPerActive,
+      kkt: kktReport(y),
+      qos: qosReport(),
+    };
+  }
+  
+  // Probabilistic sensing: average the jammer response and the rates over sensed active sets
+  const { sensing } = params;
+  const pd = x.map((xi, i) => detectionProbability(xi, sensingThreshold(params, 0, i), sensing));
+  const pfa = x.map((_, i) => falseAlarmProbability(sensingThreshold(params, 0, i), sensing));
+  const sensedSets = createActiveSetSampler(N, sensing, params.seed)(pd);
+  for (const sensedSet of sensedSets) {
+    accumulate(sensedSet, 1 / sensedSets.length);
+  }
+  
+  // Report channels the jammer detects more often than not
+  const activeSet = pd.map((p, i) => p >= 0.5 ? i : -1).filter(i => i >= 0);
+  
+  return {
+    x, y, channelTypes, activeSet, rates, U_real, U_jammer, sinr, powerOnDecoys, jammingPerActive,
+    sensing: buildSensingReport(pd, pfa),
+    kkt: kktReport(y),
+    qos: qosReport(),
+  };
+}
+
+function kktError(residuals: KKTResiduals): number {
+  return Math.max(residuals.stationarity, residuals.complementarity, residuals.budget);
+}
+
+// Share of the jammer budget spent on decoys
+function jammerWaste(result: SingleRunResult): number {
+  const total = result.y.reduce((s, v) => s + v, 0);
+  const onDecoys = result.y.reduce((s, v, i) => result.channelTypes[i] === 'decoy' ? s + v : s, 0);
+  return total > 0 ? onDecoys / total : 0;
+}
+
+function dilutionFactor(result: SingleRunResult, NR: number): number {
+  const activeCount = result.sensing?.expectedActiveCount ?? result.activeSet.length;
+  return NR > 0 ? activeCount / NR : 1;
+}
+
+// U_real of one sweep point; in Monte Carlo mode averaged over the fading realizations
+function evaluateSweepPoint(
+  params: SimulationParams,
+  monteCarlo: SweepParams['monteCarlo']
+): { U_real: number; stats?: SweepPointStats } {
+  if (!monteCarlo) {
+    return { U_real: runSimulation(params).U_real };
+  }
+  
+  // Realizations replay the measured trace when there is one
+  const outcomes = realizationSeeds(monteCarlo).map((seed, k) => {
+    if (params.gainTrace) {
+      const slot = traceSlot(params.gainTrace, k);
+      return runSimulation({ ...params, h: slot.h[0], g: slot.g[0] });
+    }
+    const { h, g } = generateRandomChannelGains(params.N, seed, monteCarlo.distribution ?? 'rayleigh', monteCarlo.fading);
+    return runSimulation({ ...params, h, g });
+  });
+  const confidence = monteCarloConfidence(monteCarlo);
+  const stats: SweepPointStats = {
+    U_real: summarize(outcomes.map(r => r.U_real), confidence),
+    jammerWaste: summarize(outcomes.map(jammerWaste), confidence),
+    dilutionFactor: summarize(outcomes.map(r => dilutionFactor(r, params.NR)), confidence),
+  };
+  return { U_real: stats.U_real.mean, stats };
+}
+
+export function runSweep(sweepParams: SweepParams): SweepResult {
+  const { baseParams, NDRange, sweepType = 'ND', secondaryRange, monteCarlo } = sweepParams;
+  
+  const NDValues: number[] = [];
+  const U_realValues: number[] = [];
+  let bestND = 0;
+  let bestU_real = -Infinity;
+  let heatmapData: SweepResult['heatmapData'] | undefined;
+  let monteCarloStats: SweepPointStats[] | undefined;
+  
+  if (sweepType === 'ND' && !secondaryRange) {
+    monteCarloStats = monteCarlo ? [] : undefined;
+    for (const ND of NDRange) {
+      try {
+        const result = evaluateSweepPoint({ ...baseParams, ND }, monteCarlo);
+        NDValues.push(ND);
+        U_realValues.push(result.U_real);
+        if (result.stats) monteCarloStats?.push(result.stats);
+        if (result.U_real > bestU_real) {
+          bestU_real = result.U_real;
+          bestND = ND;
+        }
+      } catch {
+        NDValues.push(ND);
+        U_realValues.push(0);
+        monteCarloStats?.push({
+          U_real: summarize([]),
+          jammerWaste: summarize([]),
+          dilutionFactor: summarize([]),
+        });
+      }
+    }
+  } else if (secondaryRange) {
+    const z: number[][] = [];
+    const xLabels = sweepType === 'tau' ? 'tau' : 'PJ';
+    
+    for (const secondary of secondaryRange) {
+      const row: number[] = [];
+      for (const ND of NDRange) {
+        try {
+          const params = { 
+            ...baseParams, 
+            ND,
+            ...(sweepType === 'tau' ? { tau: secondary } : { PJ: secondary })
+          };
+          const result = evaluateSweepPoint(params, monteCarlo);
+          row.push(result.U_real);
+          if (result.U_real > bestU_real) {
+            bestU_real = result.U_real;
+            bestND = ND;
+          }
+        } catch {
+          row.push(0);
+        }
+      }
+      z.push(row);
+    }
+    
+    heatmapData = {
+      x: NDRange,
+      y: secondaryRange,
+      z,
+      xLabel: 'ND (Decoy Channels)',
+      yLabel: xLabels === 'tau' ? 'τ (Threshold)' : 'PJ (Jammer Budget)',
+    };
+    
+    for (const ND of NDRange) {
+      try {
+        const result = evaluateSweepPoint({ ...baseParams, ND }, monteCarlo);
+        NDValues.push(ND);
+        U_realValues.push(result.U_real);
+      } catch {
+        NDValues.push(ND);
+        U_realValues.push(0);
+      }
+    }
+  }
+  
+  const monteCarloResult: SweepResult['monteCarlo'] = monteCarlo && monteCarloStats
+    ? { realizations: realizationSeeds(monteCarlo).length, confidence: monteCarloConfidence(monteCarlo), stats: monteCarloStats }
+    : undefined;
+  
+  return { NDValues, U_realValues, bestND, bestU_real, heatmapData, monteCarlo: monteCarloResult };
+}
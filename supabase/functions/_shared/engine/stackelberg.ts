@@ -0,0 +1,225 @@
+import type {
+  ChannelType,
+  SimulationParams,
+  SingleRunResult,
+  StackelbergParams,
+  StackelbergResult,
+} from './types.ts';
+import { projectToSimplex } from './equilibrium.ts';
+import { estimatedGains } from './csi.ts';
+import { respondToAllocation, runSimulation } from './single.ts';
+
+// ============ STACKELBERG DEFENDER DESIGN ============
+//
+// The defender (leader) commits to x anticipating the jammer's J1/J2/J3
+// response (follower). Search space: NR, ND, a common decoy power and the
+// split of the remaining budget over the real channels.
+//   Stage 1: grid over (NR, ND, decoy power) with an h-proportional real split.
+//   Stage 2: the best candidates get their real split refined by projected
+//            finite-difference ascent on U_real(x, y*(x)).
+// The D1-D3 heuristics at the base NR/ND are kept as incumbents, so the
+// design is never worse than the best heuristic. With rate floors set, only
+// designs the leader expects to meet every floor on their real channels
+// compete. The search stops after `maxEvaluations` follower responses. Under imperfect CSI the
+// leader scores every candidate on its own estimates (the follower answering
+// in that estimated world); only the chosen design is played on the true gains.
+
+const DEFAULT_MAX_NR = 8;
+const DEFAULT_DECOY_POWER_LEVELS = 5;
+const DEFAULT_REFINE_CANDIDATES = 3;
+const DEFAULT_REFINE_ITERATIONS = 40;
+export const DEFAULT_MAX_EVALUATIONS = 2000;
+const MAX_DECOY_HEADROOM = 0.8;  // Largest share of the spare budget a decoy level may take
+
+const HEURISTIC_POLICIES = ['D1', 'D2', 'D3'] as const;
+
+interface Candidate {
+  NR: number;
+  ND: number;
+  decoyPower: number;
+  realChannels: number[];
+  realSplit: number[];
+  decoys: number[];
+  outcome: SingleRunResult;
+}
+
+export function runStackelberg(stackelbergParams: StackelbergParams): StackelbergResult {
+  const { baseParams } = stackelbergParams;
+  const { N, PT, tau } = baseParams;
+  const { h, g } = estimatedGains(baseParams, 'defender');  // The leader designs on its own estimates
+  const leaderParams: SimulationParams = { ...baseParams, h, g, csi: undefined };
+  const maxNR = Math.min(N, stackelbergParams.maxNR ?? DEFAULT_MAX_NR);
+  const decoyPowerLevels = Math.max(1, stackelbergParams.decoyPowerLevels ?? DEFAULT_DECOY_POWER_LEVELS);
+  const refineCandidates = stackelbergParams.refineCandidates ?? DEFAULT_REFINE_CANDIDATES;
+  const refineIterations = stackelbergParams.refineIterations ?? DEFAULT_REFINE_ITERATIONS;
+  const maxEvaluations = stackelbergParams.maxEvaluations ?? DEFAULT_MAX_EVALUATIONS;
+  
+  let evaluations = 0;
+  let budgetExhausted = false;
+  // Room for `cost` more responses, keeping one for the true-gain replay of the design
+  const affordable = (cost: number): boolean => {
+    if (evaluations + cost < maxEvaluations) return true;
+    budgetExhausted = true;
+    return false;
+  };
+  
+  // Heuristic baselines (also validates the base configuration)
+  const heuristics = HEURISTIC_POLICIES.map(policy => runSimulation({ ...baseParams, defenderPolicy: policy }));
+  evaluations += heuristics.length;
+  const [D1, D2, D3] = heuristics.map(r => r.U_real);
+  const heuristicU_real: StackelbergResult['heuristicU_real'] = { D1, D2, D3 };
+  const bestIndex = heuristics.reduce((bi, r, k) => r.U_real > heuristics[bi].U_real ? k : bi, 0);
+  const bestHeuristic = HEURISTIC_POLICIES[bestIndex];
+  
+  // The incumbent is the heuristic the leader expects to do best
+  const estimates = heuristics.map(r => respondToAllocation(leaderParams, r.x, r.channelTypes));
+  evaluations += estimates.length;
+  const incumbentIndex = estimates.reduce((bi, r, k) => score(r) > score(estimates[bi]) ? k : bi, 0);
+  const incumbent = heuristics[incumbentIndex];
+  const incumbentEstimate = estimates[incumbentIndex];
+  
+  // Real traffic on the strongest defender links, decoys where the jammer hits hardest
+  const byH = Array.from({ length: N }, (_, i) => i).sort((a, b) => h[b] - h[a]);
+  
+  const designAllocation = (realChannels: number[], realSplit: number[], decoys: number[], decoyPower: number) => {
+    const x = new Array(N).fill(0);
+    const channelTypes: ChannelType[] = new Array(N).fill('inactive');
+    realChannels.forEach((i, k) => {
+      x[i] = realSplit[k];
+      channelTypes[i] = 'real';
+    });
+    for (const i of decoys) {
+      x[i] = decoyPower;
+      channelTypes[i] = 'decoy';
+    }
+    return { x, channelTypes };
+  };
+  
+  // Estimated outcome of a candidate, as the leader sees it
+  const evaluate = (realChannels: number[], realSplit: number[], decoys: number[], decoyPower: number): SingleRunResult => {
+    const { x, channelTypes } = designAllocation(realChannels, realSplit, decoys, decoyPower);
+    evaluations++;
+    return respondToAllocation(leaderParams, x, channelTypes);
+  };
+  
+  // Stage 1: coarse grid
+  const candidates: Candidate[] = [];
+  for (let NR = 1; NR <= maxNR && !budgetExhausted; NR++) {
+    const realChannels = byH.slice(0, NR);
+    const remaining = byH.slice(NR).sort((a, b) => g[b] - g[a]);
+    const totalH = realChannels.reduce((s, i) => s + h[i], 0);
+    
+    for (let ND = 0; ND <= N - NR && ND * tau <= PT && !budgetExhausted; ND++) {
+      const decoys = remaining.slice(0, ND);
+      const headroom = ND > 0 ? (PT - ND * tau) / ND : 0;
+      const levels = ND > 0 ? decoyPowerLevels : 1;
+      
+      for (let level = 0; level < levels && affordable(1); level++) {
+        const decoyPower = tau + (levels > 1 ? (level / (levels - 1)) * MAX_DECOY_HEADROOM * headroom : 0);
+        const realBudget = Math.max(0, PT - ND * decoyPower);
+        const realSplit = realChannels.map(i => totalH > 0 ? (h[i] / totalH) * realBudget : realBudget / NR);
+        const outcome = evaluate(realChannels, realSplit, decoys, ND > 0 ? decoyPower : 0);
+        candidates.push({ NR, ND, decoyPower: ND > 0 ? decoyPower : 0, realChannels, realSplit, decoys, outcome });
+      }
+    }
+  }
+  
+  candidates.sort((a, b) => score(b.outcome) - score(a.outcome));
+  
+  // Stage 2: refine the real-power split of the leading candidates
+  let best: Candidate | null = null;
+  for (const candidate of candidates.slice(0, Math.max(1, refineCandidates))) {
+    const refined = refineRealSplit(
+      candidate,
+      (split) => evaluate(candidate.realChannels, split, candidate.decoys, candidate.decoyPower),
+      refineIterations,
+      affordable
+    );
+    if (!best || score(refined.outcome) > score(best.outcome)) {
+      best = refined;
+    }
+  }
+  
+  // Fall back to the best heuristic if the search did not beat it; the
+  // chosen design is then played against the follower on the true gains
+  let design: Omit<Candidate, 'realChannels' | 'realSplit' | 'decoys'>;
+  if (best && score(best.outcome) > score(incumbentEstimate)) {
+    const { x, channelTypes } = designAllocation(best.realChannels, best.realSplit, best.decoys, best.decoyPower);
+    evaluations++;
+    design = { ...best, outcome: respondToAllocation(baseParams, x, channelTypes) };
+  } else {
+    design = { NR: baseParams.NR, ND: baseParams.ND, decoyPower: heuristicDecoyPower(incumbent), outcome: incumbent };
+  }
+  const { outcome } = design;
+  
+  return {
+    NR: design.NR,
+    ND: design.ND,
+    decoyPower: design.decoyPower,
+    x: outcome.x,
+    y: outcome.y,
+    channelTypes: outcome.channelTypes,
+    U_real: outcome.U_real,
+    U_jammer: outcome.U_jammer,
+    heuristicU_real,
+    bestHeuristic,
+    gapToBestHeuristic: outcome.U_real - heuristicU_real[bestHeuristic],
+    evaluations,
+    budgetExhausted,
+    qos: outcome.qos,
+  };
+}
+
+// U_real of an estimated outcome; a design that misses a rate floor cannot win
+function score(outcome: SingleRunResult): number {
+  const { qos } = outcome;
+  return qos && qos.satisfiedCount < qos.channels.length ? -Infinity : outcome.U_real;
+}
+
+function heuristicDecoyPower(result: SingleRunResult): number {
+  const decoys = result.x.filter((_, i) => result.channelTypes[i] === 'decoy');
+  return decoys.length > 0 ? decoys.reduce((s, v) => s + v, 0) / decoys.length : 0;
+}
+
+// Projected finite-difference ascent on U_real over the real-channel budget
+// simplex; a step is kept only if it raises the score, so floors stay met
+function refineRealSplit(
+  candidate: Candidate,
+  evaluate: (split: number[]) => SingleRunResult,
+  iterations: number,
+  affordable: (cost: number) => boolean
+): Candidate {
+  const budget = candidate.realSplit.reduce((s, v) => s + v, 0);
+  if (candidate.NR < 2 || budget <= 0) return candidate;
+  
+  let split = candidate.realSplit;
+  let outcome = candidate.outcome;
+  let step = budget / candidate.NR;
+  const delta = 1e-4 * budget;
+  
+  for (let iter = 0; iter < iterations && step > 1e-4 * budget && affordable(candidate.NR + 1); iter++) {
+    const grad = split.map((_, k) => {
+      const probe = [...split];
+      probe[k] += delta;
+      return (evaluate(probe).U_real - outcome.U_real) / delta;
+    });
+    
+    // Move along the simplex tangent
+    const meanGrad = grad.reduce((s, v) => s + v, 0) / grad.length;
+    const direction = grad.map(v => v - meanGrad);
+    const scale = Math.max(...direction.map(Math.abs));
+    if (scale <= 0) break;
+    
+    const next = projectToSimplex(split.map((v, k) => v + (step * direction[k]) / scale), budget);
+    const nextOutcome = evaluate(next);
+    if (score(nextOutcome) > score(outcome)) {
+      split = next;
+      outcome = nextOutcome;
+      step *= 1.2;
+    } else {
+      step *= 0.5;
+    }
+  }
+  
+  return { ...candidate, realSplit: split, outcome };
+}
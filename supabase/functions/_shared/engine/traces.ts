@@ -0,0 +1,180 @@
+import type {
+  EquilibriumParams,
+  GainDimensions,
+  GainFileFormat,
+  GainTrace,
+  ImportedGains,
+  SimulationParams,
+} from './types.ts';
+
+// ============ MEASURED GAINS ============
+//
+// Measured h/g are imported from JSON or CSV, either as one gain matrix or as
+// a time-indexed trace with one matrix per slot.
+//   JSON: { "h": ..., "g": ... }, each a vector over the N channels (one
+//         player), a players x N matrix or a slots x players x N trace. With a
+//         single player a slots x N matrix is read as a trace.
+//   CSV:  a header naming the columns `link`, `player` and optionally `slot`,
+//         the remaining columns being the N gains; one row per link (h or g),
+//         player and slot. Players and slots are 1-based; # starts a comment.
+// If only one of h/g varies over time, the static one is repeated every slot.
+// The model's static h and g become the time average of the trace. The
+// repeated game plays slot t with trace slot t mod T, and Monte Carlo sweeps
+// use trace slot k mod T as realization k.
+
+type Slots = (number[] | undefined)[][];
+
+function invalid(message: string): Error {
+  return new Error(`Invalid gain file: ${message}`);
+}
+
+function depth(value: unknown): number {
+  return Array.isArray(value) ? 1 + depth(value[0]) : 0;
+}
+
+function jsonSlots(value: unknown, players: number, name: string): Slots {
+  switch (depth(value)) {
+    case 1:
+      return [[value as number[]]];
+    case 2: {
+      const rows = value as number[][];
+      return players === 1 && rows.length > 1 ? rows.map(row => [row]) : [rows];
+    }
+    case 3:
+      return value as number[][][];
+    default:
+      throw invalid(`${name} must be a gain vector, matrix or trace`);
+  }
+}
+
+function parseJson(text: string, dims: GainDimensions): { h: Slots; g: Slots } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw invalid('not valid JSON');
+  }
+  if (!data || typeof data !== 'object') {
+    throw invalid('JSON must be an object with h and g');
+  }
+  const { h, g } = data as Record<string, unknown>;
+  return { h: jsonSlots(h, dims.D, 'h'), g: jsonSlots(g, dims.M, 'g') };
+}
+
+function parseIndex(cell: string | undefined, name: string, row: number): number {
+  const value = Number(cell);
+  if (!Number.isInteger(value) || value < 1) {
+    throw invalid(`row ${row}: ${name} must be a positive integer`);
+  }
+  return value - 1;
+}
+
+function parseGain(cell: string | undefined, column: string, row: number): number {
+  if (cell === undefined || cell === '') {
+    throw invalid(`row ${row}: gain column ${column} is blank`);
+  }
+  return Number(cell);
+}
+
+function parseCsv(text: string): { h: Slots; g: Slots } {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'));
+  if (lines.length < 2) {
+    throw invalid('CSV needs a header and at least one row');
+  }
+  
+  const header = lines[0].split(',').map(cell => cell.trim().toLowerCase());
+  const linkCol = header.indexOf('link');
+  const playerCol = header.indexOf('player');
+  const slotCol = header.indexOf('slot');
+  if (linkCol < 0 || playerCol < 0) {
+    throw invalid("CSV header needs 'link' and 'player' columns");
+  }
+  const gainCols = header.map((_, c) => c).filter(c => c !== linkCol && c !== playerCol && c !== slotCol);
+  
+  const slots: { h: Slots; g: Slots } = { h: [], g: [] };
+  lines.slice(1).forEach((line, r) => {
+    const row = r + 2;
+    const cells = line.split(',').map(cell => cell.trim());
+    const link = cells[linkCol]?.toLowerCase();
+    if (link !== 'h' && link !== 'g') {
+      throw invalid(`row ${row}: link must be h or g`);
+    }
+    const player = parseIndex(cells[playerCol], 'player', row);
+    const slot = slotCol >= 0 ? parseIndex(cells[slotCol], 'slot', row) : 0;
+    const target = slots[link];
+    if (!target[slot]) target[slot] = [];
+    if (target[slot][player]) {
+      throw invalid(`row ${row}: duplicate ${link} row for player ${player + 1}, slot ${slot + 1}`);
+    }
+    target[slot][player] = gainCols.map(c => parseGain(cells[c], header[c] || String(c + 1), row));
+  });
+  return slots;
+}
+
+// Every slot must hold `players` rows of N finite, non-negative gains
+function checkSlots(slots: Slots, players: number, N: number, name: string): number[][][] {
+  if (slots.length === 0) {
+    throw invalid(`no ${name} gains`);
+  }
+  for (let t = 0; t < slots.length; t++) {
+    const matrix = slots[t];
+    if (!matrix || matrix.length !== players) {
+      throw invalid(`${name} slot ${t + 1} has ${matrix?.length ?? 0} rows, expected ${players}`);
+    }
+    for (let p = 0; p < players; p++) {
+      const row = matrix[p];
+      if (!row) {
+        throw invalid(`${name} slot ${t + 1} is missing player ${p + 1}`);
+      }
+      if (row.length !== N) {
+        throw invalid(`${name} slot ${t + 1}, player ${p + 1} has ${row.length} gains, expected N = ${N}`);
+      }
+      if (row.some(v => typeof v !== 'number' || !Number.isFinite(v) || v < 0)) {
+        throw invalid(`${name} slot ${t + 1}, player ${p + 1} has a gain that is not a non-negative number`);
+      }
+    }
+  }
+  return slots as number[][][];
+}
+
+function timeAverage(slots: number[][][]): number[][] {
+  return slots[0].map((row, p) =>
+    row.map((_, i) => slots.reduce((sum, matrix) => sum + matrix[p][i], 0) / slots.length)
+  );
+}
+
+export function parseGainFile(text: string, format: GainFileFormat, dims: GainDimensions): ImportedGains {
+  const parsed = format === 'json' ? parseJson(text, dims) : parseCsv(text);
+  let h = checkSlots(parsed.h, dims.D, dims.N, 'h');
+  let g = checkSlots(parsed.g, dims.M, dims.N, 'g');
+  
+  if (h.length !== g.length) {
+    if (h.length === 1) h = g.map(() => h[0]);
+    else if (g.length === 1) g = h.map(() => g[0]);
+    else throw invalid(`h has ${h.length} slots but g has ${g.length}`);
+  }
+  
+  return {
+    h: timeAverage(h),
+    g: timeAverage(g),
+    slots: h.length,
+    trace: h.length > 1 ? { h, g } : undefined,
+  };
+}
+
+// Gains of slot t, cycling through the trace
+export function traceSlot(trace: GainTrace, t: number): { h: number[][]; g: number[][] } {
+  const T = Math.min(trace.h.length, trace.g.length);
+  return { h: trace.h[t % T], g: trace.g[t % T] };
+}
+
+export function applySimulationGains(params: SimulationParams, gains: ImportedGains): SimulationParams {
+  return { ...params, h: gains.h[0], g: gains.g[0], gainTrace: gains.trace };
+}
+
+export function applyEquilibriumGains(params: EquilibriumParams, gains: ImportedGains): EquilibriumParams {
+  return { ...params, h: gains.h, g: gains.g, gainTrace: gains.trace, gainDistribution: 'custom' };
+}
@@ -0,0 +1,582 @@
+// Shared types for the simulation engine. Imported by the `simulate` edge
+// function (Deno) and by the web app (Vite), so keep this file free of
+// runtime-specific imports.
+
+export type ChannelType = 'real' | 'decoy' | 'inactive';
+export type JammerStrategy =
+  | 'J1_uniform'
+  | 'J2_topK'
+  | 'J3_optimization'
+  | 'J4_sweep'
+  | 'J5_randomSubset'
+  | 'J6_reactive';
+export type JammerObjective = 'deception' | 'oracle';
+export type GainDistribution =
+  | 'uniform'
+  | 'rayleigh'
+  | 'rician'
+  | 'nakagami'
+  | 'lognormal'
+  | 'geometric'
+  | 'custom';
+export type SmallScaleFading = 'none' | 'rayleigh';
+export type AttackerMode = 'coordinated' | 'independent';
+export type SweepVariable = 'ND' | 'tau' | 'N' | 'M' | 'D' | 'PJ';
+export type SensingModel = 'threshold' | 'energy';
+export type JammerLearner = 'thompson' | 'ucb';
+export type DefenderBandit = 'ucb' | 'exp3';
+export type PlacementMode = 'fixed' | 'random';
+export type JammerPattern = 'sweep' | 'randomSubset' | 'reactive';
+export type JammerReachMode = 'all' | 'mask' | 'band';
+export type EquilibriumSolver = 'gradient' | 'bestResponse' | 'fictitiousPlay' | 'extragradient';
+
+// ============ SENSING TYPES ============
+
+export interface SensingConfig {
+  model: SensingModel;
+  window: number;         // Energy-detector observation window L (samples)
+  noisePower: number;     // Noise power at the jammer's sensing receiver
+  samples?: number;       // Monte Carlo draws of the sensed active set
+}
+
+export interface SensingReport {
+  pd: number[];           // Per-channel detection probability
+  pfa: number[];          // Per-channel false-alarm probability (channel idle)
+  expectedActiveCount: number;
+}
+
+// ============ JAMMER PATTERN TYPES ============
+
+// Parameters of the sensing-independent (J4 sweep, J5 random subset) and
+// reactive (J6) jammers; every field falls back to an engine default
+export interface JammerPatternConfig {
+  blockSize?: number;             // J4: channels per sweep block (defaults to 4)
+  subsetSize?: number;            // J5: channels hit per draw (defaults to 4)
+  draws?: number;                 // J5: random subsets averaged over (defaults to 50)
+  dwell?: number;                 // J6: slot fraction spent sensing before jamming (defaults to 0.3)
+}
+
+// ============ JAMMER REACH TYPES ============
+
+export interface JammerReach {
+  mode: JammerReachMode;
+  mask?: boolean[];               // mask: channels the attacker can reach (missing entries are reachable)
+  bandStart?: number;             // band: first channel of the contiguous sub-band
+  bandWidth?: number;             // band: channels in the sub-band
+}
+
+// ============ HARDWARE LIMIT TYPES ============
+
+export interface HardwareLimits {
+  maxChannels?: number;           // Channels driven at once (default: unlimited)
+  maxChannelPower?: number;       // Peak power on any one channel (default: the whole budget)
+}
+
+// ============ PLACEMENT TYPES ============
+
+export interface PlacementConfig {
+  mode: PlacementMode;          // fixed: reals at 0..NR-1, decoys right after
+  minSpacing?: number;          // Min index gap between any two used channels (1 = adjacent allowed)
+  band?: [number, number];      // Inclusive channel index range the defender may use
+  draws?: number;               // Monte Carlo draws of the placement
+}
+
+export interface PlacementReport {
+  draws: number;
+  U_realMean: number;
+  U_realVariance: number;       // Variance of U_real across placement draws
+  U_realStd: number;
+  realProbability: number[];    // Per-channel P(channel carries real traffic)
+  decoyProbability: number[];
+}
+
+// ============ FADING TYPES ============
+
+export interface FadingConfig {
+  kFactor?: number;               // Rician: LOS-to-scattered power ratio K (defaults to 3)
+  nakagamiM?: number;             // Nakagami: shape m, rounded to a multiple of 0.5 (defaults to 2)
+  lognormalSigmaDb?: number;      // Log-normal: std dev in dB (defaults to 4)
+  correlation?: number;           // Correlation of adjacent channels' underlying Gaussians, in [0, 1)
+}
+
+// ============ GAIN TRACE TYPES ============
+
+export interface GainTrace {
+  h: number[][][];                // h[t][d][i]: defender d's gain on channel i in slot t
+  g: number[][][];                // g[t][m][i]: attacker m's gain on channel i in slot t
+}
+
+export type GainFileFormat = 'csv' | 'json';
+
+export interface GainDimensions {
+  N: number;
+  D: number;                      // Defender rows expected in h (1 for a single run)
+  M: number;                      // Attacker rows expected in g (1 for a single run)
+}
+
+export interface ImportedGains {
+  h: number[][];                  // Time-averaged defender gains, D x N
+  g: number[][];                  // Time-averaged attacker gains, M x N
+  slots: number;
+  trace?: GainTrace;              // Present when the file holds more than one slot
+}
+
+// ============ MONTE CARLO TYPES ============
+
+export interface MonteCarloConfig {
+  realizations: number;           // K fading realizations per sweep point
+  seed?: number;                  // Realization k draws its gains with seed + k
+  distribution?: GainDistribution;  // Fading distribution (defaults to rayleigh)
+  fading?: FadingConfig;          // Model parameters and frequency correlation
+  confidence?: number;            // Confidence level of the bands (defaults to 0.95)
+}
+
+export interface MetricStats {
+  mean: number;
+  std: number;                    // Sample standard deviation across realizations
+  ciLow: number;                  // Confidence interval of the mean
+  ciHigh: number;
+}
+
+// ============ GEOMETRY TYPES ============
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface GeometryConfig {
+  defenderTx: Position[];         // Transmitter of each defender link
+  defenderRx: Position[];         // Receiver of each defender link
+  attackers: Position[];          // Jammer positions
+  pathLossExponent: number;       // Gain falls as (distance / referenceDistance)^-exponent
+  referenceDistance?: number;     // No path loss inside this distance (defaults to 1)
+  shadowingDb?: number;           // Log-normal shadowing std dev per link in dB (defaults to 0)
+  fading?: SmallScaleFading;      // Per-channel small-scale fading (defaults to rayleigh)
+}
+
+// ============ CSI TYPES ============
+
+export interface CSIConfig {
+  defenderErrorVariance: number[];  // Estimation-error variance per defender (single run: one entry)
+  jammerErrorVariance: number[];    // Estimation-error variance per attacker (single run: one entry)
+  seed?: number;                    // Seeds the estimation errors (defaults to the run seed)
+}
+
+export interface CSIReport {
+  perfectU_real: number;          // U_real of the same scenario with perfect CSI
+  U_realLoss: number;             // perfectU_real - U_real
+}
+
+// ============ KKT TYPES ============
+
+export interface KKTResiduals {
+  multiplier: number;             // Estimated budget multiplier (mean marginal on the support)
+  stationarity: number;           // max |marginal - multiplier| over channels with power
+  complementarity: number;        // max (marginal - multiplier) over channels without power
+  budget: number;                 // |power spent - budget|
+}
+
+export interface KKTReport {
+  defender?: KKTResiduals;        // D4 water-filling against the realized jammer response
+  jammer?: KKTResiduals;          // J3 best response (worst case over sensed active sets)
+}
+
+// ============ QOS TYPES ============
+
+export interface QoSChannelStatus {
+  channel: number;
+  minRate: number;                // Rate floor of the channel
+  rate: number;                   // Achieved (expected) rate; the slowest real user on shared channels
+  satisfied: boolean;
+}
+
+export interface QoSReport {
+  channels: QoSChannelStatus[];   // Real channels with a floor
+  satisfiedCount: number;
+  feasible: boolean;              // The real-channel budget covers every floor at the realized jamming
+  requiredPower: number;          // Power the floors need at the realized jamming
+  availablePower: number;         // Power the defenders can put on real channels
+}
+
+// ============ SINGLE-RUN TYPES ============
+
+export interface SimulationParams {
+  N: number;
+  NR: number;
+  ND: number;
+  PT: number;
+  PJ: number;
+  sigma2: number;
+  tau: number;              // Decoy power of D1/D3/D4 and the default sensing threshold
+  tauMatrix?: number[][];   // One row: the jammer's threshold per channel (overrides tau when sensing)
+  h: number[];
+  g: number[];
+  defenderPolicy: 'D1' | 'D2' | 'D3' | 'D4';
+  jammerMode: 'J1' | 'J2' | 'J3' | 'J4' | 'J5' | 'J6';
+  topK?: number;
+  pattern?: JammerPatternConfig;  // J4-J6 parameters
+  B?: number[];
+  seed?: number;
+  sensing?: SensingConfig;  // Defaults to the hard x_i >= tau threshold
+  placement?: PlacementConfig;  // Defaults to the fixed index layout
+  csi?: CSIConfig;          // Defaults to perfect CSI for both players
+  gainTrace?: GainTrace;    // Measured gains per slot (one defender and one attacker row)
+  minRate?: number[];       // Rate floor of channel i while it carries real traffic (missing or 0: none)
+}
+
+export interface SingleRunResult {
+  x: number[];
+  y: number[];
+  channelTypes: ChannelType[];
+  activeSet: number[];
+  rates: number[];
+  U_real: number;
+  U_jammer: number;
+  sinr: number[];
+  powerOnDecoys: number;
+  jammingPerActive: number;
+  sensing?: SensingReport;  // Set for probabilistic sensing; y, rates and U_* are then expectations
+  placement?: PlacementReport;  // Set for random placement; x/y show one draw, U_* are expectations
+  csi?: CSIReport;          // Set for imperfect CSI; rates always use the true gains
+  kkt?: KKTReport;          // Set for D4 and/or J3
+  qos?: QoSReport;          // Set when minRate is
+}
+
+export interface SweepParams {
+  baseParams: Omit<SimulationParams, 'ND'>;
+  NDRange: number[];
+  sweepType?: 'ND' | 'tau' | 'PJ';
+  secondaryRange?: number[];
+  monteCarlo?: MonteCarloConfig;  // Average over fading realizations instead of the given h/g
+}
+
+export interface SweepPointStats {
+  U_real: MetricStats;
+  jammerWaste: MetricStats;       // Fraction of jammer power on decoys
+  dilutionFactor: MetricStats;    // |A| / NR
+}
+
+export interface SweepResult {
+  NDValues: number[];
+  U_realValues: number[];
+  bestND: number;
+  bestU_real: number;
+  heatmapData?: {
+    x: number[];
+    y: number[];
+    z: number[][];
+    xLabel: string;
+    yLabel: string;
+  };
+  monteCarlo?: {
+    realizations: number;
+    confidence: number;
+    stats: SweepPointStats[];     // Aligned with NDValues (1-D ND sweeps)
+  };
+}
+
+// ============ REPEATED GAME TYPES ============
+
+export interface RepeatedGameParams {
+  baseParams: SimulationParams;
+  slots: number;                // Number of time slots T
+  learner: JammerLearner;
+  reshuffleInterval: number;    // Slots between real/decoy reassignments (0 = never)
+  observationNoise?: number;    // Probability a jammed channel's feedback is misread
+  discount?: number;            // Per-slot forgetting factor on jammer evidence (1 = none)
+  priorReal?: number;           // Jammer's initial P(channel is real)
+}
+
+export interface SlotRecord {
+  slot: number;
+  U_real: number;
+  U_jammer: number;
+  realChannels: number[];
+  decoyChannels: number[];
+  targets: number[];            // Channels the jammer attacked this slot
+  jammerOnReal: number;         // Fraction of jammer power landing on real channels
+  reshuffled: boolean;
+  discovered: boolean;          // Jammer's beliefs rank every real channel above every decoy
+}
+
+export interface RepeatedGameResult {
+  slots: SlotRecord[];
+  beliefs: number[][];          // beliefs[t][i]: jammer's P(channel i is real) after slot t
+  oneShotU_real: number;        // Myopic jammer reference (runSimulation)
+  averageU_real: number;
+  firstDiscoverySlot: number | null;
+  deceptionEffectiveSlots: number;  // Slots in which the decoys were not yet discovered
+}
+
+// ============ STACKELBERG DESIGN TYPES ============
+
+export interface StackelbergParams {
+  baseParams: SimulationParams;   // NR/ND here are used for the D1-D3 baselines
+  maxNR?: number;                 // Largest number of real channels searched
+  decoyPowerLevels?: number;      // Decoy power levels between tau and the spare budget
+  refineCandidates?: number;      // Grid points whose real-power split is refined
+  refineIterations?: number;
+  maxEvaluations?: number;        // Follower responses the search may compute (defaults to 2000)
+}
+
+export interface StackelbergResult {
+  NR: number;
+  ND: number;
+  decoyPower: number;
+  x: number[];                    // Leader's optimal allocation
+  y: number[];                    // Induced jammer response
+  channelTypes: ChannelType[];
+  U_real: number;
+  U_jammer: number;
+  heuristicU_real: Record<'D1' | 'D2' | 'D3', number>;
+  bestHeuristic: 'D1' | 'D2' | 'D3';
+  gapToBestHeuristic: number;     // U_real minus the best heuristic's U_real (>= 0 with perfect CSI)
+  evaluations: number;            // Follower best responses computed
+  budgetExhausted: boolean;       // The search stopped at maxEvaluations before covering the grid
+  qos?: QoSReport;                // Rate floors of the design on the true gains; set when minRate is
+}
+
+// ============ ONLINE LEARNING TYPES ============
+
+export interface OnlineLearningParams {
+  baseParams: SimulationParams;
+  rounds: number;               // Number of rounds T
+  defenderLearner: DefenderBandit;
+  defenderArms?: number;        // Real/decoy channel subsets the defender learns over (defaults to 2N)
+  defenderExploration?: number; // EXP3 mixing rate gamma in (0, 1] (default tuned to T)
+  jammerExploration?: number;   // Jammer EXP3 mixing rate gamma in (0, 1] (default tuned to T)
+}
+
+export interface DefenderArm {
+  realChannels: number[];
+  decoyChannels: number[];
+}
+
+export interface OnlineRoundRecord {
+  round: number;
+  U_real: number;
+  jammerReward: number;         // Rate the jammer suppressed on the active channels it hit
+  arm: number;                  // Defender arm played (index into OnlineLearningResult.arms)
+  targets: number[];            // Channels the jammer attacked
+  jammerOnReal: number;         // Fraction of jammer power landing on real channels
+  defenderRegret: number;       // Cumulative regret against the best fixed arm
+  jammerRegret: number;         // Cumulative regret against the best fixed target set
+}
+
+export interface OnlineLearningResult {
+  rounds: OnlineRoundRecord[];
+  averageU_real: number;
+  oneShotU_real: number;             // Myopic jammer reference (runSimulation)
+  arms: DefenderArm[];               // Defender arms; arm 0 is the policy's own layout
+  armFrequencies: number[];          // Share of rounds each defender arm was played
+  realFrequencies: number[];         // Share of rounds each channel carried real traffic
+  decoyFrequencies: number[];        // Share of rounds each channel carried a decoy
+  targetFrequencies: number[];       // Share of rounds each channel was jammed
+  bestFixedArm: number;
+  bestFixedTargets: number[];
+}
+
+// ============ EQUILIBRIUM TYPES ============
+
+export interface ChannelShare {
+  defender: number;
+  type: 'real' | 'decoy';
+}
+
+export interface ChannelConfig {
+  type: ChannelType;
+  owner: number;  // Defender ID
+  sharedWith?: ChannelShare[];  // Other defenders transmitting on the channel (co-channel interference)
+}
+
+export interface EquilibriumParams {
+  N: number;              // Total channels
+  D: number;              // Number of defenders
+  M: number;              // Number of attackers
+  PT: number[];           // Power budget per defender
+  PJ: number[];           // Power budget per attacker
+  defenderPeakPower?: number[];  // Per-defender peak power on any one channel (default: PT)
+  sigma2: number;         // Noise variance
+  tau: number;            // Sensing threshold
+  tauMatrix?: number[][]; // tauMatrix[m][i]: attacker m's threshold on channel i (overrides tau)
+  h: number[][];          // Channel gains h[d][i] for defender d on channel i
+  g: number[][];          // Channel gains g[m][i] for attacker m on channel i
+  B?: number[];           // Bandwidth per channel (defaults to 1)
+  alpha: number;          // Damping factor (0 < alpha <= 1)
+  maxIter: number;        // Maximum iterations
+  epsilon: number;        // Convergence threshold
+  nashTolerance?: number; // Largest regret of an epsilon-Nash solution (defaults to epsilon)
+  solver?: EquilibriumSolver;  // Iteration scheme (defaults to damped projected gradient)
+  channelConfig: ChannelConfig[];  // Real/Decoy/Inactive + owner per channel
+  coChannelGain?: number;  // Scales other defenders' power into interference (default 1)
+  minRate?: number[];      // Rate floor of every real user of channel i (missing or 0: none), as in SimulationParams
+  
+  // Jammer configuration
+  jammerStrategy: JammerStrategy;
+  jammerObjective: JammerObjective;
+  attackerMode: AttackerMode;
+  topK: number;           // For J2 strategy
+  pattern?: JammerPatternConfig;  // For J4-J6 strategies
+  reach?: JammerReach[];    // Per-attacker reachable channels (default: all)
+  jammerLimits?: HardwareLimits[];  // Per-attacker channel count and per-channel power caps (default: none)
+  sensing?: SensingConfig;  // Defaults to the hard x_i >= tau threshold
+  csi?: CSIConfig;          // Players optimize on estimates; metrics use the true h/g
+  
+  // Initialization
+  randomInit: boolean;
+  seed?: number;
+  initSeed?: number;      // Seeds the random initialization alone (defaults to seed)
+  
+  // Reference games (oracle jammer, ND=0) for oracleGap / improvementOverNoDecoys
+  computeBaselines?: boolean;
+  
+  // Gain distribution (used when regenerating h and g, ignored by the solver)
+  gainDistribution?: GainDistribution;
+  geometry?: GeometryConfig;  // Node positions for the geometric distribution
+  fading?: FadingConfig;      // Parameters of the fading models and frequency correlation
+  gainTrace?: GainTrace;      // Measured gains per slot; h and g hold their time average
+}
+
+export interface PlayerAllocation {
+  playerId: number;
+  allocation: number[];   // Power allocation per channel
+  utility: number;        // Current utility
+}
+
+export interface EquilibriumMetrics {
+  jammerWasteOnDecoys: number;        // Total jammer power on decoy channels
+  attackerWasteOnDecoys: number[];    // Share of each attacker's power on decoy channels
+  perceivedActiveSets: number[][];    // Channels each attacker senses as active
+  dilutionFactor: number;             // |A| / |R| - how much jammer is spread
+  oracleGap: number;                  // Deception throughput - Oracle throughput
+  improvementOverNoDecoys: number;    // Relative improvement vs ND=0 baseline (0.1 = +10%)
+  totalRealThroughput: number;
+  totalDecoyPower: number;
+  activeChannelCount: number;
+  realChannelCount: number;
+  symmetricEquilibrium: boolean;      // Whether equilibrium is symmetric
+}
+
+export interface ConvergenceEntry {
+  iter: number;
+  maxChange: number;
+  defenderUtilities: number[];
+  attackerUtilities: number[];
+  defenderDeltas: number[];           // Per-player max change
+  attackerDeltas: number[];
+}
+
+// Best unilateral deviations at the solution, the other players held fixed
+export interface NashCertificate {
+  defenderRegret: number[];           // Utility gain of each defender's best deviation
+  attackerRegret: number[];           // Utility gain of each attacker's best deviation (empty unless attackersCertified)
+  attackersCertified: boolean;        // Only independent J3 attackers best-respond; the others are left out of the regrets
+  nashConv: number;                   // Sum of all regrets
+  exploitability: number;             // Largest regret: the solution is an exploitability-Nash equilibrium
+  tolerance: number;
+  epsilonNash: boolean;               // exploitability <= tolerance
+}
+
+export interface ChannelSummary {
+  channel: number;
+  owner: number;
+  channelType: ChannelType;
+  users: number[];          // Defenders transmitting on the channel
+  totalDefenderPower: number;
+  totalAttackerPower: number;
+  sinr: number;
+  rate: number;
+  bandwidth: number;
+  h: number;
+  g: number;
+  isActive: boolean;
+}
+
+export interface EquilibriumResult {
+  defenders: PlayerAllocation[];
+  attackers: PlayerAllocation[];
+  solver: EquilibriumSolver;      // Scheme that produced the history below
+  converged: boolean;
+  iterations: number;
+  maxChange: number;
+  convergenceHistory: ConvergenceEntry[];
+  channelSummary: ChannelSummary[];
+  metrics: EquilibriumMetrics;
+  nash: NashCertificate;
+  sensing?: SensingReport;
+  qos?: QoSReport;                // Set when minRate is
+  csi?: CSIReport;                // Set by runEquilibrium for imperfect CSI when computeBaselines is set
+  oracleResult?: {
+    defenders: PlayerAllocation[];
+    attackers: PlayerAllocation[];
+    metrics: EquilibriumMetrics;
+  };
+}
+
+// ============ EQUILIBRIUM SWEEP TYPES ============
+
+export interface EquilibriumSweepParams {
+  baseParams: EquilibriumParams;
+  sweepVariable: SweepVariable;
+  range: number[];
+  monteCarlo?: MonteCarloConfig;
+}
+
+export interface SweepPoint {
+  variable: number;
+  U_real: number;
+  U_oracle?: number;
+  oracleGap?: number;
+  dilutionFactor: number;
+  jammerWaste: number;
+  converged: boolean;
+  iterations: number;
+  stats?: SweepPointStats;        // Set for Monte Carlo sweeps; the fields above are then means
+  error?: string;                 // Why the point could not be solved; its metrics are then 0
+}
+
+export interface EquilibriumSweepResult {
+  variable: SweepVariable;
+  points: SweepPoint[];
+  baseline: SweepPoint;  // ND=0 baseline
+  bestPoint: SweepPoint;
+  oracleBaseline?: SweepPoint;
+}
+
+// ============ MULTI-START TYPES ============
+
+export interface MultiStartParams {
+  baseParams: EquilibriumParams;  // Solved with randomInit; seed still drives sensing and pattern draws
+  starts: number;                 // Number of random initializations
+  initSeed?: number;              // Start k initializes with initSeed + k (default 1)
+  clusterTolerance?: number;      // Max-norm distance under which two fixed points coincide
+}
+
+export interface EquilibriumCluster {
+  starts: number;                 // Converged starts that reached this equilibrium
+  basin: number;                  // Share of all starts that reached it
+  defenders: number[][];          // Representative allocations (first member)
+  attackers: number[][];
+  defenderUtilities: number[];
+  attackerUtilities: number[];
+  totalRealThroughput: number;
+  exploitability: number;
+  spread: number;                 // Largest distance of a member from the representative
+}
+
+export interface MultiStartResult {
+  starts: number;
+  converged: number;              // Starts that met the convergence threshold
+  clusters: EquilibriumCluster[]; // Largest basin first
+  assignments: number[];          // Cluster of each start, -1 when it did not converge
+  unique: boolean;                // Every converged start reached the same equilibrium
+  clusterTolerance: number;
+}
+
+// ============ VALIDATION TYPES ============
+
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;      // First problem found when invalid
+}
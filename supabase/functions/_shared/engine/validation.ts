@@ -0,0 +1,833 @@
+import type { SweepVariable, ValidationResult } from './types.ts';
+import { DEFAULT_SENSING_SAMPLES } from './sensing.ts';
+import { DEFAULT_MAX_EVALUATIONS } from './stackelberg.ts';
+
+// ============ INPUT VALIDATION ============
+//
+// Bounds on untrusted request bodies. The `simulate` edge function and the
+// browser's local backend both run these before calling the engine, so a
+// request is accepted or rejected the same way on either path. Each validator
+// returns the first problem it finds.
+
+const MAX_N = 100;          // Max channels
+const MAX_D = 20;           // Max defenders
+const MAX_M = 20;           // Max attackers
+const MAX_ITER = 1000;      // Max equilibrium iterations
+const MAX_SWEEP_POINTS = 50; // Max sweep range points
+const MAX_SLOTS = 2000;     // Max repeated-game slots / online-learning rounds
+const MAX_POWER = 10000;    // Max power budget
+const MAX_BANDWIDTH = 1000; // Max per-channel bandwidth (relative units)
+const MAX_SENSING_WINDOW = 10000;  // Max energy-detector window L
+const MAX_SENSING_SAMPLES = 1000;  // Max Monte Carlo draws of the sensed set
+const MAX_PLACEMENT_DRAWS = 1000;  // Max Monte Carlo draws of a random placement
+const MAX_REALIZATIONS = 50;       // Max fading realizations per sweep point
+const MAX_CSI_VARIANCE = 100;      // Max channel-estimation error variance
+const MAX_PATTERN_DRAWS = 500;     // Max random-subset jammer draws
+const MAX_STARTS = 100;            // Max multi-start initializations
+const MAX_CO_CHANNEL_GAIN = 100;   // Max scaling of co-channel defender power
+const MAX_COORDINATE = 10000;      // Max absolute node coordinate (reference distances)
+const MAX_PATH_LOSS_EXPONENT = 8;  // Max path-loss exponent
+const MAX_SHADOWING_DB = 30;       // Max log-normal shadowing std dev in dB
+const MAX_K_FACTOR = 100;          // Max Rician K-factor
+const MAX_NAKAGAMI_M = 10;         // Max Nakagami shape m
+const MAX_TRACE_SLOTS = 1000;      // Max slots of a measured gain trace
+const MAX_MIN_RATE = 1000;         // Max per-channel rate floor
+const MAX_ONLINE_ARMS = 200;       // Max real/decoy subsets the online defender learns over
+const MAX_STACKELBERG_EVALUATIONS = 20000;  // Max follower responses of a Stackelberg search
+const MAX_STACKELBERG_WORK = 500000;        // Max follower responses x sensed-set draws
+
+const GAIN_DISTRIBUTIONS = ['uniform', 'rayleigh', 'rician', 'nakagami', 'lognormal', 'geometric'];
+
+function validateNumber(value: unknown, name: string, min: number, max: number): ValidationResult {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return { valid: false, error: `${name} must be a finite number` };
+  }
+  if (value < min || value > max) {
+    return { valid: false, error: `${name} must be between ${min} and ${max}` };
+  }
+  return { valid: true };
+}
+
+function validateArray(arr: unknown, name: string, maxLength: number): ValidationResult {
+  if (!Array.isArray(arr)) {
+    return { valid: false, error: `${name} must be an array` };
+  }
+  if (arr.length > maxLength) {
+    return { valid: false, error: `${name} exceeds maximum length of ${maxLength}` };
+  }
+  return { valid: true };
+}
+
+function validateBandwidth(B: unknown): ValidationResult {
+  if (B === undefined) return { valid: true };
+  
+  const arrCheck = validateArray(B, 'B', MAX_N);
+  if (!arrCheck.valid) return arrCheck;
+  for (const val of B as unknown[]) {
+    if (typeof val !== 'number' || !Number.isFinite(val) || val <= 0 || val > MAX_BANDWIDTH) {
+      return { valid: false, error: `B array must contain positive numbers up to ${MAX_BANDWIDTH}` };
+    }
+  }
+  return { valid: true };
+}
+
+function validateJammerReach(reach: unknown, N: number, M: number): ValidationResult {
+  if (reach === undefined) return { valid: true };
+  
+  const arrCheck = validateArray(reach, 'reach', M);
+  if (!arrCheck.valid) return arrCheck;
+  for (const [m, entry] of (reach as unknown[]).entries()) {
+    if (!entry || typeof entry !== 'object') {
+      return { valid: false, error: `reach[${m}] must be an object` };
+    }
+    const config = entry as Record<string, unknown>;
+    switch (config.mode) {
+      case 'all':
+        break;
+      case 'mask': {
+        const maskCheck = validateArray(config.mask, `reach[${m}].mask`, N);
+        if (!maskCheck.valid) return maskCheck;
+        const mask = config.mask as unknown[];
+        if (mask.some(v => typeof v !== 'boolean')) {
+          return { valid: false, error: `reach[${m}].mask must contain booleans` };
+        }
+        if (mask.length === N && !mask.includes(true)) {
+          return { valid: false, error: `reach[${m}].mask must leave at least one channel reachable` };
+        }
+        break;
+      }
+      case 'band': {
+        const checks = [
+          validateNumber(config.bandStart, `reach[${m}].bandStart`, 0, N - 1),
+          validateNumber(config.bandWidth, `reach[${m}].bandWidth`, 1, N),
+        ];
+        for (const check of checks) {
+          if (!check.valid) return check;
+        }
+        break;
+      }
+      default:
+        return { valid: false, error: `reach[${m}].mode must be all, mask or band` };
+    }
+  }
+  return { valid: true };
+}
+
+function validateHardwareLimits(jammerLimits: unknown, defenderPeakPower: unknown, N: number, D: number, M: number): ValidationResult {
+  if (jammerLimits !== undefined) {
+    const arrCheck = validateArray(jammerLimits, 'jammerLimits', M);
+    if (!arrCheck.valid) return arrCheck;
+    for (const [m, entry] of (jammerLimits as unknown[]).entries()) {
+      if (typeof entry !== 'object' || entry === null) {
+        return { valid: false, error: `jammerLimits[${m}] must be an object` };
+      }
+      const limits = entry as Record<string, unknown>;
+      if (limits.maxChannels !== undefined) {
+        const check = validateNumber(limits.maxChannels, `jammerLimits[${m}].maxChannels`, 1, N);
+        if (!check.valid) return check;
+        if (!Number.isInteger(limits.maxChannels)) {
+          return { valid: false, error: `jammerLimits[${m}].maxChannels must be an integer` };
+        }
+      }
+      if (limits.maxChannelPower !== undefined) {
+        const check = validateNumber(limits.maxChannelPower, `jammerLimits[${m}].maxChannelPower`, 0, MAX_POWER);
+        if (!check.valid) return check;
+      }
+    }
+  }
+  
+  if (defenderPeakPower !== undefined) {
+    const arrCheck = validateArray(defenderPeakPower, 'defenderPeakPower', D);
+    if (!arrCheck.valid) return arrCheck;
+    for (const peak of defenderPeakPower as unknown[]) {
+      const check = validateNumber(peak, 'defenderPeakPower entries', 0, MAX_POWER);
+      if (!check.valid) return check;
+    }
+  }
+  return { valid: true };
+}
+
+function validateMinRate(minRate: unknown, channels: number): ValidationResult {
+  if (minRate === undefined) return { valid: true };
+  
+  const arrCheck = validateArray(minRate, 'minRate', channels);
+  if (!arrCheck.valid) return arrCheck;
+  for (const floor of minRate as unknown[]) {
+    const check = validateNumber(floor, 'minRate entries', 0, MAX_MIN_RATE);
+    if (!check.valid) return check;
+  }
+  return { valid: true };
+}
+
+function validateTauMatrix(tauMatrix: unknown, N: number, M: number): ValidationResult {
+  if (tauMatrix === undefined) return { valid: true };
+  
+  if (!Array.isArray(tauMatrix) || tauMatrix.length !== M) {
+    return { valid: false, error: `tauMatrix must have ${M} row${M === 1 ? '' : 's'}, one per attacker` };
+  }
+  for (const row of tauMatrix) {
+    if (!Array.isArray(row) || row.length !== N ||
+        row.some(v => typeof v !== 'number' || !Number.isFinite(v) || v < 0 || v > MAX_POWER)) {
+      return { valid: false, error: `tauMatrix rows must hold ${N} thresholds between 0 and ${MAX_POWER}` };
+    }
+  }
+  return { valid: true };
+}
+
+function validateGainTrace(trace: unknown, N: number, D: number, M: number): ValidationResult {
+  if (trace === undefined) return { valid: true };
+  if (!trace || typeof trace !== 'object') {
+    return { valid: false, error: 'gainTrace must be an object' };
+  }
+  
+  const { h, g } = trace as Record<string, unknown>;
+  for (const [name, slots, players] of [['h', h, D], ['g', g, M]] as const) {
+    const slotsCheck = validateArray(slots, `gainTrace.${name}`, MAX_TRACE_SLOTS);
+    if (!slotsCheck.valid) return slotsCheck;
+    for (const matrix of slots as unknown[]) {
+      if (!Array.isArray(matrix) || matrix.length !== players) {
+        return { valid: false, error: `gainTrace.${name} slots must have ${players} rows` };
+      }
+      for (const row of matrix) {
+        if (!Array.isArray(row) || row.length !== N ||
+            row.some(v => typeof v !== 'number' || !Number.isFinite(v) || v < 0)) {
+          return { valid: false, error: `gainTrace.${name} rows must hold ${N} non-negative numbers` };
+        }
+      }
+    }
+  }
+  return { valid: true };
+}
+
+function validateFading(fading: unknown, name: string): ValidationResult {
+  if (fading === undefined) return { valid: true };
+  if (!fading || typeof fading !== 'object') {
+    return { valid: false, error: `${name} must be an object` };
+  }
+  
+  const config = fading as Record<string, unknown>;
+  const checks: ValidationResult[] = [];
+  if (config.kFactor !== undefined) {
+    checks.push(validateNumber(config.kFactor, `${name}.kFactor`, 0, MAX_K_FACTOR));
+  }
+  if (config.nakagamiM !== undefined) {
+    checks.push(validateNumber(config.nakagamiM, `${name}.nakagamiM`, 0.5, MAX_NAKAGAMI_M));
+  }
+  if (config.lognormalSigmaDb !== undefined) {
+    checks.push(validateNumber(config.lognormalSigmaDb, `${name}.lognormalSigmaDb`, 0, MAX_SHADOWING_DB));
+  }
+  if (config.correlation !== undefined) {
+    checks.push(validateNumber(config.correlation, `${name}.correlation`, 0, 0.99));
+  }
+  
+  for (const check of checks) {
+    if (!check.valid) return check;
+  }
+  
+  return { valid: true };
+}
+
+function validatePositions(positions: unknown, name: string, maxLength: number): ValidationResult {
+  const arrCheck = validateArray(positions, name, maxLength);
+  if (!arrCheck.valid) return arrCheck;
+  for (const p of positions as unknown[]) {
+    const { x, y } = (p ?? {}) as Record<string, unknown>;
+    const checks = [
+      validateNumber(x, `${name}.x`, -MAX_COORDINATE, MAX_COORDINATE),
+      validateNumber(y, `${name}.y`, -MAX_COORDINATE, MAX_COORDINATE),
+    ];
+    for (const check of checks) {
+      if (!check.valid) return check;
+    }
+  }
+  return { valid: true };
+}
+
+function validateGeometry(geometry: unknown): ValidationResult {
+  if (geometry === undefined) return { valid: true };
+  if (!geometry || typeof geometry !== 'object') {
+    return { valid: false, error: 'geometry must be an object' };
+  }
+  
+  const config = geometry as Record<string, unknown>;
+  const checks: ValidationResult[] = [
+    validatePositions(config.defenderTx, 'geometry.defenderTx', MAX_D),
+    validatePositions(config.defenderRx, 'geometry.defenderRx', MAX_D),
+    validatePositions(config.attackers, 'geometry.attackers', MAX_M),
+    validateNumber(config.pathLossExponent, 'geometry.pathLossExponent', 1, MAX_PATH_LOSS_EXPONENT),
+  ];
+  if (config.referenceDistance !== undefined) {
+    checks.push(validateNumber(config.referenceDistance, 'geometry.referenceDistance', 0.001, MAX_COORDINATE));
+  }
+  if (config.shadowingDb !== undefined) {
+    checks.push(validateNumber(config.shadowingDb, 'geometry.shadowingDb', 0, MAX_SHADOWING_DB));
+  }
+  
+  for (const check of checks) {
+    if (!check.valid) return check;
+  }
+  
+  if (config.fading !== undefined && !['none', 'rayleigh'].includes(config.fading as string)) {
+    return { valid: false, error: 'geometry.fading must be none or rayleigh' };
+  }
+  
+  return { valid: true };
+}
+
+function validateChannelSharing(channelConfig: unknown[], D: number): ValidationResult {
+  for (const [i, entry] of channelConfig.entries()) {
+    const sharedWith = (entry as Record<string, unknown> | null)?.sharedWith;
+    if (sharedWith === undefined) continue;
+    
+    const arrCheck = validateArray(sharedWith, `channelConfig[${i}].sharedWith`, MAX_D);
+    if (!arrCheck.valid) return arrCheck;
+    for (const share of sharedWith as unknown[]) {
+      const { defender, type } = (share ?? {}) as Record<string, unknown>;
+      if (typeof defender !== 'number' || !Number.isInteger(defender) || defender < 0 || defender >= D) {
+        return { valid: false, error: `channelConfig[${i}].sharedWith defenders must be integers in [0, ${D - 1}]` };
+      }
+      if (!['real', 'decoy'].includes(type as string)) {
+        return { valid: false, error: `channelConfig[${i}].sharedWith types must be real or decoy` };
+      }
+    }
+  }
+  return { valid: true };
+}
+
+function validateSensing(sensing: unknown): ValidationResult {
+  if (sensing === undefined) return { valid: true };
+  if (!sensing || typeof sensing !== 'object') {
+    return { valid: false, error: 'sensing must be an object' };
+  }
+  
+  const config = sensing as Record<string, unknown>;
+  if (!['threshold', 'energy'].includes(config.model as string)) {
+    return { valid: false, error: 'sensing.model must be threshold or energy' };
+  }
+  
+  const checks: ValidationResult[] = [
+    validateNumber(config.window, 'sensing.window', 1, MAX_SENSING_WINDOW),
+    validateNumber(config.noisePower, 'sensing.noisePower', 0.0001, MAX_POWER),
+  ];
+  if (config.samples !== undefined) {
+    checks.push(validateNumber(config.samples, 'sensing.samples', 1, MAX_SENSING_SAMPLES));
+  }
+  
+  for (const check of checks) {
+    if (!check.valid) return check;
+  }
+  
+  return { valid: true };
+}
+
+function validateCSI(csi: unknown, maxDefenders: number, maxAttackers: number): ValidationResult {
+  if (csi === undefined) return { valid: true };
+  if (!csi || typeof csi !== 'object') {
+    return { valid: false, error: 'csi must be an object' };
+  }
+  
+  const config = csi as Record<string, unknown>;
+  const players: [string, number][] = [['defenderErrorVariance', maxDefenders], ['jammerErrorVariance', maxAttackers]];
+  for (const [field, maxLength] of players) {
+    const arrCheck = validateArray(config[field], `csi.${field}`, maxLength);
+    if (!arrCheck.valid) return arrCheck;
+    for (const val of config[field] as unknown[]) {
+      const check = validateNumber(val, `csi.${field}`, 0, MAX_CSI_VARIANCE);
+      if (!check.valid) return check;
+    }
+  }
+  if (config.seed !== undefined) {
+    const check = validateNumber(config.seed, 'csi.seed', 0, Number.MAX_SAFE_INTEGER);
+    if (!check.valid) return check;
+  }
+  
+  return { valid: true };
+}
+
+function validateJammerPattern(pattern: unknown): ValidationResult {
+  if (pattern === undefined) return { valid: true };
+  if (!pattern || typeof pattern !== 'object') {
+    return { valid: false, error: 'pattern must be an object' };
+  }
+  
+  const config = pattern as Record<string, unknown>;
+  const fields: [string, number, number][] = [
+    ['blockSize', 1, MAX_N],
+    ['subsetSize', 1, MAX_N],
+    ['draws', 1, MAX_PATTERN_DRAWS],
+    ['dwell', 0, 1],
+  ];
+  for (const [field, min, max] of fields) {
+    if (config[field] !== undefined) {
+      const check = validateNumber(config[field], `pattern.${field}`, min, max);
+      if (!check.valid) return check;
+    }
+  }
+  
+  return { valid: true };
+}
+
+function validatePlacement(placement: unknown, N: number): ValidationResult {
+  if (placement === undefined) return { valid: true };
+  if (!placement || typeof placement !== 'object') {
+    return { valid: false, error: 'placement must be an object' };
+  }
+  
+  const config = placement as Record<string, unknown>;
+  if (!['fixed', 'random'].includes(config.mode as string)) {
+    return { valid: false, error: 'placement.mode must be fixed or random' };
+  }
+  
+  if (config.minSpacing !== undefined) {
+    const check = validateNumber(config.minSpacing, 'placement.minSpacing', 1, MAX_N);
+    if (!check.valid) return check;
+  }
+  if (config.draws !== undefined) {
+    const check = validateNumber(config.draws, 'placement.draws', 1, MAX_PLACEMENT_DRAWS);
+    if (!check.valid) return check;
+  }
+  if (config.band !== undefined) {
+    if (!Array.isArray(config.band) || config.band.length !== 2) {
+      return { valid: false, error: 'placement.band must be [first, last]' };
+    }
+    for (const edge of config.band as unknown[]) {
+      const check = validateNumber(edge, 'placement.band', 0, N - 1);
+      if (!check.valid) return check;
+    }
+  }
+  
+  return { valid: true };
+}
+
+function validateMonteCarlo(monteCarlo: unknown): ValidationResult {
+  if (monteCarlo === undefined) return { valid: true };
+  if (!monteCarlo || typeof monteCarlo !== 'object') {
+    return { valid: false, error: 'monteCarlo must be an object' };
+  }
+  
+  const config = monteCarlo as Record<string, unknown>;
+  const realizationsCheck = validateNumber(config.realizations, 'monteCarlo.realizations', 1, MAX_REALIZATIONS);
+  if (!realizationsCheck.valid) return realizationsCheck;
+  
+  if (config.seed !== undefined) {
+    const check = validateNumber(config.seed, 'monteCarlo.seed', 0, Number.MAX_SAFE_INTEGER);
+    if (!check.valid) return check;
+  }
+  if (config.confidence !== undefined) {
+    const check = validateNumber(config.confidence, 'monteCarlo.confidence', 0.5, 0.999);
+    if (!check.valid) return check;
+  }
+  if (config.distribution !== undefined && !GAIN_DISTRIBUTIONS.includes(config.distribution as string)) {
+    return { valid: false, error: `monteCarlo.distribution must be one of ${GAIN_DISTRIBUTIONS.join(', ')}` };
+  }
+  
+  const fadingCheck = validateFading(config.fading, 'monteCarlo.fading');
+  if (!fadingCheck.valid) return fadingCheck;
+  
+  return { valid: true };
+}
+
+export function validateSimulationParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  // Validate required numeric parameters
+  const checks: ValidationResult[] = [
+    validateNumber(params.N, 'N', 1, MAX_N),
+    validateNumber(params.NR, 'NR', 0, MAX_N),
+    validateNumber(params.ND, 'ND', 0, MAX_N),
+    validateNumber(params.PT, 'PT', 0, MAX_POWER),
+    validateNumber(params.PJ, 'PJ', 0, MAX_POWER),
+    validateNumber(params.sigma2, 'sigma2', 0.0001, MAX_POWER),
+    validateNumber(params.tau, 'tau', 0, MAX_POWER),
+  ];
+  
+  for (const check of checks) {
+    if (!check.valid) return check;
+  }
+  
+  // Validate arrays
+  if (params.h !== undefined) {
+    const arrCheck = validateArray(params.h, 'h', MAX_N);
+    if (!arrCheck.valid) return arrCheck;
+    for (const val of params.h as unknown[]) {
+      if (typeof val !== 'number' || !Number.isFinite(val) || val < 0) {
+        return { valid: false, error: 'h array must contain non-negative numbers' };
+      }
+    }
+  }
+  
+  if (params.g !== undefined) {
+    const arrCheck = validateArray(params.g, 'g', MAX_N);
+    if (!arrCheck.valid) return arrCheck;
+    for (const val of params.g as unknown[]) {
+      if (typeof val !== 'number' || !Number.isFinite(val) || val < 0) {
+        return { valid: false, error: 'g array must contain non-negative numbers' };
+      }
+    }
+  }
+  
+  const bandwidthCheck = validateBandwidth(params.B);
+  if (!bandwidthCheck.valid) return bandwidthCheck;
+  
+  // Validate policy strings
+  if (params.defenderPolicy !== undefined) {
+    if (!['D1', 'D2', 'D3', 'D4'].includes(params.defenderPolicy as string)) {
+      return { valid: false, error: 'defenderPolicy must be D1, D2, D3, or D4' };
+    }
+  }
+  
+  if (params.jammerMode !== undefined) {
+    if (!['J1', 'J2', 'J3', 'J4', 'J5', 'J6'].includes(params.jammerMode as string)) {
+      return { valid: false, error: 'jammerMode must be one of J1-J6' };
+    }
+  }
+  
+  const sensingCheck = validateSensing(params.sensing);
+  if (!sensingCheck.valid) return sensingCheck;
+  
+  const tauCheck = validateTauMatrix(params.tauMatrix, params.N as number, 1);
+  if (!tauCheck.valid) return tauCheck;
+  
+  // One floor per real channel
+  const minRateCheck = validateMinRate(params.minRate, params.N as number);
+  if (!minRateCheck.valid) return minRateCheck;
+  
+  const csiCheck = validateCSI(params.csi, 1, 1);
+  if (!csiCheck.valid) return csiCheck;
+  
+  const patternCheck = validateJammerPattern(params.pattern);
+  if (!patternCheck.valid) return patternCheck;
+  
+  const traceCheck = validateGainTrace(params.gainTrace, params.N as number, 1, 1);
+  if (!traceCheck.valid) return traceCheck;
+  
+  return validatePlacement(params.placement, params.N as number);
+}
+
+export function validateSweepParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  // Validate baseParams
+  if (!params.baseParams || typeof params.baseParams !== 'object') {
+    return { valid: false, error: 'baseParams is required and must be an object' };
+  }
+  
+  // Validate NDRange
+  const ndRangeCheck = validateArray(params.NDRange, 'NDRange', MAX_SWEEP_POINTS);
+  if (!ndRangeCheck.valid) return ndRangeCheck;
+  
+  // Validate secondaryRange if present
+  if (params.secondaryRange !== undefined) {
+    const secCheck = validateArray(params.secondaryRange, 'secondaryRange', MAX_SWEEP_POINTS);
+    if (!secCheck.valid) return secCheck;
+  }
+  
+  const monteCarloCheck = validateMonteCarlo(params.monteCarlo);
+  if (!monteCarloCheck.valid) return monteCarloCheck;
+  
+  return { valid: true };
+}
+
+export function validateEquilibriumParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  // Validate numeric parameters with strict bounds
+  const checks: ValidationResult[] = [
+    validateNumber(params.N, 'N', 1, MAX_N),
+    validateNumber(params.D, 'D', 1, MAX_D),
+    validateNumber(params.M, 'M', 1, MAX_M),
+    validateNumber(params.sigma2, 'sigma2', 0.0001, MAX_POWER),
+    validateNumber(params.tau, 'tau', 0, MAX_POWER),
+    validateNumber(params.alpha, 'alpha', 0.01, 1),
+    validateNumber(params.maxIter, 'maxIter', 1, MAX_ITER),
+    validateNumber(params.epsilon, 'epsilon', 0.0000001, 1),
+    validateNumber(params.topK, 'topK', 1, MAX_N),
+  ];
+  if (params.nashTolerance !== undefined) {
+    checks.push(validateNumber(params.nashTolerance, 'nashTolerance', 0, MAX_POWER));
+  }
+  if (params.coChannelGain !== undefined) {
+    checks.push(validateNumber(params.coChannelGain, 'coChannelGain', 0, MAX_CO_CHANNEL_GAIN));
+  }
+  
+  for (const check of checks) {
+    if (!check.valid) return check;
+  }
+  
+  // Validate power arrays
+  const ptCheck = validateArray(params.PT, 'PT', MAX_D);
+  if (!ptCheck.valid) return ptCheck;
+  
+  const pjCheck = validateArray(params.PJ, 'PJ', MAX_M);
+  if (!pjCheck.valid) return pjCheck;
+  
+  // Validate 2D arrays h and g
+  if (!Array.isArray(params.h)) {
+    return { valid: false, error: 'h must be a 2D array' };
+  }
+  if ((params.h as unknown[]).length > MAX_D) {
+    return { valid: false, error: `h exceeds maximum of ${MAX_D} defenders` };
+  }
+  for (const row of params.h as unknown[]) {
+    const rowCheck = validateArray(row, 'h row', MAX_N);
+    if (!rowCheck.valid) return rowCheck;
+  }
+  
+  if (!Array.isArray(params.g)) {
+    return { valid: false, error: 'g must be a 2D array' };
+  }
+  if ((params.g as unknown[]).length > MAX_M) {
+    return { valid: false, error: `g exceeds maximum of ${MAX_M} attackers` };
+  }
+  for (const row of params.g as unknown[]) {
+    const rowCheck = validateArray(row, 'g row', MAX_N);
+    if (!rowCheck.valid) return rowCheck;
+  }
+  
+  const bandwidthCheck = validateBandwidth(params.B);
+  if (!bandwidthCheck.valid) return bandwidthCheck;
+  
+  // Validate channelConfig
+  const configCheck = validateArray(params.channelConfig, 'channelConfig', MAX_N);
+  if (!configCheck.valid) return configCheck;
+  const sharingCheck = validateChannelSharing(params.channelConfig as unknown[], params.D as number);
+  if (!sharingCheck.valid) return sharingCheck;
+  
+  const tauCheck = validateTauMatrix(params.tauMatrix, params.N as number, params.M as number);
+  if (!tauCheck.valid) return tauCheck;
+  
+  const reachCheck = validateJammerReach(params.reach, params.N as number, params.M as number);
+  if (!reachCheck.valid) return reachCheck;
+  
+  const limitsCheck = validateHardwareLimits(
+    params.jammerLimits, params.defenderPeakPower, params.N as number, params.D as number, params.M as number
+  );
+  if (!limitsCheck.valid) return limitsCheck;
+  
+  const minRateCheck = validateMinRate(params.minRate, params.N as number);
+  if (!minRateCheck.valid) return minRateCheck;
+  
+  const geometryCheck = validateGeometry(params.geometry);
+  if (!geometryCheck.valid) return geometryCheck;
+  
+  const fadingCheck = validateFading(params.fading, 'fading');
+  if (!fadingCheck.valid) return fadingCheck;
+  
+  const traceCheck = validateGainTrace(params.gainTrace, params.N as number, params.D as number, params.M as number);
+  if (!traceCheck.valid) return traceCheck;
+  
+  // Validate strategy strings
+  const strategies = ['J1_uniform', 'J2_topK', 'J3_optimization', 'J4_sweep', 'J5_randomSubset', 'J6_reactive'];
+  if (!strategies.includes(params.jammerStrategy as string)) {
+    return { valid: false, error: `jammerStrategy must be one of ${strategies.join(', ')}` };
+  }
+  
+  if (!['deception', 'oracle'].includes(params.jammerObjective as string)) {
+    return { valid: false, error: 'jammerObjective must be deception or oracle' };
+  }
+  
+  if (!['coordinated', 'independent'].includes(params.attackerMode as string)) {
+    return { valid: false, error: 'attackerMode must be coordinated or independent' };
+  }
+  
+  const solvers = ['gradient', 'bestResponse', 'fictitiousPlay', 'extragradient'];
+  if (params.solver !== undefined && !solvers.includes(params.solver as string)) {
+    return { valid: false, error: `solver must be one of ${solvers.join(', ')}` };
+  }
+  
+  const sensingCheck = validateSensing(params.sensing);
+  if (!sensingCheck.valid) return sensingCheck;
+  
+  const csiCheck = validateCSI(params.csi, MAX_D, MAX_M);
+  if (!csiCheck.valid) return csiCheck;
+  
+  return validateJammerPattern(params.pattern);
+}
+
+export function validateRepeatedGameParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  const baseCheck = validateSimulationParams(params.baseParams);
+  if (!baseCheck.valid) {
+    return { valid: false, error: `baseParams: ${baseCheck.error}` };
+  }
+  
+  if (!['thompson', 'ucb'].includes(params.learner as string)) {
+    return { valid: false, error: 'learner must be thompson or ucb' };
+  }
+  
+  const checks: ValidationResult[] = [
+    validateNumber(params.slots, 'slots', 1, MAX_SLOTS),
+    validateNumber(params.reshuffleInterval, 'reshuffleInterval', 0, MAX_SLOTS),
+  ];
+  if (params.observationNoise !== undefined) {
+    checks.push(validateNumber(params.observationNoise, 'observationNoise', 0, 0.5));
+  }
+  if (params.discount !== undefined) {
+    checks.push(validateNumber(params.discount, 'discount', 0, 1));
+  }
+  if (params.priorReal !== undefined) {
+    checks.push(validateNumber(params.priorReal, 'priorReal', 0.01, 0.99));
+  }
+  
+  for (const check of checks) {
+    if (!check.valid) return check;
+  }
+  
+  return { valid: true };
+}
+
+export function validateOnlineLearningParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  const baseCheck = validateSimulationParams(params.baseParams);
+  if (!baseCheck.valid) {
+    return { valid: false, error: `baseParams: ${baseCheck.error}` };
+  }
+  
+  if (!['ucb', 'exp3'].includes(params.defenderLearner as string)) {
+    return { valid: false, error: 'defenderLearner must be ucb or exp3' };
+  }
+  
+  const checks: ValidationResult[] = [validateNumber(params.rounds, 'rounds', 1, MAX_SLOTS)];
+  if (params.defenderArms !== undefined) {
+    checks.push(validateNumber(params.defenderArms, 'defenderArms', 1, MAX_ONLINE_ARMS));
+  }
+  // EXP3 divides by the play probability, which gamma keeps away from 0
+  for (const name of ['defenderExploration', 'jammerExploration']) {
+    const gamma = params[name];
+    if (gamma === undefined) continue;
+    const check = validateNumber(gamma, name, 0, 1);
+    checks.push(check.valid && gamma === 0 ? { valid: false, error: `${name} must be greater than 0` } : check);
+  }
+  
+  for (const check of checks) {
+    if (!check.valid) return check;
+  }
+  
+  return { valid: true };
+}
+
+export function validateStackelbergParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  const baseCheck = validateSimulationParams(params.baseParams);
+  if (!baseCheck.valid) {
+    return { valid: false, error: `baseParams: ${baseCheck.error}` };
+  }
+  
+  const optional: [string, number, number][] = [
+    ['maxNR', 1, MAX_N],
+    ['decoyPowerLevels', 1, 20],
+    ['refineCandidates', 1, 20],
+    ['refineIterations', 0, MAX_ITER],
+    ['maxEvaluations', 10, MAX_STACKELBERG_EVALUATIONS],
+  ];
+  for (const [name, min, max] of optional) {
+    if (params[name] === undefined) continue;
+    const check = validateNumber(params[name], name, min, max);
+    if (!check.valid) return check;
+  }
+  
+  // Every follower response draws the sensed set `samples` times under energy sensing
+  const base = params.baseParams as Record<string, unknown>;
+  const sensing = base.sensing as Record<string, unknown> | undefined;
+  const samples = sensing?.model === 'energy' ? (sensing.samples as number | undefined) ?? DEFAULT_SENSING_SAMPLES : 1;
+  const evaluations = (params.maxEvaluations as number | undefined) ?? DEFAULT_MAX_EVALUATIONS;
+  if (evaluations * samples > MAX_STACKELBERG_WORK) {
+    return {
+      valid: false,
+      error: `maxEvaluations x sensing.samples (${evaluations} x ${samples}) exceeds ${MAX_STACKELBERG_WORK}; lower either`,
+    };
+  }
+  
+  return { valid: true };
+}
+
+export function validateMultiStartParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  const baseCheck = validateEquilibriumParams(params.baseParams);
+  if (!baseCheck.valid) {
+    return { valid: false, error: `baseParams: ${baseCheck.error}` };
+  }
+  
+  const startsCheck = validateNumber(params.starts, 'starts', 1, MAX_STARTS);
+  if (!startsCheck.valid) return startsCheck;
+  
+  if (params.initSeed !== undefined) {
+    const check = validateNumber(params.initSeed, 'initSeed', 0, Number.MAX_SAFE_INTEGER);
+    if (!check.valid) return check;
+  }
+  if (params.clusterTolerance !== undefined) {
+    const check = validateNumber(params.clusterTolerance, 'clusterTolerance', 0, MAX_POWER);
+    if (!check.valid) return check;
+  }
+  
+  return { valid: true };
+}
+
+export function validateEquilibriumSweepParams(body: unknown): ValidationResult {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' };
+  }
+  
+  const params = body as Record<string, unknown>;
+  
+  const baseCheck = validateEquilibriumParams(params.baseParams);
+  if (!baseCheck.valid) {
+    return { valid: false, error: `baseParams: ${baseCheck.error}` };
+  }
+  
+  if (!['ND', 'tau', 'N', 'M', 'D', 'PJ'].includes(params.sweepVariable as string)) {
+    return { valid: false, error: 'sweepVariable must be ND, tau, N, M, D, or PJ' };
+  }
+  
+  const rangeCheck = validateArray(params.range, 'range', MAX_SWEEP_POINTS);
+  if (!rangeCheck.valid) return rangeCheck;
+  
+  for (const val of params.range as unknown[]) {
+    const valCheck = validateNumber(val, 'range value', 0, MAX_POWER);
+    if (!valCheck.valid) return valCheck;
+  }
+  
+  // Keep N, M and D within the same limits as a single equilibrium run
+  const limits: Partial<Record<SweepVariable, number>> = { N: MAX_N, M: MAX_M, D: MAX_D };
+  const limit = limits[params.sweepVariable as SweepVariable];
+  if (limit !== undefined && (params.range as number[]).some(v => v > limit)) {
+    return { valid: false, error: `${params.sweepVariable} range exceeds maximum of ${limit}` };
+  }
+  
+  const monteCarloCheck = validateMonteCarlo(params.monteCarlo);
+  if (!monteCarloCheck.valid) return monteCarloCheck;
+  
+  return { valid: true };
+}
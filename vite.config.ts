@@ -14,6 +14,7 @@ export default defineConfig(({ mode }) => ({
   plugins: [react()],
   resolve: {
     alias: {
+      "@engine": path.resolve(__dirname, "./supabase/functions/_shared/engine/index.ts"),
       "@": path.resolve(__dirname, "./src"),
     },
   },
@@ -11,6 +11,9 @@ export default defineConfig({
     include: ["src/**/*.{test,spec}.{ts,tsx}"],
   },
   resolve: {
-    alias: { "@": path.resolve(__dirname, "./src") },
+    alias: {
+      "@engine": path.resolve(__dirname, "./supabase/functions/_shared/engine/index.ts"),
+      "@": path.resolve(__dirname, "./src"),
+    },
   },
 });